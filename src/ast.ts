@@ -10,6 +10,18 @@ export interface PropertyNode {
   readonly: boolean;
   description?: string;
   tags?: Record<string, string>; // JSDoc tags like @minimum, @default, @pattern, etc.
+  defaultValue?: unknown; // literal initializer of a class field → schema default
+  decorators?: DecoratorNode[]; // class member decorators: @IsEmail(), @Min(1)
+}
+
+/**
+ * A decorator call: `@Min(1)` → { name: "Min", args: [1] }. Literal
+ * arguments are evaluated (regex literals become RegExp); anything else,
+ * such as an identifier or arrow function, is left undefined.
+ */
+export interface DecoratorNode {
+  name: string;
+  args: unknown[];
 }
 
 /** Index signature: [key: string]: ValueType */
@@ -31,11 +43,31 @@ export type TypeNode =
   | { kind: "intersection"; members: TypeNode[] }
   | { kind: "reference"; name: string; typeArgs?: TypeNode[] }
   | { kind: "enum_member_access"; enumName: string; memberName: string }
+  | { kind: "keyof"; target: TypeNode } // keyof T
+  | { kind: "indexed_access"; object: TypeNode; index: TypeNode } // T["prop"], T[number]
+  | { kind: "typeof"; name: string } // typeof X, typeof X.y (type query on a const or enum)
+  | { kind: "conditional"; checkType: TypeNode; extendsType: TypeNode; trueType: TypeNode; falseType: TypeNode } // T extends U ? X : Y
+  | { kind: "infer"; name: string } // infer U (only meaningful inside a conditional's extends type)
   | { kind: "parenthesized"; inner: TypeNode }
   | { kind: "template_literal"; parts: (string | TypeNode)[] }
-  | { kind: "function" } // function/method types - not representable in JSON Schema
+  | { kind: "function"; params?: TupleElement[]; returnType?: TypeNode } // not representable in JSON Schema; kept for ReturnType/Parameters
   | { kind: "record"; keyType: TypeNode; valueType: TypeNode }
-  | { kind: "mapped"; keyName: string; constraint: TypeNode; valueType: TypeNode; optional?: boolean };
+  | MappedTypeNode;
+
+/**
+ * Mapped type: { [K in Constraint as NameType]?: ValueType }.
+ * Modifiers are `true` for `?`/`+?` (`readonly`/`+readonly`), `"-"` for
+ * `-?` (`-readonly`), and undefined to keep the source property's modifier.
+ */
+export interface MappedTypeNode {
+  kind: "mapped";
+  keyName: string;
+  constraint: TypeNode;
+  valueType: TypeNode;
+  nameType?: TypeNode; // key remapping via `as`
+  optional?: boolean | "-";
+  readonly?: boolean | "-";
+}
 
 export interface TupleElement {
   type: TypeNode;
@@ -48,19 +80,24 @@ export interface TupleElement {
 export type Declaration =
   | InterfaceDeclaration
   | TypeAliasDeclaration
-  | EnumDeclaration;
+  | EnumDeclaration
+  | ConstDeclaration
+  | ClassDeclaration;
 
 export interface InterfaceDeclaration {
   kind: "interface";
   name: string;
   sourceFile?: string;
   typeParams?: string[]; // generic type parameter names, e.g. ["T", "U"]
+  typeParamConstraints?: Record<string, TypeNode>; // T extends Constraint
+  typeParamDefaults?: Record<string, TypeNode>; // T = Default
   extends?: TypeNode[];
   properties: PropertyNode[];
   indexSignature?: IndexSignatureNode;
   description?: string;
   tags?: Record<string, string>; // JSDoc tags like @additionalProperties
   exported: boolean;
+  augments?: string; // "global" or the module name when declared in declare global / declare module "x"
 }
 
 export interface TypeAliasDeclaration {
@@ -68,6 +105,8 @@ export interface TypeAliasDeclaration {
   name: string;
   sourceFile?: string;
   typeParams?: string[]; // generic type parameter names, e.g. ["T", "U"]
+  typeParamConstraints?: Record<string, TypeNode>; // T extends Constraint
+  typeParamDefaults?: Record<string, TypeNode>; // T = Default
   type: TypeNode;
   description?: string;
   tags?: Record<string, string>; // JSDoc tags like @additionalProperties
@@ -83,3 +122,38 @@ export interface EnumDeclaration {
   tags?: Record<string, string>; // JSDoc tags like @additionalProperties
   exported: boolean;
 }
+
+/**
+ * A class, reduced to its public instance data: fields and constructor
+ * parameter properties. Methods, static and private/protected members are
+ * dropped. Shaped like an interface so both are emitted the same way.
+ */
+export interface ClassDeclaration {
+  kind: "class";
+  name: string;
+  sourceFile?: string;
+  typeParams?: string[];
+  typeParamConstraints?: Record<string, TypeNode>;
+  typeParamDefaults?: Record<string, TypeNode>;
+  extends?: TypeNode[]; // the base class (at most one entry)
+  implements?: TypeNode[];
+  properties: PropertyNode[];
+  indexSignature?: IndexSignatureNode;
+  description?: string;
+  tags?: Record<string, string>;
+  exported: boolean;
+}
+
+/**
+ * A `const` declaration with a literal initializer. Not emitted as a schema
+ * itself; it lives in the value namespace and is only reachable via `typeof`.
+ */
+export interface ConstDeclaration {
+  kind: "const";
+  name: string;
+  sourceFile?: string;
+  type: TypeNode; // the type `typeof name` evaluates to
+  description?: string;
+  tags?: Record<string, string>;
+  exported: boolean;
+}
@@ -12,13 +12,17 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { toJsonSchema, toJsonSchemaFromFile, toJsonSchemasFromFiles, EmitterOptions } from './index.js';
+import { toJsonSchema, toJsonSchemaFromFile, toJsonSchemasFromFiles, toOpenApiDocumentFromFiles, toSamplesFromFiles, EmitterOptions, SchemaTarget, OpenApiDocument } from './index.js';
 
 interface CliOptions extends EmitterOptions {
   help?: boolean;
   version?: boolean;
   doctor?: boolean;
   batch?: boolean;
+  openapi?: boolean;
+  mergeInto?: string;
+  samples?: number;
+  seed?: number;
   followImports?: "none" | "local" | "all";
   baseDir?: string;
 }
@@ -32,6 +36,8 @@ ts-source-to-json-schema v${version}
 USAGE:
   ts-source-to-json-schema <file.ts> [options]
   ts-source-to-json-schema --batch <pattern|files...> [options]
+  ts-source-to-json-schema --openapi <pattern|files...> [--mergeInto <openapi.json>] [options]
+  ts-source-to-json-schema --samples <n> <pattern|files...> [--seed <n>] [options]
 
 DESCRIPTION:
   Convert TypeScript type definitions to JSON Schema (2020-12 draft).
@@ -41,10 +47,15 @@ OPTIONS:
   -v, --version                  Show version number
       --doctor                   Output diagnostic information for debugging
       --batch                    Batch mode: generate schemas for all types across files
+      --openapi                  Generate an OpenAPI 3.1 document with all types under components/schemas
+      --mergeInto <file.json>    With --openapi: add the schemas to an existing OpenAPI document
+      --samples <n>              Print n sample values per type (with -r, for that type only)
+      --seed <n>                 With --samples: seed of the generator (default: 1)
 
   -r, --rootType <name>          Emit this type as root (others in $defs)
   -s, --includeSchema <bool>     Include $schema property (default: true)
       --schemaVersion <url>      Custom $schema URL
+      --target <dialect>         Output dialect: 2020-12, draft-07, draft-04, openapi-3.0 (default: 2020-12)
       --strictObjects            Set additionalProperties: false globally
       --additionalProperties     Set additionalProperties default (true/false)
       --includeJSDoc <bool>      Include JSDoc comments (default: true)
@@ -71,6 +82,9 @@ EXAMPLES:
   # Disable JSDoc processing
   ts-source-to-json-schema src/types.ts --includeJSDoc false
 
+  # Draft-07 output for Ajv's default export
+  ts-source-to-json-schema src/types.ts --target draft-07
+
   # Combine options
   ts-source-to-json-schema src/user.ts -r User --strictObjects --followImports local
 
@@ -79,6 +93,12 @@ EXAMPLES:
 
   # Batch: specific files
   ts-source-to-json-schema --batch src/PostReq.ts src/PostRes.ts --followImports local
+
+  # OpenAPI: refresh components/schemas of an existing document
+  ts-source-to-json-schema --openapi 'src/schemas/*.ts' --mergeInto openapi.json > openapi.next.json
+
+  # Samples: three example payloads per type, reproducible with the seed
+  ts-source-to-json-schema --samples 3 --seed 42 src/api.ts
 `);
 }
 
@@ -97,12 +117,33 @@ function parseArgs(args: string[]): { filePaths: string[]; options: CliOptions }
       options.doctor = true;
     } else if (arg === '--batch') {
       options.batch = true;
+    } else if (arg === '--openapi') {
+      options.openapi = true;
+    } else if (arg === '--mergeInto') {
+      options.mergeInto = args[++i];
+    } else if (arg === '--samples' || arg === '--seed') {
+      const value = Number(args[++i]);
+      if (!Number.isInteger(value) || (arg === '--samples' && value < 1)) {
+        console.error(`Invalid ${arg} value: ${args[i]}`);
+        console.error(arg === '--samples' ? 'Expected a positive integer' : 'Expected an integer');
+        process.exit(1);
+      }
+      if (arg === '--samples') options.samples = value;
+      else options.seed = value;
     } else if (arg === '-r' || arg === '--rootType') {
       options.rootType = args[++i];
     } else if (arg === '-s' || arg === '--includeSchema') {
       options.includeSchema = parseBoolean(args[++i]);
     } else if (arg === '--schemaVersion') {
       options.schemaVersion = args[++i];
+    } else if (arg === '--target') {
+      const target = args[++i];
+      if (!['2020-12', 'draft-07', 'draft-04', 'openapi-3.0'].includes(target)) {
+        console.error(`Invalid target: ${target}`);
+        console.error('Valid options: 2020-12, draft-07, draft-04, openapi-3.0');
+        process.exit(1);
+      }
+      options.target = target as SchemaTarget;
     } else if (arg === '--strictObjects') {
       options.strictObjects = true;
     } else if (arg === '--additionalProperties') {
@@ -166,6 +207,81 @@ function main(): void {
     process.exit(0);
   }
 
+  if (options.mergeInto && !options.openapi) {
+    console.error('Error: --mergeInto requires --openapi');
+    process.exit(1);
+  }
+
+  if (options.seed !== undefined && options.samples === undefined) {
+    console.error('Error: --seed requires --samples');
+    process.exit(1);
+  }
+
+  // Samples mode
+  if (options.samples !== undefined) {
+    if (filePaths.length === 0) {
+      console.error('Error: No input files specified for --samples mode');
+      console.error('Usage: ts-source-to-json-schema --samples <n> <pattern|files...> [options]');
+      process.exit(1);
+    }
+
+    try {
+      const { help, version, doctor, batch, openapi, mergeInto, samples, ...emitterOptions } = options;
+      const followMode = emitterOptions.followImports ?? 'local';
+
+      const entries = filePaths.length === 1 && /[*?]/.test(filePaths[0])
+        ? filePaths[0]
+        : filePaths;
+
+      const result = toSamplesFromFiles(entries, {
+        ...emitterOptions,
+        followImports: followMode,
+        count: samples,
+      });
+
+      console.log(JSON.stringify(result, null, 2));
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+    process.exit(0);
+  }
+
+  // OpenAPI mode
+  if (options.openapi) {
+    if (filePaths.length === 0) {
+      console.error('Error: No input files specified for --openapi mode');
+      console.error('Usage: ts-source-to-json-schema --openapi <pattern|files...> [options]');
+      process.exit(1);
+    }
+
+    try {
+      const { help, version, doctor, batch, openapi, mergeInto, ...emitterOptions } = options;
+      const followMode = emitterOptions.followImports ?? 'local';
+
+      let existing: OpenApiDocument | undefined;
+      if (mergeInto) {
+        existing = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), mergeInto), 'utf-8')) as OpenApiDocument;
+      }
+
+      const entries = filePaths.length === 1 && /[*?]/.test(filePaths[0])
+        ? filePaths[0]
+        : filePaths;
+
+      const document = toOpenApiDocumentFromFiles(entries, {
+        ...emitterOptions,
+        followImports: followMode,
+        mergeInto: existing,
+      });
+
+      console.log(JSON.stringify(document, null, 2));
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+    process.exit(0);
+  }
+
   // Batch mode
   if (options.batch) {
     if (filePaths.length === 0) {
@@ -0,0 +1,71 @@
+// ============================================================================
+// Codegen - Helpers shared by the backends that generate source code
+// ============================================================================
+//
+// The Zod, validator and type guard backends all turn the Emitter's `$defs`
+// into a TypeScript module. They name their functions and constants after
+// the definitions, and check JSON types with the same expressions.
+
+/** First line of every generated module. */
+export const GENERATED_HEADER = "// Generated by ts-source-to-json-schema. Do not edit.";
+
+/** Checks a value expression against a JSON Schema `type`. `object` uses the module's `isObject` helper. */
+export const TYPE_CONDITIONS: Record<string, (v: string) => string> = {
+  string: v => `typeof ${v} === "string"`,
+  number: v => `typeof ${v} === "number"`,
+  integer: v => `Number.isInteger(${v})`,
+  boolean: v => `typeof ${v} === "boolean"`,
+  null: v => `${v} === null`,
+  array: v => `Array.isArray(${v})`,
+  object: v => `isObject(${v})`,
+};
+
+/** The definition name of a `#/$defs/...` reference. */
+export function refName(ref: unknown): string | undefined {
+  if (typeof ref !== "string") return undefined;
+  const match = ref.match(/^#\/\$defs\/(.+)$/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Identifiers for definition names: `Api.User` → `Api_User`. Names that
+ * are identifiers already keep them; a name that would take one already
+ * in use (`Api.User` next to `Api_User`) gets a numeric suffix.
+ */
+export function identifiers(names: string[]): Map<string, string> {
+  const result = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const name of names) {
+    if (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name)) {
+      result.set(name, name);
+      taken.add(name);
+    }
+  }
+  for (const name of names) {
+    if (result.has(name)) continue;
+    const base = name.replace(/[^A-Za-z0-9_$]/g, "_");
+    let id = base;
+    for (let i = 2; taken.has(id); i++) id = `${base}_${i}`;
+    result.set(name, id);
+    taken.add(id);
+  }
+  return result;
+}
+
+/** Module-level constants and unique local variable names of a generated module. */
+export class ModuleScope {
+  /** `const` declarations, emitted before the functions that use them */
+  readonly constants: string[] = [];
+  private counter = 0;
+
+  /** Declares a module-level constant and returns its name. */
+  constant(prefix: string, value: string): string {
+    const name = `${prefix}${this.constants.length}`;
+    this.constants.push(`const ${name} = ${value};`);
+    return name;
+  }
+
+  variable(prefix: string): string {
+    return `${prefix}${++this.counter}`;
+  }
+}
@@ -0,0 +1,183 @@
+// ============================================================================
+// Declaration Merging - Combines same-named interfaces into one declaration
+// ============================================================================
+
+import path from "node:path";
+import type { Declaration, InterfaceDeclaration, PropertyNode, TypeNode } from "./ast.js";
+
+/**
+ * Merges interfaces that share a name, the way TypeScript does for
+ * `interface Config {}` declared twice in one scope (or augmented from
+ * `declare global` / `declare module` blocks, possibly from another file).
+ * Interfaces of the same name from two ordinary files are left alone, and a
+ * `declare module "x"` augmentation only merges into interfaces of module
+ * "x": a relative specifier names a file, a bare one a package under
+ * node_modules. An augmentation of a module that isn't among the
+ * declarations gives way to a same-named interface of another scope. The
+ * merged declaration takes the place of the first one; members of later
+ * declarations are appended.
+ *
+ * A property declared again with a different type is reported through
+ * `onConflict` and keeps its first type. Other declaration kinds pass
+ * through untouched.
+ */
+export function mergeInterfaceDeclarations(
+  declarations: Declaration[],
+  onConflict: (message: string) => void
+): Declaration[] {
+  const groups = new Map<string, MergeGroup[]>();
+  const result: Declaration[] = [];
+
+  for (const decl of declarations) {
+    if (decl.kind !== "interface") {
+      result.push(decl);
+      continue;
+    }
+
+    const scope = scopeOf(decl);
+    const sameName = groups.get(decl.name) ?? [];
+    // `declare global` merges with any ordinary interface of the name, since
+    // the top-level declarations of a non-module file are global
+    const existing = sameName.find(group => scope === "global"
+      ? !group.augmentationOnly
+      : [...scope].some(module => group.modules.has(module)) || (group.global && decl.augments === undefined));
+    if (!existing) {
+      const copy: InterfaceDeclaration = { ...decl, properties: [...decl.properties] };
+      sameName.push({
+        target: copy,
+        modules: new Set(scope === "global" ? [] : scope),
+        global: scope === "global",
+        augmentationOnly: decl.augments !== undefined && decl.augments !== "global",
+      });
+      groups.set(decl.name, sameName);
+      result.push(copy);
+      continue;
+    }
+
+    mergeInto(existing.target, decl, onConflict);
+    if (scope !== "global") scope.forEach(module => existing.modules.add(module));
+    if (decl.augments === undefined) existing.augmentationOnly = false;
+  }
+
+  const unmatched = new Set<Declaration>();
+  for (const sameName of groups.values()) {
+    if (sameName.some(group => !group.augmentationOnly)) {
+      sameName.filter(group => group.augmentationOnly).forEach(group => unmatched.add(group.target));
+    }
+  }
+  return unmatched.size > 0 ? result.filter(decl => !unmatched.has(decl)) : result;
+}
+
+/** Same-named interfaces merged into one declaration, and the modules it belongs to. */
+interface MergeGroup {
+  target: InterfaceDeclaration;
+  modules: Set<string>;
+  /** Includes a `declare global` augmentation */
+  global: boolean;
+  /** Only `declare module` augmentations so far */
+  augmentationOnly: boolean;
+}
+
+/**
+ * The module names an interface belongs to: its file (without extension,
+ * and its directory for index files) plus the package name under
+ * node_modules, or the module a `declare module` block augments.
+ * Declarations parsed from a string share the empty name.
+ */
+function scopeOf(decl: InterfaceDeclaration): Set<string> | "global" {
+  if (decl.augments === "global") return "global";
+  if (decl.augments !== undefined) {
+    if (!decl.augments.startsWith(".") || !decl.sourceFile) return new Set([decl.augments]);
+    return new Set([path.resolve(path.dirname(decl.sourceFile), decl.augments)]);
+  }
+  if (!decl.sourceFile) return new Set([""]);
+
+  const file = decl.sourceFile.replace(/(\.d)?\.[cm]?tsx?$/, "");
+  const modules = new Set([file]);
+  if (path.basename(file) === "index") modules.add(path.dirname(file));
+  const nodeModules = file.lastIndexOf(`${path.sep}node_modules${path.sep}`);
+  if (nodeModules !== -1) {
+    modules.add(file
+      .slice(nodeModules + "/node_modules/".length)
+      .split(path.sep).join("/")
+      .replace(/^@types\/(?:([^/]+)__)?/, (_, scope) => (scope ? `@${scope}/` : ""))
+      .replace(/\/index$/, ""));
+  }
+  return modules;
+}
+
+function mergeInto(
+  target: InterfaceDeclaration,
+  source: InterfaceDeclaration,
+  onConflict: (message: string) => void
+): void {
+  const where = (decl: InterfaceDeclaration) => decl.sourceFile ? ` (${decl.sourceFile})` : "";
+
+  for (const prop of source.properties) {
+    const index = target.properties.findIndex((p) => p.name === prop.name);
+    if (index === -1) {
+      target.properties.push(prop);
+      continue;
+    }
+
+    const previous = target.properties[index];
+    if (!sameType(previous.type, prop.type)) {
+      onConflict(
+        `Conflicting types for property "${prop.name}" in merged interface "${target.name}":\n` +
+        `  ${describeType(previous.type)}${where(target)}\n` +
+        `  ${describeType(prop.type)}${where(source)}`
+      );
+      continue;
+    }
+    target.properties[index] = mergeProperty(previous, prop);
+  }
+
+  if (source.extends) {
+    const heritage = [...(target.extends ?? [])];
+    for (const base of source.extends) {
+      if (!heritage.some((existing) => sameType(existing, base))) heritage.push(base);
+    }
+    target.extends = heritage;
+  }
+
+  if (source.indexSignature) {
+    if (!target.indexSignature) {
+      target.indexSignature = source.indexSignature;
+    } else if (!sameType(target.indexSignature.valueType, source.indexSignature.valueType)) {
+      onConflict(
+        `Conflicting index signatures in merged interface "${target.name}":\n` +
+        `  ${describeType(target.indexSignature.valueType)}${where(target)}\n` +
+        `  ${describeType(source.indexSignature.valueType)}${where(source)}`
+      );
+    }
+  }
+
+  if (!target.description && source.description) target.description = source.description;
+  if (source.tags) target.tags = { ...source.tags, ...target.tags };
+  if (source.exported) target.exported = true;
+}
+
+/** Keeps the first declaration's JSDoc, filling gaps from the later one. */
+function mergeProperty(first: PropertyNode, later: PropertyNode): PropertyNode {
+  const merged: PropertyNode = { ...first };
+  if (merged.description === undefined && later.description !== undefined) merged.description = later.description;
+  if (later.tags) merged.tags = { ...later.tags, ...first.tags };
+  return merged;
+}
+
+function sameType(a: TypeNode, b: TypeNode): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function describeType(node: TypeNode): string {
+  switch (node.kind) {
+    case "primitive": return node.value;
+    case "literal_string": return JSON.stringify(node.value);
+    case "literal_number":
+    case "literal_boolean": return String(node.value);
+    case "reference": return node.name;
+    case "array": return `${describeType(node.element)}[]`;
+    case "union": return node.members.map(describeType).join(" | ");
+    default: return node.kind;
+  }
+}
@@ -0,0 +1,109 @@
+// ============================================================================
+// Decorators - Maps class-validator style decorators to schema keywords
+// ============================================================================
+
+import type { JSONSchema } from "./emitter.js";
+
+export interface DecoratorContext {
+  /** Evaluated call arguments: `@Length(2, 10)` → [2, 10]. Non-literals are undefined. */
+  args: unknown[];
+  /** Overrides whether the decorated property is required (`@IsOptional()`). */
+  setOptional(optional: boolean): void;
+}
+
+/** Applies a decorator to the schema of the property it decorates. */
+export type DecoratorHandler = (schema: JSONSchema, context: DecoratorContext) => void;
+
+const num = (value: unknown): number | undefined => typeof value === "number" ? value : undefined;
+
+const setType = (type: string): DecoratorHandler => (schema) => {
+  if (schema.$ref) return;
+  // `@IsInt() n: number | null` keeps null: ["integer", "null"]
+  schema.type = Array.isArray(schema.type) && schema.type.includes("null") ? [type, "null"] : type;
+};
+
+const setFormat = (format: string): DecoratorHandler => (schema) => {
+  schema.format = format;
+};
+
+const setNumber = (keyword: string, index = 0): DecoratorHandler => (schema, { args }) => {
+  const value = num(args[index]);
+  if (value !== undefined) schema[keyword] = value;
+};
+
+/**
+ * Built-in handlers for the common class-validator decorators. Decorators
+ * that only affect runtime behaviour (`@ValidateNested()`, `@Type()`) are
+ * recognized but add nothing: the nested schema already comes from the type.
+ */
+export const classValidatorDecorators: Record<string, DecoratorHandler> = {
+  // Presence
+  IsOptional: (_schema, { setOptional }) => setOptional(true),
+  IsDefined: (_schema, { setOptional }) => setOptional(false),
+  ValidateNested: () => {},
+  Type: () => {},
+
+  // Types
+  IsString: setType("string"),
+  IsNumber: setType("number"),
+  IsInt: setType("integer"),
+  IsBoolean: setType("boolean"),
+  IsArray: setType("array"),
+  IsObject: setType("object"),
+
+  // Formats
+  IsEmail: setFormat("email"),
+  IsUrl: setFormat("uri"),
+  IsURL: setFormat("uri"),
+  IsUUID: setFormat("uuid"),
+  IsDateString: setFormat("date-time"),
+  IsISO8601: setFormat("date-time"),
+  IsIP: (schema, { args }) => {
+    schema.format = String(args[0]) === "6" ? "ipv6" : "ipv4";
+  },
+
+  // Numbers
+  Min: setNumber("minimum"),
+  Max: setNumber("maximum"),
+  IsPositive: (schema) => { schema.exclusiveMinimum = 0; },
+  IsNegative: (schema) => { schema.exclusiveMaximum = 0; },
+
+  // Strings
+  MinLength: setNumber("minLength"),
+  MaxLength: setNumber("maxLength"),
+  Length: (schema, context) => {
+    setNumber("minLength", 0)(schema, context);
+    setNumber("maxLength", 1)(schema, context);
+  },
+  IsNotEmpty: (schema) => {
+    if (schema.type === "string") schema.minLength = Math.max(schema.minLength ?? 0, 1);
+  },
+  Matches: (schema, { args }) => {
+    // @Matches(/re/flags) or @Matches("re", "flags")
+    const [source, flags] = args[0] instanceof RegExp
+      ? [args[0].source, args[0].flags]
+      : [args[0], typeof args[1] === "string" ? args[1] : ""];
+    if (typeof source !== "string") return;
+    schema.pattern = source;
+    // JSON Schema patterns have no flags; g and u don't change what matches
+    const dropped = flags.replace(/[gu]/g, "");
+    if (dropped) {
+      console.warn(`[ts-source-to-json-schema] Warning: @Matches flags "${dropped}" can't be expressed in a JSON Schema pattern and are ignored: /${source}/${flags}`);
+    }
+  },
+
+  // Values
+  Equals: (schema, { args }) => {
+    if (args[0] !== undefined) schema.const = args[0];
+  },
+  IsIn: (schema, { args }) => {
+    if (Array.isArray(args[0])) schema.enum = args[0];
+  },
+
+  // Arrays and objects
+  ArrayMinSize: setNumber("minItems"),
+  ArrayMaxSize: setNumber("maxItems"),
+  ArrayNotEmpty: (schema) => { schema.minItems = Math.max(schema.minItems ?? 0, 1); },
+  ArrayUnique: (schema) => { schema.uniqueItems = true; },
+  IsNotEmptyObject: (schema) => { schema.minProperties = 1; },
+};
@@ -4,9 +4,13 @@
 
 import path from "node:path";
 import type {
-  Declaration, TypeNode, PropertyNode, InterfaceDeclaration,
-  TypeAliasDeclaration, EnumDeclaration, IndexSignatureNode,
+  Declaration, TypeNode, PropertyNode, InterfaceDeclaration, ClassDeclaration,
+  TypeAliasDeclaration, EnumDeclaration, ConstDeclaration, IndexSignatureNode,
+  MappedTypeNode, DecoratorNode,
 } from "./ast.js";
+import { classValidatorDecorators, type DecoratorHandler } from "./decorators.js";
+import { mergeInterfaceDeclarations } from "./declaration-merging.js";
+import { convertSchemaToTarget, targetSchemaUris, type SchemaTarget } from "./targets.js";
 
 export interface JSONSchema {
   $schema?: string;
@@ -43,8 +47,17 @@ export interface JSONSchema {
 export interface EmitterOptions {
   /** Include $schema in the root. Default: true */
   includeSchema?: boolean;
-  /** JSON Schema draft. Default: "https://json-schema.org/draft/2020-12/schema" */
+  /** JSON Schema draft. Default: the URI of the target dialect ("https://json-schema.org/draft/2020-12/schema") */
   schemaVersion?: string;
+  /**
+   * Dialect to emit. Schemas are generated as 2020-12 and rewritten:
+   * - 'draft-07': `definitions`, tuple `items` arrays
+   * - 'draft-04': as draft-07, plus `const` → `enum`, boolean `exclusiveMinimum`/`exclusiveMaximum`, `id`
+   * - 'openapi-3.0': as draft-04, plus `nullable: true` instead of "null" types, no `$schema`
+   * Keywords the dialect can't express are dropped with a warning.
+   * Default: '2020-12'
+   */
+  target?: SchemaTarget;
   /** Set additionalProperties: false on all objects. Default: false */
   strictObjects?: boolean;
   /** Name of the root type to emit. If not set, emits all types under $defs */
@@ -58,7 +71,8 @@ export interface EmitterOptions {
   /** Base directory for resolving imports. Default: dirname(entryPath) or cwd */
   baseDir?: string;
   /**
-   * How to handle duplicate type declarations across files.
+   * How to handle duplicate type declarations across files, and properties
+   * that merged interface declarations give conflicting types.
    * - 'error': Throw error (strict, default)
    * - 'warn': Use first declaration, log warning
    * - 'silent': Use first declaration, no warning
@@ -80,6 +94,7 @@ export interface EmitterOptions {
    * Useful for namespacing types by file, adding prefixes/suffixes, or custom naming schemes.
    *
    * @param originalName - The original type name from the TypeScript source
+   *   (namespace members are qualified: `Api.User`)
    * @param declaration - The AST declaration node for the type
    * @param context - File path context (undefined for string-based APIs, defined for file-based APIs)
    * @returns The transformed name to use in the schema
@@ -140,15 +155,110 @@ export interface EmitterOptions {
       relativePath: string;
     }
   ) => string;
+  /**
+   * Decorator handlers for class members, merged over the built-in
+   * class-validator table (`@IsEmail()`, `@Min(1)`, `@IsOptional()`, ...).
+   * Map a name to `null` to ignore a built-in decorator.
+   *
+   * @example
+   * decorators: {
+   *   IsSlug: (schema) => { schema.pattern = "^[a-z0-9-]+$"; },
+   *   Range: (schema, { args }) => { schema.minimum = args[0] as number; schema.maximum = args[1] as number; },
+   * }
+   */
+  decorators?: Record<string, DecoratorHandler | null>;
+  /**
+   * Emit each distinct generic instantiation (`Paginated<User>`) once as a
+   * named definition and `$ref` it, instead of inlining it at every use
+   * site. Recursive instantiations are always emitted this way, since they
+   * can't be inlined. Ignored with `defineId`, which references definitions
+   * by `$id` only: instantiations are inlined there. Default: false
+   */
+  namedGenericInstantiations?: boolean;
+  /**
+   * Names the definition of a generic instantiation. Receives the generic's
+   * name, a readable name per type argument, and the type arguments.
+   * Default: joins the names with "_" (`Paginated<User>` → `Paginated_User`).
+   *
+   * @example
+   * genericInstantiationName: (name, args) => `${name}Of${args.join("And")}`
+   */
+  genericInstantiationName?: (name: string, typeArgNames: string[], typeArgs: TypeNode[]) => string;
+  /**
+   * How to emit discriminated unions: object members that all share a
+   * required property with a distinct literal type (`kind: "circle"`).
+   * - 'anyOf': Plain anyOf, like any other union (default)
+   * - 'oneOf': oneOf plus the OpenAPI `discriminator` keyword, with a
+   *   `mapping` for the members emitted as `$ref`
+   * - 'if-then': An if/then branch per discriminant value, so validators
+   *   only report errors for the matching member
+   * Default: 'anyOf'
+   */
+  discriminatedUnions?: 'anyOf' | 'oneOf' | 'if-then';
+  /**
+   * Merge intersections of object types (`A & B & { extra: string }`) into
+   * one object schema instead of `allOf`. Referenced interfaces, utility
+   * type results and nested intersections are flattened; a property in
+   * several members gets the narrower type, and is required if any member
+   * requires it. Intersections that can't be merged stay `allOf`.
+   * Default: false
+   */
+  mergeIntersections?: boolean;
+  /**
+   * How to emit `interface Child extends Parent`:
+   * - 'allOf': `allOf: [{ $ref: Parent }, { ...own properties }]` (default)
+   * - 'flatten': One object with the properties of the whole extends chain
+   *   (generic and utility type parents included); child properties
+   *   override inherited ones
+   * - 'unevaluated': Like 'allOf', but when the object is closed
+   *   (strictObjects or `@additionalProperties false`), the branches stay
+   *   open and `unevaluatedProperties: false` closes the whole
+   * Default: 'allOf'
+   */
+  extendsStrategy?: 'allOf' | 'flatten' | 'unevaluated';
+  /**
+   * Marks the schemas of `bigint` and `Date`, whose JSON forms (an integer,
+   * a `date-time` string) other types share, with an `x-ts-type` keyword
+   * naming the TypeScript type. The code generators use it to tell them
+   * apart. Default: false
+   */
+  markRuntimeTypes?: boolean;
 }
 
+/** The generic parameter list of an interface, class or type alias */
+type GenericParams = Pick<InterfaceDeclaration, "typeParams" | "typeParamConstraints" | "typeParamDefaults">;
+
 export class Emitter {
   private declarations = new Map<string, Declaration>();
+  private constants = new Map<string, ConstDeclaration>(); // value namespace, for typeof
   private nameMapping = new Map<string, string>();
   private idMapping = new Map<string, string>();
-  private options: Required<Omit<EmitterOptions, 'defineNameTransform' | 'defineId'>> & { defineNameTransform?: EmitterOptions['defineNameTransform']; defineId?: EmitterOptions['defineId'] };
+  private decoratorHandlers = new Map<string, DecoratorHandler>();
+  /** Generic instantiations emitted as named definitions: instantiation key → definition name */
+  private instantiationNames = new Map<string, string>();
+  private instantiationDefs = new Map<string, JSONSchema>();
+  /** Keys of the instantiations currently being expanded, to detect recursion */
+  private instantiationStack: string[] = [];
+  private options: Required<Omit<EmitterOptions, 'defineNameTransform' | 'defineId' | 'decorators' | 'genericInstantiationName'>> & {
+    genericInstantiationName?: EmitterOptions['genericInstantiationName']; defineNameTransform?: EmitterOptions['defineNameTransform']; defineId?: EmitterOptions['defineId'] };
+
+  constructor(allDeclarations: Declaration[], options: EmitterOptions = {}) {
+    // Consts live in the value namespace: they may share a name with a type
+    // (`const Role = ...; type Role = ...`) and never become schemas themselves
+    const declarations: Declaration[] = [];
+    const duplicateMode = options.onDuplicateDeclarations ?? "error";
+    const merged = mergeInterfaceDeclarations(allDeclarations, (message) => {
+      if (duplicateMode === "error") throw new Error(message);
+      if (duplicateMode === "warn") console.warn(`[ts-source-to-json-schema] Warning: ${message}`);
+    });
+    for (const decl of merged) {
+      if (decl.kind === "const") {
+        this.constants.set(decl.name, decl);
+      } else {
+        declarations.push(decl);
+      }
+    }
 
-  constructor(declarations: Declaration[], options: EmitterOptions = {}) {
     // Build name mapping BEFORE populating declarations map
     if (options.defineNameTransform) {
       const reverseMap = new Map<string, string[]>();
@@ -238,9 +348,18 @@ export class Emitter {
       this.declarations.set(decl.name, decl);
     }
 
+    if (options.namedGenericInstantiations && options.defineId) {
+      console.warn("[ts-source-to-json-schema] Warning: namedGenericInstantiations is ignored with defineId; generic instantiations are inlined");
+    }
+
+    for (const [name, handler] of Object.entries({ ...classValidatorDecorators, ...options.decorators })) {
+      if (handler) this.decoratorHandlers.set(name, handler);
+    }
+
     this.options = {
       includeSchema: options.includeSchema ?? true,
-      schemaVersion: options.schemaVersion ?? "https://json-schema.org/draft/2020-12/schema",
+      schemaVersion: options.schemaVersion ?? targetSchemaUris[options.target ?? "2020-12"] ?? "",
+      target: options.target ?? "2020-12",
       strictObjects: options.strictObjects ?? false,
       rootType: options.rootType ?? "",
       includeJSDoc: options.includeJSDoc ?? true,
@@ -251,6 +370,12 @@ export class Emitter {
       onUnresolvedReferences: options.onUnresolvedReferences ?? "ignore",
       defineNameTransform: options.defineNameTransform,
       defineId: options.defineId,
+      namedGenericInstantiations: options.namedGenericInstantiations ?? false,
+      genericInstantiationName: options.genericInstantiationName,
+      discriminatedUnions: options.discriminatedUnions ?? "anyOf",
+      mergeIntersections: options.mergeIntersections ?? false,
+      extendsStrategy: options.extendsStrategy ?? "allOf",
+      markRuntimeTypes: options.markRuntimeTypes ?? false,
     };
   }
 
@@ -266,7 +391,7 @@ export class Emitter {
    * Check if a declaration is generic (declares type parameters like <T, U>)
    */
   private isGenericDeclaration(decl: Declaration): boolean {
-    if (decl.kind === "interface" || decl.kind === "type_alias") {
+    if (decl.kind === "interface" || decl.kind === "class" || decl.kind === "type_alias") {
       return !!decl.typeParams && decl.typeParams.length > 0;
     }
     return false; // Enums can't be generic
@@ -303,6 +428,15 @@ export class Emitter {
           return hasRefWithoutArgs(typeNode.keyType) || hasRefWithoutArgs(typeNode.valueType);
         case "parenthesized":
           return hasRefWithoutArgs(typeNode.inner);
+        case "keyof":
+          return hasRefWithoutArgs(typeNode.target);
+        case "indexed_access":
+          return hasRefWithoutArgs(typeNode.object) || hasRefWithoutArgs(typeNode.index);
+        case "conditional":
+          return hasRefWithoutArgs(typeNode.checkType) || hasRefWithoutArgs(typeNode.extendsType) ||
+                 hasRefWithoutArgs(typeNode.trueType) || hasRefWithoutArgs(typeNode.falseType);
+        case "mapped":
+          return hasRefWithoutArgs(typeNode.constraint) || hasRefWithoutArgs(typeNode.valueType);
         default:
           return false;
       }
@@ -310,7 +444,7 @@ export class Emitter {
 
     // Check all declarations
     for (const decl of this.declarations.values()) {
-      if (decl.kind === "interface") {
+      if (decl.kind === "interface" || decl.kind === "class") {
         if (decl.properties.some(p => hasRefWithoutArgs(p.type))) return true;
         if (decl.indexSignature && hasRefWithoutArgs(decl.indexSignature.valueType)) return true;
         if (decl.extends && decl.extends.some(hasRefWithoutArgs)) return true;
@@ -337,6 +471,9 @@ export class Emitter {
       }
       defs[this.getDefineName(name)] = this.emitDeclaration(decl);
     }
+    for (const [defName, schema] of this.instantiationDefs) {
+      defs[defName] = schema;
+    }
 
     // If a root type is specified, use it as the root schema
     if (this.options.rootType && defs[this.getDefineName(this.options.rootType)]) {
@@ -357,7 +494,7 @@ export class Emitter {
         }
         result.$defs = defs;
         this.checkUnresolvedReferences(result);
-        return result;
+        return this.applyTarget([result])[0];
       }
 
       // Not self-referential, emit normally
@@ -371,7 +508,7 @@ export class Emitter {
         result.$defs = defs;
       }
       this.checkUnresolvedReferences(result);
-      return result;
+      return this.applyTarget([result])[0];
     }
 
     // Otherwise wrap everything under $defs
@@ -381,7 +518,7 @@ export class Emitter {
     }
     result.$defs = defs;
     this.checkUnresolvedReferences(result);
-    return result;
+    return this.applyTarget([result])[0];
   }
 
   /**
@@ -460,7 +597,60 @@ export class Emitter {
       this.checkUnresolvedReferences(schemas[key], key);
     }
 
-    return schemas;
+    const keys = Object.keys(schemas);
+    const converted = this.applyTarget(Object.values(schemas));
+    return Object.fromEntries(keys.map((key, i) => [key, converted[i]]));
+  }
+
+  /**
+   * Emits every declaration as an OpenAPI component: a map of schemas that
+   * reference each other through `#/components/schemas/Name` instead of
+   * carrying their own definitions. Keys are the `defineNameTransform` names.
+   */
+  emitComponents(): Record<string, JSONSchema> {
+    const defs: Record<string, JSONSchema> = {};
+
+    for (const [name, decl] of this.declarations) {
+      if (this.isGenericDeclaration(decl) && !this.isReferencedWithoutTypeArgs(name)) {
+        continue;
+      }
+      defs[this.getDefineName(name)] = this.emitDeclaration(decl);
+    }
+    for (const [defName, schema] of this.instantiationDefs) {
+      defs[defName] = schema;
+    }
+    this.checkUnresolvedReferences({ $defs: defs });
+
+    const keys = Object.keys(defs);
+    const converted = this.applyTarget(
+      Object.values(defs).map(schema => this.convertRefsToDefinitions(schema, "#/components/schemas/"))
+    );
+    return Object.fromEntries(keys.map((key, i) => [key, converted[i]]));
+  }
+
+  /**
+   * Rewrites finished schemas for the `target` dialect, with one warning
+   * per keyword the dialect can't express.
+   */
+  private applyTarget(schemas: JSONSchema[]): JSONSchema[] {
+    const target = this.options.target;
+    if (target === "2020-12") return schemas;
+
+    const unsupported = new Map<string, string[]>();
+    const converted = schemas.map(schema => convertSchemaToTarget(schema, target, (keyword, pointer) => {
+      if (!unsupported.has(keyword)) unsupported.set(keyword, []);
+      unsupported.get(keyword)!.push(pointer);
+    }));
+
+    for (const [keyword, pointers] of unsupported) {
+      const shown = pointers.slice(0, 3).join(", ");
+      const more = pointers.length > 3 ? ` and ${pointers.length - 3} more` : "";
+      console.warn(
+        `[ts-source-to-json-schema] Warning: target "${target}" can't express "${keyword}"; ` +
+        `it was dropped or approximated at ${shown}${more}`
+      );
+    }
+    return converted;
   }
 
   /**
@@ -524,6 +714,8 @@ export class Emitter {
       }
     }
 
+    this.addInstantiationDefinitions(schema, definitions);
+
     // Convert $ref paths from #/$defs/ to #/definitions/
     const schemaWithDefinitions = this.convertRefsToDefinitions(schema);
     const convertedDefinitions: Record<string, JSONSchema> = {};
@@ -545,6 +737,34 @@ export class Emitter {
     return result;
   }
 
+  /**
+   * Adds the named generic instantiations a standalone schema refers to,
+   * along with the declarations those instantiations refer to.
+   */
+  private addInstantiationDefinitions(schema: JSONSchema, definitions: Record<string, JSONSchema>): void {
+    if (this.instantiationDefs.size === 0) return;
+
+    const byDefineName = new Map([...this.declarations.keys()].map(n => [this.getDefineName(n), n]));
+    const pending = [schema, ...Object.values(definitions)];
+    while (pending.length > 0) {
+      for (const target of this.collectLocalRefTargets(pending.pop()!)) {
+        if (definitions[target]) continue;
+        const instantiation = this.instantiationDefs.get(target);
+        if (instantiation) {
+          definitions[target] = instantiation;
+          pending.push(instantiation);
+          continue;
+        }
+        const declName = byDefineName.get(target);
+        const referencedDecl = declName ? this.declarations.get(declName) : undefined;
+        if (declName && referencedDecl && !(this.isGenericDeclaration(referencedDecl) && !this.isReferencedWithoutTypeArgs(declName))) {
+          definitions[target] = this.emitDeclaration(referencedDecl);
+          pending.push(definitions[target]);
+        }
+      }
+    }
+  }
+
   /**
    * Recursively collects all type names that are transitively referenced by a given type.
    */
@@ -617,18 +837,57 @@ export class Emitter {
         case "parenthesized":
           collectRefs(typeNode.inner);
           break;
+        case "enum_member_access": {
+          const qualified = this.asQualifiedReference(typeNode);
+          if (qualified) collectRefs(qualified);
+          break;
+        }
         case "record":
           collectRefs(typeNode.keyType);
           collectRefs(typeNode.valueType);
           break;
-        case "mapped":
-          collectRefs(typeNode.constraint);
-          collectRefs(typeNode.valueType);
+        case "mapped": {
+          const resolved = this.resolveMappedType(typeNode);
+          if (resolved) {
+            collectRefs(resolved);
+          } else {
+            collectRefs(typeNode.constraint);
+            collectRefs(typeNode.valueType);
+          }
+          break;
+        }
+        // keyof is resolved to a literal enum, so its target is not a dependency
+        case "typeof": {
+          const resolved = this.resolveTypeQuery(typeNode.name);
+          if (resolved) collectRefs(resolved);
+          break;
+        }
+        case "conditional": {
+          // Only the branch that is emitted matters; undecidable emits both
+          const resolved = this.evaluateConditional(typeNode);
+          if (resolved) {
+            collectRefs(resolved);
+          } else {
+            collectRefs(typeNode.trueType);
+            collectRefs(typeNode.falseType);
+          }
           break;
+        }
+        case "indexed_access": {
+          // Depend on what the lookup resolves to, not on the indexed type itself
+          const resolved = this.resolveIndexedAccess(typeNode.object, typeNode.index);
+          if (resolved) {
+            collectRefs(resolved);
+          } else {
+            collectRefs(typeNode.object);
+            collectRefs(typeNode.index);
+          }
+          break;
+        }
       }
     };
 
-    if (decl.kind === "interface") {
+    if (decl.kind === "interface" || decl.kind === "class") {
       decl.properties.forEach(p => collectRefs(p.type));
       if (decl.extends) {
         decl.extends.forEach(e => collectRefs(e));
@@ -640,6 +899,11 @@ export class Emitter {
     } else if (decl.kind === "type_alias") {
       collectRefs(decl.type);
     }
+    if (decl.kind === "interface" || decl.kind === "class" || decl.kind === "type_alias") {
+      // Defaults and constraints are emitted in place of leaked parameters
+      Object.values(decl.typeParamDefaults ?? {}).forEach(collectRefs);
+      Object.values(decl.typeParamConstraints ?? {}).forEach(collectRefs);
+    }
     // Enums don't have type references
 
     return refs;
@@ -651,15 +915,18 @@ export class Emitter {
   private isBuiltInType(name: string): boolean {
     const builtIns = [
       "Date", "Buffer", "Promise", "Array", "Set", "Map", "Record",
-      "Partial", "Required", "Pick", "Omit", "Readonly", "NonNullable"
+      "Partial", "Required", "Pick", "Omit", "Readonly", "NonNullable",
+      "Exclude", "Extract", "Awaited", "ReturnType", "Parameters",
+      "Uppercase", "Lowercase", "Capitalize", "Uncapitalize",
     ];
     return builtIns.includes(name);
   }
 
   /**
-   * Recursively converts $ref paths from #/$defs/ to #/definitions/ in a schema.
+   * Recursively converts $ref paths from #/$defs/ to #/definitions/ (or another
+   * pointer prefix) in a schema.
    */
-  private convertRefsToDefinitions(schema: JSONSchema): JSONSchema {
+  private convertRefsToDefinitions(schema: JSONSchema, prefix = "#/definitions/"): JSONSchema {
     if (typeof schema !== "object" || schema === null) {
       return schema;
     }
@@ -669,13 +936,15 @@ export class Emitter {
     for (const [key, value] of Object.entries(schema)) {
       if (key === "$ref" && typeof value === "string") {
         // Convert #/$defs/TypeName to #/definitions/TypeName
-        converted[key] = value.replace(/^#\/\$defs\//, "#/definitions/");
+        converted[key] = value.replace(/^#\/\$defs\//, prefix);
+      } else if (key === "discriminator" && this.isDiscriminator(value)) {
+        converted[key] = this.mapDiscriminatorRefs(value, ref => ref.replace(/^#\/\$defs\//, prefix));
       } else if (Array.isArray(value)) {
         converted[key] = value.map(item =>
-          typeof item === "object" ? this.convertRefsToDefinitions(item) : item
+          typeof item === "object" ? this.convertRefsToDefinitions(item, prefix) : item
         );
       } else if (typeof value === "object" && value !== null) {
-        converted[key] = this.convertRefsToDefinitions(value as JSONSchema);
+        converted[key] = this.convertRefsToDefinitions(value as JSONSchema, prefix);
       } else {
         converted[key] = value;
       }
@@ -697,16 +966,9 @@ export class Emitter {
 
     for (const [key, value] of Object.entries(schema)) {
       if (key === "$ref" && typeof value === "string") {
-        const defsMatch = value.match(/^#\/\$defs\/(.+)$/);
-        if (defsMatch) {
-          const transformedName = defsMatch[1];
-          // Find the original name that maps to this transformed name
-          const originalName = this.findOriginalName(transformedName);
-          const id = originalName ? this.getDefineId(originalName) : undefined;
-          converted[key] = id ?? value;
-        } else {
-          converted[key] = value;
-        }
+        converted[key] = this.toExternalRef(value);
+      } else if (key === "discriminator" && this.isDiscriminator(value)) {
+        converted[key] = this.mapDiscriminatorRefs(value, ref => this.toExternalRef(ref));
       } else if (Array.isArray(value)) {
         converted[key] = value.map(item =>
           typeof item === "object" ? this.convertRefsToExternalIds(item) : item
@@ -721,6 +983,34 @@ export class Emitter {
     return converted;
   }
 
+  /** Replaces a `#/$defs/TypeName` pointer with the $id of the type, when it has one. */
+  private toExternalRef(ref: string): string {
+    const defsMatch = ref.match(/^#\/\$defs\/(.+)$/);
+    if (!defsMatch) return ref;
+    const transformedName = defsMatch[1];
+    // Find the original name that maps to this transformed name
+    const originalName = this.findOriginalName(transformedName);
+    const id = originalName ? this.getDefineId(originalName) : undefined;
+    return id ?? ref;
+  }
+
+  private isDiscriminator(value: unknown): value is { propertyName: string; mapping?: Record<string, string> } {
+    return typeof value === "object" && value !== null && typeof (value as JSONSchema).propertyName === "string";
+  }
+
+  /** Rewrites the $ref pointers in an OpenAPI discriminator mapping. */
+  private mapDiscriminatorRefs(
+    discriminator: { propertyName: string; mapping?: Record<string, string> },
+    convert: (ref: string) => string
+  ): JSONSchema {
+    if (!discriminator.mapping) return { ...discriminator };
+    const mapping: Record<string, string> = {};
+    for (const [value, ref] of Object.entries(discriminator.mapping)) {
+      mapping[value] = convert(ref);
+    }
+    return { ...discriminator, mapping };
+  }
+
   /**
    * Finds the original type name from a transformed (getDefineName) name.
    */
@@ -854,14 +1144,50 @@ export class Emitter {
   // ---------------------------------------------------------------------------
 
   private emitDeclaration(decl: Declaration): JSONSchema {
+    // A generic referenced without type arguments: parameters with a
+    // default or constraint are resolved to it instead of leaking as $ref
+    if ((decl.kind === "interface" || decl.kind === "class" || decl.kind === "type_alias") &&
+        (decl.typeParamDefaults || decl.typeParamConstraints)) {
+      const paramMap = this.buildTypeParamMap(decl, []);
+      if (decl.kind === "type_alias") {
+        return this.emitTypeAlias({ ...decl, type: this.substituteTypeParams(decl.type, paramMap) });
+      }
+      return this.emitInterface(this.substituteDeclarationParams(decl, paramMap));
+    }
+
     switch (decl.kind) {
-      case "interface": return this.emitInterface(decl);
+      case "interface":
+      case "class": return this.emitInterface(decl);
       case "type_alias": return this.emitTypeAlias(decl);
       case "enum": return this.emitEnum(decl);
+      case "const": return this.emitType(decl.type);
     }
   }
 
-  private emitInterface(decl: InterfaceDeclaration): JSONSchema {
+  private substituteDeclarationParams<D extends InterfaceDeclaration | ClassDeclaration>(
+    decl: D,
+    paramMap: Map<string, TypeNode>
+  ): D {
+    return {
+      ...decl,
+      extends: decl.extends?.map(e => this.substituteTypeParams(e, paramMap)),
+      properties: decl.properties.map(p => ({ ...p, type: this.substituteTypeParams(p.type, paramMap) })),
+      indexSignature: decl.indexSignature && {
+        keyType: this.substituteTypeParams(decl.indexSignature.keyType, paramMap),
+        valueType: this.substituteTypeParams(decl.indexSignature.valueType, paramMap),
+      },
+    };
+  }
+
+  private emitInterface(decl: InterfaceDeclaration | ClassDeclaration): JSONSchema {
+    if (decl.extends && decl.extends.length > 0 && this.options.extendsStrategy !== "allOf") {
+      const result = this.emitExtendedObject(decl.properties, decl.indexSignature, decl.tags, decl.extends);
+      if (result) {
+        if (this.options.includeJSDoc && decl.description) result.description = decl.description;
+        return result;
+      }
+    }
+
     const schema = this.emitObjectType(decl.properties, decl.indexSignature, decl.tags);
 
     // Handle extends - merge parent properties via allOf
@@ -897,6 +1223,34 @@ export class Emitter {
     return schema;
   }
 
+  /**
+   * Emits an object with parents under the "flatten" or "unevaluated"
+   * extendsStrategy. Returns null when the allOf form applies instead: a
+   * parent that doesn't resolve to an object can't be flattened, and an
+   * open object needs no unevaluatedProperties.
+   */
+  private emitExtendedObject(
+    properties: PropertyNode[],
+    indexSignature: IndexSignatureNode | undefined,
+    tags: Record<string, string> | undefined,
+    parents: TypeNode[]
+  ): JSONSchema | null {
+    if (this.options.extendsStrategy === "flatten") {
+      const shapes = parents.map(p => this.resolveObjectShape(p));
+      if (shapes.some(shape => shape === null)) return null;
+      const merged = this.mergeObjectShapes([
+        ...(shapes as Extract<TypeNode, { kind: "object" }>[]),
+        { kind: "object", properties, indexSignature },
+      ]);
+      return this.emitObjectType(merged.properties, merged.indexSignature, tags);
+    }
+
+    const own = this.emitObjectType(properties, indexSignature, tags);
+    if (own.additionalProperties !== false) return null;
+    delete own.additionalProperties;
+    return { allOf: [...parents.map(p => this.emitOpenBranch(p)), own], unevaluatedProperties: false };
+  }
+
   private emitTypeAlias(decl: TypeAliasDeclaration): JSONSchema {
     const schema = this.emitType(decl.type);
     if (this.options.includeJSDoc) {
@@ -962,6 +1316,29 @@ export class Emitter {
       case "enum_member_access":
         return this.emitEnumMemberAccess(node);
 
+      case "keyof":
+        return this.emitKeyof(node.target);
+
+      case "indexed_access": {
+        const resolved = this.resolveIndexedAccess(node.object, node.index);
+        return resolved ? this.emitType(resolved) : {}; // undecidable lookup accepts anything
+      }
+
+      case "typeof": {
+        const resolved = this.resolveTypeQuery(node.name);
+        return resolved ? this.emitType(resolved) : {}; // unknown value accepts anything
+      }
+
+      case "conditional": {
+        const resolved = this.evaluateConditional(node);
+        if (resolved) return this.emitType(resolved);
+        // Undecidable (e.g. unresolved type parameters) - either branch may apply
+        return { anyOf: [this.emitType(this.bindInferred(node, new Map())), this.emitType(node.falseType)] };
+      }
+
+      case "infer":
+        return {}; // unbound inference variable
+
       case "parenthesized":
         return this.emitType(node.inner);
 
@@ -972,10 +1349,12 @@ export class Emitter {
         return {}; // functions are not representable in JSON Schema
 
       case "template_literal":
-        return { type: "string" }; // Best we can do without regex generation
+        return this.emitTemplateLiteral(node.parts);
 
-      case "mapped":
-        return { type: "object" }; // Fallback
+      case "mapped": {
+        const resolved = this.resolveMappedType(node);
+        return resolved ? this.emitType(resolved) : { type: "object" }; // keys unknown
+      }
 
       default:
         return {};
@@ -989,7 +1368,7 @@ export class Emitter {
       case "boolean": return { type: "boolean" };
       case "null": return { type: "null" };
       case "undefined": return {}; // no JSON Schema equivalent
-      case "bigint": return { type: "integer" };
+      case "bigint": return { type: "integer", ...this.runtimeType("bigint") };
       case "any": return {}; // accepts anything
       case "unknown": return {}; // accepts anything
       case "void": return {}; // no value
@@ -999,6 +1378,11 @@ export class Emitter {
     }
   }
 
+  /** The `x-ts-type` mark for a type that shares its JSON form, under `markRuntimeTypes`. */
+  private runtimeType(name: "bigint" | "Date"): JSONSchema {
+    return this.options.markRuntimeTypes ? { "x-ts-type": name } : {};
+  }
+
   /** True if the node is a function type, possibly wrapped in parentheses. */
   private isFunctionTypeNode(node: TypeNode): boolean {
     if (node.kind === "function") return true;
@@ -1006,7 +1390,12 @@ export class Emitter {
     return false;
   }
 
-  private emitObjectType(properties: PropertyNode[], indexSignature?: IndexSignatureNode, tags?: Record<string, string>): JSONSchema {
+  private emitObjectType(
+    properties: PropertyNode[],
+    indexSignature?: IndexSignatureNode,
+    tags?: Record<string, string>,
+    strictObjects = this.options.strictObjects
+  ): JSONSchema {
     const schema: JSONSchema = { type: "object" };
     const props: Record<string, JSONSchema> = {};
     const required: string[] = [];
@@ -1023,9 +1412,15 @@ export class Emitter {
         if (prop.tags) this.applyJSDocTags(propSchema, prop.tags);
       }
       if (prop.readonly) propSchema.readOnly = true;
+      if (prop.defaultValue !== undefined && propSchema.default === undefined) {
+        propSchema.default = prop.defaultValue;
+      }
+      const optional = prop.decorators
+        ? this.applyDecorators(propSchema, prop.decorators, prop.optional)
+        : prop.optional;
 
       props[prop.name] = propSchema;
-      if (!prop.optional) required.push(prop.name);
+      if (!optional) required.push(prop.name);
     }
 
     if (Object.keys(props).length > 0) {
@@ -1049,7 +1444,7 @@ export class Emitter {
       } else if (value === "false") {
         schema.additionalProperties = false;
       }
-    } else if (this.options.strictObjects) {
+    } else if (strictObjects) {
       schema.additionalProperties = false;
     } else if (this.options.additionalProperties !== undefined) {
       schema.additionalProperties = this.options.additionalProperties;
@@ -1071,7 +1466,8 @@ export class Emitter {
       schema.prefixItems = fixed.map(e => this.emitType(e.type));
       schema.minItems = requiredCount;
       if (rest) {
-        schema.items = this.emitType(rest.type);
+        // `...T[]` contributes items of type T
+        schema.items = this.emitType(rest.type.kind === "array" ? rest.type.element : rest.type);
       }
     } else {
       schema.prefixItems = node.elements.map(e => this.emitType(e.type));
@@ -1086,6 +1482,17 @@ export class Emitter {
     // Flatten nested unions
     const flat = this.flattenUnion(members);
 
+    // Unions of template literals (and string literals) → one alternation pattern
+    if (flat.some(m => m.kind === "template_literal") &&
+        flat.every(m => m.kind === "template_literal" || m.kind === "literal_string")) {
+      const alternatives = flat.map(m => this.templateLiteralToRegex(
+        m.kind === "template_literal" ? m.parts : [(m as { value: string }).value]
+      ));
+      if (alternatives.every(a => a !== null)) {
+        return { type: "string", pattern: `^(?:${alternatives.join("|")})$` };
+      }
+    }
+
     // Check if all members are string/number literals → use enum
     const allStringLiterals = flat.every(m => m.kind === "literal_string");
     if (allStringLiterals) {
@@ -1121,11 +1528,153 @@ export class Emitter {
       return schema;
     }
 
+    // Discriminated union → oneOf + discriminator, or if/then branches
+    // (`Circle | Square | null` → anyOf of the discriminated union and null)
+    if (this.options.discriminatedUnions !== "anyOf") {
+      const discriminant = this.findDiscriminant(nonNullMembers);
+      if (discriminant) {
+        const union = this.emitDiscriminatedUnion(nonNullMembers, discriminant);
+        return nonNullMembers.length === flat.length ? union : { anyOf: [union, { type: "null" }] };
+      }
+    }
+
     // General union → anyOf
     const schemas = flat.map(m => this.emitType(m));
     return { anyOf: schemas };
   }
 
+  // ---------------------------------------------------------------------------
+  // Discriminated unions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Finds a property every member declares as required with a single
+   * literal type, each member with a different value. The first member's
+   * property order decides between several candidates.
+   */
+  private findDiscriminant(members: TypeNode[]): { propertyName: string; values: (string | number | boolean)[] } | null {
+    if (members.length < 2) return null;
+    const shapes = members.map(m => this.resolveObjectShape(m));
+    if (shapes.some(shape => shape === null)) return null;
+
+    for (const candidate of shapes[0]!.properties) {
+      const values: (string | number | boolean)[] = [];
+      for (const shape of shapes) {
+        const prop = shape!.properties.find(p => p.name === candidate.name);
+        const value = prop && !prop.optional ? this.literalValue(prop.type) : undefined;
+        if (value === undefined || values.includes(value)) break;
+        values.push(value);
+      }
+      if (values.length === members.length) return { propertyName: candidate.name, values };
+    }
+    return null;
+  }
+
+  /** The value of a single-literal type (`"circle"`, `2`, `Kind.Circle`), if it is one. */
+  private literalValue(node: TypeNode, depth = 0): string | number | boolean | undefined {
+    if (depth > 10) return undefined;
+    switch (node.kind) {
+      case "literal_string":
+      case "literal_number":
+      case "literal_boolean":
+        return node.value;
+      case "enum_member_access": {
+        const enumDecl = this.declarations.get(node.enumName);
+        if (enumDecl?.kind === "enum") {
+          return enumDecl.members.find(m => m.name === node.memberName)?.value;
+        }
+        break;
+      }
+    }
+    const resolved = this.dereferenceType(node);
+    return resolved && resolved !== node ? this.literalValue(resolved, depth + 1) : undefined;
+  }
+
+  private emitDiscriminatedUnion(
+    members: TypeNode[],
+    { propertyName, values }: { propertyName: string; values: (string | number | boolean)[] }
+  ): JSONSchema {
+    const schemas = members.map(m => this.emitType(m));
+
+    if (this.options.discriminatedUnions === "if-then") {
+      return {
+        type: "object",
+        properties: { [propertyName]: { enum: values } },
+        required: [propertyName],
+        allOf: schemas.map((schema, i) => ({
+          if: { properties: { [propertyName]: { const: values[i] } }, required: [propertyName] },
+          then: schema,
+        })),
+      };
+    }
+
+    const discriminator: JSONSchema = { propertyName };
+    const mapping: Record<string, string> = {};
+    schemas.forEach((schema, i) => {
+      if (typeof schema.$ref === "string") mapping[String(values[i])] = schema.$ref;
+    });
+    if (Object.keys(mapping).length > 0) discriminator.mapping = mapping;
+    return { oneOf: schemas, discriminator };
+  }
+
+  /** Template literal → string with an anchored regex pattern (plain string if not convertible). */
+  private emitTemplateLiteral(parts: (string | TypeNode)[]): JSONSchema {
+    const regex = this.templateLiteralToRegex(parts);
+    return regex === null ? { type: "string" } : { type: "string", pattern: `^${regex}$` };
+  }
+
+  /** Builds an (unanchored) regex source for a template literal, or null. */
+  private templateLiteralToRegex(parts: (string | TypeNode)[]): string | null {
+    let regex = "";
+    for (const part of parts) {
+      const fragment = typeof part === "string" ? this.escapeRegex(part) : this.templatePartToRegex(part);
+      if (fragment === null) return null;
+      regex += fragment;
+    }
+    return regex;
+  }
+
+  /** Regex fragment matching the string form of an interpolated type. */
+  private templatePartToRegex(node: TypeNode, depth = 0): string | null {
+    if (depth > 10) return null;
+    const resolved = this.toAssignabilityForm(node);
+
+    switch (resolved.kind) {
+      case "primitive":
+        switch (resolved.value) {
+          case "string": return "[\\s\\S]*";
+          case "number": return "-?\\d+(?:\\.\\d+)?";
+          case "bigint": return "-?\\d+";
+          case "boolean": return "(?:true|false)";
+          case "null": return "null";
+          case "undefined": return "undefined";
+          default: return null;
+        }
+      case "literal_string":
+      case "literal_number":
+      case "literal_boolean":
+        return this.escapeRegex(String(resolved.value));
+      case "template_literal":
+        return this.templateLiteralToRegex(resolved.parts);
+      case "union": {
+        const alternatives = this.flattenUnion(resolved.members).map(m => this.templatePartToRegex(m, depth + 1));
+        if (alternatives.some(a => a === null)) return null;
+        return `(?:${alternatives.join("|")})`;
+      }
+      case "reference": {
+        // Intrinsics over literals (Capitalize<"a" | "b">)
+        const values = this.evaluateStringLiterals(resolved);
+        return values ? `(?:${values.map(v => this.escapeRegex(v)).join("|")})` : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+
   private flattenUnion(members: TypeNode[]): TypeNode[] {
     const result: TypeNode[] = [];
     for (const m of members) {
@@ -1139,16 +1688,143 @@ export class Emitter {
   }
 
   private emitIntersection(members: TypeNode[]): JSONSchema {
-    // If all members are objects, try to merge them
-    const schemas = members.map(m => this.emitType(m));
-    if (schemas.length === 1) return schemas[0];
-    return { allOf: schemas };
+    if (members.length === 1) return this.emitType(members[0]);
+
+    const shapes = members.map(m => this.resolveObjectShape(m));
+    const allObjects = shapes.every(shape => shape !== null);
+
+    if (this.options.mergeIntersections && allObjects) {
+      const merged = this.mergeIntersectionShapes(shapes as Extract<TypeNode, { kind: "object" }>[]);
+      if (merged) return this.emitObjectType(merged.properties, merged.indexSignature);
+    }
+
+    // With strictObjects, every branch would reject the other branches'
+    // properties: emit the object branches open and close the whole
+    // intersection with unevaluatedProperties instead
+    if (this.options.strictObjects) {
+      return { allOf: members.map(m => this.emitOpenBranch(m)), unevaluatedProperties: false };
+    }
+
+    return { allOf: members.map(m => this.emitType(m)) };
+  }
+
+  /** An intersection member without additionalProperties: false on its object(s). */
+  private emitOpenBranch(node: TypeNode): JSONSchema {
+    const shape = this.resolveObjectShape(node);
+    if (shape) return this.emitObjectType(shape.properties, shape.indexSignature, undefined, false);
+
+    const resolved = this.dereferenceType(node);
+    if (resolved.kind === "union") {
+      return { anyOf: this.flattenUnion(resolved.members).map(m => this.emitOpenBranch(m)) };
+    }
+    return this.emitType(node);
+  }
+
+  /**
+   * Structurally merges intersected object shapes. Unlike mergeObjectShapes
+   * (where a later property replaces an earlier one), both sides of an
+   * intersection apply: a property keeps the narrower type and the stricter
+   * JSDoc bounds, and is optional only if every member declares it optional.
+   * Null when a property's constraints can't be combined into one schema
+   * (two different `@pattern`s, decorators on both sides); the caller keeps
+   * `allOf` then.
+   */
+  private mergeIntersectionShapes(shapes: Extract<TypeNode, { kind: "object" }>[]): Extract<TypeNode, { kind: "object" }> | null {
+    const properties: PropertyNode[] = [];
+    let indexSignature: IndexSignatureNode | undefined;
+
+    for (const shape of shapes) {
+      for (const prop of shape.properties) {
+        const index = properties.findIndex(p => p.name === prop.name);
+        if (index === -1) {
+          properties.push(prop);
+          continue;
+        }
+        const existing = properties[index];
+        const tags = this.intersectTags(existing.tags, prop.tags);
+        if (tags === null || (existing.decorators && prop.decorators)) return null;
+        properties[index] = {
+          ...existing,
+          type: this.intersectTypes(prop.name, existing.type, prop.type),
+          optional: existing.optional && prop.optional,
+          readonly: existing.readonly || prop.readonly,
+          description: existing.description ?? prop.description,
+          tags,
+          decorators: existing.decorators ?? prop.decorators,
+        };
+      }
+
+      if (shape.indexSignature) {
+        indexSignature = indexSignature
+          ? { ...indexSignature, valueType: this.intersectTypes("[key]", indexSignature.valueType, shape.indexSignature.valueType) }
+          : shape.indexSignature;
+      }
+    }
+
+    return { kind: "object", properties, indexSignature };
+  }
+
+  /**
+   * JSDoc tags of a property declared by two intersected members. Bounds
+   * keep the stricter value (`@minLength 2` and `@maxLength 5` from either
+   * side both apply); null when `@pattern`, `@format` or
+   * `@additionalProperties` differ, as one schema can't hold both.
+   */
+  private intersectTags(
+    a: Record<string, string> | undefined,
+    b: Record<string, string> | undefined
+  ): Record<string, string> | undefined | null {
+    if (!a || !b) return a ?? b;
+    const tags = { ...b, ...a };
+    for (const [key, value] of Object.entries(b)) {
+      if (!(key in a) || a[key] === value) continue;
+      switch (key) {
+        case "minimum":
+        case "minLength":
+          tags[key] = String(Math.max(Number(a[key]), Number(value)));
+          break;
+        case "maximum":
+        case "maxLength":
+          tags[key] = String(Math.min(Number(a[key]), Number(value)));
+          break;
+        case "pattern":
+        case "format":
+        case "additionalProperties":
+          return null;
+      }
+    }
+    return tags;
+  }
+
+  /**
+   * The type of a property declared by two intersected members: the
+   * narrower one when one is assignable to the other, a nested intersection
+   * for two object types, and `never` (with a warning) when the types are
+   * provably disjoint, like `string & number`.
+   */
+  private intersectTypes(propertyName: string, a: TypeNode, b: TypeNode): TypeNode {
+    if (JSON.stringify(a) === JSON.stringify(b)) return a;
+
+    const aToB = this.isAssignable(a, b, new Map());
+    if (aToB === true) return a;
+    const bToA = this.isAssignable(b, a, new Map());
+    if (bToA === true) return b;
+
+    const bothObjects = this.resolveObjectShape(a) !== null && this.resolveObjectShape(b) !== null;
+    if (!bothObjects && aToB === false && bToA === false) {
+      console.warn(
+        `[ts-source-to-json-schema] Warning: Conflicting types for property "${propertyName}" in intersection; ` +
+        `no value satisfies both, so it is emitted as never.`
+      );
+      return { kind: "primitive", value: "never" };
+    }
+    return { kind: "intersection", members: [a, b] };
   }
 
   private emitReference(node: { kind: "reference"; name: string; typeArgs?: TypeNode[] }): JSONSchema {
     // Handle built-in Date type
     if (node.name === "Date" && !node.typeArgs) {
-      return { type: "string", format: "date-time" };
+      return { type: "string", format: "date-time", ...this.runtimeType("Date") };
     }
 
     // Handle Buffer type (serialized as base64 string)
@@ -1163,7 +1839,7 @@ export class Emitter {
       if (utilityResolved) return utilityResolved;
 
       // Try user-defined generic types
-      const genericResolved = this.resolveGenericType(node.name, node.typeArgs);
+      const genericResolved = this.emitGenericInstantiation(node.name, node.typeArgs);
       if (genericResolved) return genericResolved;
     }
 
@@ -1173,6 +1849,9 @@ export class Emitter {
   }
 
   private emitEnumMemberAccess(node: { kind: "enum_member_access"; enumName: string; memberName: string }): JSONSchema {
+    const qualified = this.asQualifiedReference(node);
+    if (qualified) return this.emitReference(qualified);
+
     // Find the enum declaration by original name
     const enumDecl = this.declarations.get(node.enumName);
 
@@ -1194,48 +1873,260 @@ export class Emitter {
     return { const: member.value };
   }
 
-  private emitRecord(keyType: TypeNode, valueType: TypeNode): JSONSchema {
-    const schema: JSONSchema = { type: "object" };
+  private emitKeyof(target: TypeNode): JSONSchema {
+    const keys = this.getKeyNames(target);
+    if (!keys) {
+      // Unknown target or open-ended keys (index signature) - any string key
+      return { type: "string" };
+    }
+    if (keys.length === 0) return { not: {} }; // keyof {} is never
+    return { type: "string", enum: keys };
+  }
 
-    // If key is a union of string literals, emit explicit properties
-    if (keyType.kind === "union") {
-      const allStringLiterals = keyType.members.every(m => m.kind === "literal_string");
-      if (allStringLiterals) {
-        const valueSchema = this.emitType(valueType);
-        schema.properties = {};
-        schema.required = [];
-        for (const m of keyType.members) {
-          const key = (m as { kind: "literal_string"; value: string }).value;
-          schema.properties[key] = { ...valueSchema };
-          schema.required.push(key);
-        }
-        return schema;
+  /**
+   * Resolves an indexed access type `object[index]` to the type it denotes.
+   * Supports property lookups (`T["prop"]`), union keys (`T["a" | "b"]`,
+   * `T[keyof T]`), enum member keys (`T[Keys.A]`), unions of objects
+   * (`(A | B)["k"]`), array/tuple element lookups (`T[number]`, `T[0]`) and
+   * index signatures/records. Returns null when the lookup can't be decided.
+   */
+  private resolveIndexedAccess(object: TypeNode, index: TypeNode): TypeNode | null {
+    const target = this.dereferenceType(object);
+    const key = this.dereferenceType(index);
+
+    // Union keys distribute over the lookup: T["a" | "b"] = T["a"] | T["b"]
+    if (key.kind === "union" || key.kind === "keyof") {
+      const keys: TypeNode[] = key.kind === "union"
+        ? key.members
+        : (this.getKeyNames(key.target) ?? []).map(value => ({ kind: "literal_string", value }) as TypeNode);
+      if (keys.length === 0) return null;
+      const members: TypeNode[] = [];
+      for (const k of keys) {
+        const resolved = this.resolveIndexedAccess(target, k);
+        if (!resolved) return null;
+        members.push(resolved);
+      }
+      return members.length === 1 ? members[0] : { kind: "union", members };
+    }
+
+    // An enum member key looks up the member's value: T[Keys.A] = T["a"]
+    if (key.kind === "enum_member_access") {
+      const enumDecl = this.declarations.get(key.enumName);
+      const member = enumDecl?.kind === "enum" ? enumDecl.members.find(m => m.name === key.memberName) : undefined;
+      if (!member) return null;
+      const literal: TypeNode = typeof member.value === "number"
+        ? { kind: "literal_number", value: member.value }
+        : { kind: "literal_string", value: member.value };
+      return this.resolveIndexedAccess(target, literal);
+    }
+
+    // A union object distributes too: (A | B)["k"] = A["k"] | B["k"]
+    if (target.kind === "union") {
+      const members: TypeNode[] = [];
+      for (const member of target.members) {
+        const resolved = this.resolveIndexedAccess(member, key);
+        if (!resolved) return null;
+        members.push(resolved);
       }
+      return members.length === 1 ? members[0] : { kind: "union", members };
     }
 
-    if (keyType.kind === "literal_string") {
-      const valueSchema = this.emitType(valueType);
-      schema.properties = { [keyType.value]: valueSchema };
-      schema.required = [keyType.value];
-      return schema;
-    }
+    const isNumberKey = (key.kind === "primitive" && key.value === "number") || key.kind === "literal_number";
+    const isStringKey = (key.kind === "primitive" && key.value === "string") || key.kind === "literal_string";
 
-    // General Record<string, V>
-    schema.additionalProperties = this.emitType(valueType);
-    return schema;
-  }
+    switch (target.kind) {
+      case "array":
+        return isNumberKey ? target.element : null;
 
-  // ---------------------------------------------------------------------------
-  // Generic Type Instantiation
-  // ---------------------------------------------------------------------------
+      case "tuple": {
+        if (key.kind === "literal_number") {
+          const element = target.elements[key.value];
+          return element && !element.rest ? element.type : null;
+        }
+        if (!isNumberKey) return null;
+        const members = target.elements.map(e =>
+          e.rest && e.type.kind === "array" ? e.type.element : e.type
+        );
+        return members.length === 1 ? members[0] : { kind: "union", members };
+      }
+
+      case "record":
+        return isStringKey || isNumberKey ? target.valueType : null;
+
+      case "object":
+      case "reference": {
+        if (key.kind === "literal_string") {
+          const prop = this.getProperties(target)?.find(p => p.name === key.value);
+          if (prop) return prop.type;
+        }
+        const indexSignature = target.kind === "object"
+          ? target.indexSignature
+          : this.getInterfaceIndexSignature(target.name);
+        if (indexSignature && (isStringKey || isNumberKey)) return indexSignature.valueType;
+        return null;
+      }
+
+      default:
+        return null;
+    }
+  }
 
   /**
-   * Recursively substitute type parameters (like T, U) with actual type arguments
+   * Follows parentheses, indexed access and type alias references down to a
+   * structural type.
+   * Generic references are instantiated so lookups see substituted members.
+   * Interfaces are left as references (see getProperties).
    */
-  private substituteTypeParams(typeNode: TypeNode, paramMap: Map<string, TypeNode>): TypeNode {
-    switch (typeNode.kind) {
-      case "reference":
-        // Check if this reference IS a type parameter (e.g., "T")
+  private dereferenceType(node: TypeNode, visited: Set<string> = new Set()): TypeNode {
+    if (node.kind === "parenthesized") return this.dereferenceType(node.inner, visited);
+    if (node.kind === "enum_member_access") {
+      const qualified = this.asQualifiedReference(node);
+      return qualified ? this.dereferenceType(qualified, visited) : node;
+    }
+    if (node.kind === "indexed_access") {
+      const resolved = this.resolveIndexedAccess(node.object, node.index);
+      return resolved ? this.dereferenceType(resolved, visited) : node;
+    }
+    if (node.kind === "typeof") {
+      const resolved = this.resolveTypeQuery(node.name);
+      return resolved ? this.dereferenceType(resolved, visited) : node;
+    }
+    if (node.kind === "conditional") {
+      const resolved = this.evaluateConditional(node);
+      return resolved ? this.dereferenceType(resolved, visited) : node;
+    }
+    if (node.kind === "mapped") {
+      return this.resolveMappedType(node) ?? node;
+    }
+    if (node.kind !== "reference" || visited.has(node.name)) return node;
+
+    const decl = this.declarations.get(node.name);
+    if (!decl) {
+      const utility = node.typeArgs ? this.resolveUtilityTypeNode(node.name, node.typeArgs) : null;
+      return utility ? this.dereferenceType(utility, visited) : node;
+    }
+    visited.add(node.name);
+
+    const typeArgs = node.typeArgs ?? [];
+    if (decl.kind === "type_alias") {
+      if (typeArgs.length === 0) return this.dereferenceType(decl.type, visited);
+      const paramMap = this.buildTypeParamMap(decl, typeArgs);
+      return this.dereferenceType(this.substituteTypeParams(decl.type, paramMap), visited);
+    }
+    if ((decl.kind === "interface" || decl.kind === "class") && typeArgs.length > 0) {
+      const paramMap = this.buildTypeParamMap(decl, typeArgs);
+      return this.substituteTypeParams(
+        { kind: "object", properties: decl.properties, indexSignature: decl.indexSignature },
+        paramMap
+      );
+    }
+    return node;
+  }
+
+  /**
+   * `A.B` parses as enum member access unless the parser saw namespace `A`.
+   * A namespace declared in another file is only known here: if `A.B` names
+   * a declared type (and `A` is not an enum), it's a qualified reference.
+   */
+  private asQualifiedReference(
+    node: { kind: "enum_member_access"; enumName: string; memberName: string }
+  ): Extract<TypeNode, { kind: "reference" }> | null {
+    const name = `${node.enumName}.${node.memberName}`;
+    if (this.declarations.get(node.enumName)?.kind === "enum" || !this.declarations.has(name)) return null;
+    return { kind: "reference", name };
+  }
+
+  /**
+   * Resolves a type query `typeof X` (or `typeof X.a.b`) to the type of the
+   * value: a const's inferred/annotated type, or for enums an object of
+   * member literals (so `keyof typeof Enum` yields the member names).
+   */
+  private resolveTypeQuery(name: string): TypeNode | null {
+    // The value is the longest dotted prefix naming a const or enum (which
+    // may be namespace-qualified); the remaining segments are property lookups
+    const segments = name.split(".");
+    let split = segments.length;
+    while (split > 1) {
+      const candidate = segments.slice(0, split).join(".");
+      if (this.constants.has(candidate) || this.declarations.get(candidate)?.kind === "enum") break;
+      split--;
+    }
+    const head = segments.slice(0, split).join(".");
+    const path = segments.slice(split);
+
+    let type: TypeNode | null = null;
+    const constDecl = this.constants.get(head);
+    const decl = this.declarations.get(head);
+    if (constDecl) {
+      type = constDecl.type;
+    } else if (decl?.kind === "enum") {
+      type = {
+        kind: "object",
+        properties: decl.members.map(m => ({
+          name: m.name,
+          type: typeof m.value === "string"
+            ? { kind: "literal_string", value: m.value }
+            : { kind: "literal_number", value: m.value },
+          optional: false,
+          readonly: true,
+        })),
+      };
+    }
+
+    for (const segment of path) {
+      if (!type) break;
+      type = this.resolveIndexedAccess(type, { kind: "literal_string", value: segment });
+    }
+    return type;
+  }
+
+  private getInterfaceIndexSignature(name: string): IndexSignatureNode | undefined {
+    const decl = this.declarations.get(name);
+    return decl?.kind === "interface" || decl?.kind === "class" ? decl.indexSignature : undefined;
+  }
+
+  private emitRecord(keyType: TypeNode, valueType: TypeNode): JSONSchema {
+    const schema: JSONSchema = { type: "object" };
+
+    // If key is a union of string literals, emit explicit properties
+    if (keyType.kind === "union") {
+      const allStringLiterals = keyType.members.every(m => m.kind === "literal_string");
+      if (allStringLiterals) {
+        const valueSchema = this.emitType(valueType);
+        schema.properties = {};
+        schema.required = [];
+        for (const m of keyType.members) {
+          const key = (m as { kind: "literal_string"; value: string }).value;
+          schema.properties[key] = { ...valueSchema };
+          schema.required.push(key);
+        }
+        return schema;
+      }
+    }
+
+    if (keyType.kind === "literal_string") {
+      const valueSchema = this.emitType(valueType);
+      schema.properties = { [keyType.value]: valueSchema };
+      schema.required = [keyType.value];
+      return schema;
+    }
+
+    // General Record<string, V>
+    schema.additionalProperties = this.emitType(valueType);
+    return schema;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Generic Type Instantiation
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Recursively substitute type parameters (like T, U) with actual type arguments
+   */
+  private substituteTypeParams(typeNode: TypeNode, paramMap: Map<string, TypeNode>): TypeNode {
+    switch (typeNode.kind) {
+      case "reference":
+        // Check if this reference IS a type parameter (e.g., "T")
         if (paramMap.has(typeNode.name)) {
           return paramMap.get(typeNode.name)!;
         }
@@ -1301,6 +2192,73 @@ export class Emitter {
           inner: this.substituteTypeParams(typeNode.inner, paramMap)
         };
 
+      case "keyof":
+        return {
+          ...typeNode,
+          target: this.substituteTypeParams(typeNode.target, paramMap)
+        };
+
+      case "indexed_access":
+        return {
+          ...typeNode,
+          object: this.substituteTypeParams(typeNode.object, paramMap),
+          index: this.substituteTypeParams(typeNode.index, paramMap)
+        };
+
+      case "function":
+        return {
+          ...typeNode,
+          params: typeNode.params?.map(p => ({ ...p, type: this.substituteTypeParams(p.type, paramMap) })),
+          returnType: typeNode.returnType ? this.substituteTypeParams(typeNode.returnType, paramMap) : undefined,
+        };
+
+      case "template_literal":
+        return {
+          ...typeNode,
+          parts: typeNode.parts.map(part =>
+            typeof part === "string" ? part : this.substituteTypeParams(part, paramMap)
+          )
+        };
+
+      case "mapped": {
+        // The mapped key variable shadows any outer parameter of the same name
+        const innerMap = new Map(paramMap);
+        innerMap.delete(typeNode.keyName);
+        return {
+          ...typeNode,
+          constraint: this.substituteTypeParams(typeNode.constraint, paramMap),
+          valueType: this.substituteTypeParams(typeNode.valueType, innerMap),
+          nameType: typeNode.nameType ? this.substituteTypeParams(typeNode.nameType, innerMap) : undefined,
+        };
+      }
+
+      case "conditional": {
+        // Conditionals over a naked type parameter distribute over unions:
+        // C<A | B> = C<A> | C<B>
+        const check = typeNode.checkType;
+        if (check.kind === "reference" && !check.typeArgs && paramMap.has(check.name)) {
+          const arg = paramMap.get(check.name)!;
+          const members = arg.kind === "union" ? this.flattenUnion(arg.members) : [arg];
+          if (members.length > 1) {
+            const results = members
+              .map(m => this.substituteTypeParams(typeNode, new Map(paramMap).set(check.name, m)))
+              .flatMap(r => (r.kind === "union" ? r.members : [r]))
+              .filter(r => !(r.kind === "primitive" && r.value === "never"));
+            if (results.length === 0) return { kind: "primitive", value: "never" };
+            return results.length === 1 ? results[0] : { kind: "union", members: results };
+          }
+        }
+
+        const substituted: TypeNode = {
+          ...typeNode,
+          checkType: this.substituteTypeParams(typeNode.checkType, paramMap),
+          extendsType: this.substituteTypeParams(typeNode.extendsType, paramMap),
+          trueType: this.substituteTypeParams(typeNode.trueType, paramMap),
+          falseType: this.substituteTypeParams(typeNode.falseType, paramMap),
+        };
+        return this.evaluateConditional(substituted) ?? substituted;
+      }
+
       // Primitives and literals don't contain type parameters
       default:
         return typeNode;
@@ -1309,14 +2267,23 @@ export class Emitter {
 
   /**
    * Map a declaration's type parameter names to concrete type arguments.
-   * Falls back to conventional names (T, U, V, W) for declarations that
-   * were constructed without typeParams (e.g. hand-built ASTs).
+   * A missing argument falls back to the parameter's default (which may
+   * refer to earlier parameters), then to its constraint. Falls back to
+   * conventional names (T, U, V, W) for declarations that were constructed
+   * without typeParams (e.g. hand-built ASTs).
    */
-  private buildTypeParamMap(typeParams: string[] | undefined, typeArgs: TypeNode[]): Map<string, TypeNode> {
+  private buildTypeParamMap(decl: GenericParams, typeArgs: TypeNode[]): Map<string, TypeNode> {
+    const typeParams = decl.typeParams;
     const paramNames = typeParams && typeParams.length > 0 ? typeParams : ['T', 'U', 'V', 'W'];
     const typeParamMap = new Map<string, TypeNode>();
-    for (let i = 0; i < Math.min(typeArgs.length, paramNames.length); i++) {
-      typeParamMap.set(paramNames[i], typeArgs[i]);
+    for (let i = 0; i < paramNames.length; i++) {
+      const name = paramNames[i];
+      if (i < typeArgs.length) {
+        typeParamMap.set(name, typeArgs[i]);
+        continue;
+      }
+      const fallback = decl.typeParamDefaults?.[name] ?? decl.typeParamConstraints?.[name];
+      if (fallback) typeParamMap.set(name, this.substituteTypeParams(fallback, typeParamMap));
     }
     return typeParamMap;
   }
@@ -1324,9 +2291,9 @@ export class Emitter {
   /**
    * Instantiate a generic interface with concrete type arguments
    */
-  private instantiateInterface(decl: InterfaceDeclaration, typeArgs: TypeNode[]): JSONSchema {
+  private instantiateInterface(decl: InterfaceDeclaration | ClassDeclaration, typeArgs: TypeNode[]): JSONSchema {
     // Map the declaration's type parameter names to the provided type arguments
-    const typeParamMap = this.buildTypeParamMap(decl.typeParams, typeArgs);
+    const typeParamMap = this.buildTypeParamMap(decl, typeArgs);
 
     // Substitute type parameters in all properties
     const instantiatedProps = decl.properties.map(prop => ({
@@ -1351,6 +2318,11 @@ export class Emitter {
       );
     }
 
+    if (extendsTypes && extendsTypes.length > 0 && this.options.extendsStrategy !== "allOf") {
+      const result = this.emitExtendedObject(instantiatedProps, instantiatedIndexSig, decl.tags, extendsTypes);
+      if (result) return result;
+    }
+
     // Emit the instantiated object type
     const schema = this.emitObjectType(instantiatedProps, instantiatedIndexSig, decl.tags);
 
@@ -1369,7 +2341,7 @@ export class Emitter {
    */
   private instantiateTypeAlias(decl: TypeAliasDeclaration, typeArgs: TypeNode[]): JSONSchema {
     // Map the declaration's type parameter names to the provided type arguments
-    const typeParamMap = this.buildTypeParamMap(decl.typeParams, typeArgs);
+    const typeParamMap = this.buildTypeParamMap(decl, typeArgs);
 
     // Substitute type parameters in the aliased type
     const instantiatedType = this.substituteTypeParams(decl.type, typeParamMap);
@@ -1378,6 +2350,90 @@ export class Emitter {
     return this.emitType(instantiatedType);
   }
 
+  /**
+   * Emits a generic instantiation: inline by default, or as a `$ref` to a
+   * named definition when `namedGenericInstantiations` is set or when the
+   * instantiation recursively refers to itself (`Tree<T>` → `Tree<T>[]`).
+   */
+  private emitGenericInstantiation(name: string, typeArgs: TypeNode[]): JSONSchema | null {
+    const decl = this.declarations.get(name);
+    if (!decl || decl.kind === "enum" || decl.kind === "const") return null;
+
+    const key = `${name}<${JSON.stringify(typeArgs)}>`;
+    const existing = this.instantiationNames.get(key);
+    if (existing) return { $ref: `#/$defs/${existing}` };
+
+    const recursive = this.instantiationStack.includes(key);
+    if (!recursive) {
+      // Instantiations whose arguments grow on every expansion (Nest<T> → Nest<T[]>)
+      // never repeat a key; after a few levels the rest accepts any value
+      const growing = this.instantiationStack.filter(k => k.startsWith(`${name}<`) && k.length < key.length);
+      if (growing.length >= 3 || this.instantiationStack.length >= 50) return {};
+    }
+
+    // Named instantiations are local $defs, which defineId's external refs replace
+    if (recursive || (this.options.namedGenericInstantiations && !this.options.defineId)) {
+      const defName = this.reserveInstantiationName(name, typeArgs, key);
+      if (recursive) return { $ref: `#/$defs/${defName}` };
+    }
+
+    this.instantiationStack.push(key);
+    let schema: JSONSchema | null;
+    try {
+      schema = this.resolveGenericType(name, typeArgs);
+    } finally {
+      this.instantiationStack.pop();
+    }
+
+    const defName = this.instantiationNames.get(key);
+    if (!defName) return schema;
+    this.instantiationDefs.set(defName, schema ?? {});
+    return { $ref: `#/$defs/${defName}` };
+  }
+
+  private reserveInstantiationName(name: string, typeArgs: TypeNode[], key: string): string {
+    const argNames = typeArgs.map(arg => this.typeArgName(arg));
+    const base = (this.options.genericInstantiationName?.(name, argNames, typeArgs)
+      ?? [this.getDefineName(name), ...argNames].join("_"))
+      .replace(/[^A-Za-z0-9_.$-]/g, "_");
+
+    const taken = new Set([
+      ...[...this.declarations.keys()].map(n => this.getDefineName(n)),
+      ...this.instantiationNames.values(),
+    ]);
+    let defName = base;
+    for (let i = 2; taken.has(defName); i++) defName = `${base}_${i}`;
+
+    this.instantiationNames.set(key, defName);
+    return defName;
+  }
+
+  /** A readable name for a type argument: User, string, UserArray, Box_string, AOrB */
+  private typeArgName(node: TypeNode): string {
+    switch (node.kind) {
+      case "reference":
+        return [node.name, ...(node.typeArgs ?? []).map(a => this.typeArgName(a))].join("_");
+      case "primitive":
+        return node.value;
+      case "literal_string":
+      case "literal_number":
+      case "literal_boolean":
+        return String(node.value);
+      case "array":
+        return `${this.typeArgName(node.element)}Array`;
+      case "union":
+        return node.members.map(m => this.typeArgName(m)).join("Or");
+      case "intersection":
+        return node.members.map(m => this.typeArgName(m)).join("And");
+      case "parenthesized":
+        return this.typeArgName(node.inner);
+      case "enum_member_access":
+        return `${node.enumName}_${node.memberName}`;
+      default:
+        return node.kind.charAt(0).toUpperCase() + node.kind.slice(1).replace(/_(\w)/g, (_, c: string) => c.toUpperCase());
+    }
+  }
+
   /**
    * Look up a generic declaration and instantiate it with type arguments
    */
@@ -1389,7 +2445,7 @@ export class Emitter {
     }
 
     // Instantiate based on declaration kind
-    if (decl.kind === "interface") {
+    if (decl.kind === "interface" || decl.kind === "class") {
       return this.instantiateInterface(decl, typeArgs);
     } else if (decl.kind === "type_alias") {
       return this.instantiateTypeAlias(decl, typeArgs);
@@ -1399,11 +2455,405 @@ export class Emitter {
     return null;
   }
 
+  // ---------------------------------------------------------------------------
+  // Mapped type evaluation
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Expands a mapped type into a concrete object type. Homomorphic mapped
+   * types (`[K in keyof T]`) keep each source property's optional/readonly
+   * modifiers and JSDoc unless overridden. Returns null when the key set
+   * can't be determined (e.g. an unresolved type parameter).
+   */
+  private resolveMappedType(node: MappedTypeNode): TypeNode | null {
+    const constraint = this.dereferenceType(node.constraint);
+    const mapValue = (key: TypeNode) =>
+      this.substituteTypeParams(node.valueType, new Map([[node.keyName, key]]));
+
+    // Homomorphic source: keyof T
+    let sourceProps: PropertyNode[] | null = null;
+    if (constraint.kind === "keyof") {
+      const source = this.dereferenceType(constraint.target);
+      // Primitives map to themselves: DeepReadonly<string> is string
+      if (!node.nameType && (source.kind === "primitive" || source.kind === "literal_string"
+        || source.kind === "literal_number" || source.kind === "literal_boolean")) {
+        return source;
+      }
+      // Mapping over an array maps its elements
+      if (source.kind === "array" && !node.nameType) {
+        return { kind: "array", element: mapValue({ kind: "primitive", value: "number" }) };
+      }
+      sourceProps = this.getProperties(source);
+    }
+
+    // string/number keys produce an index signature
+    if (constraint.kind === "primitive" && (constraint.value === "string" || constraint.value === "number")) {
+      return {
+        kind: "object",
+        properties: [],
+        indexSignature: { keyType: constraint, valueType: mapValue(constraint) },
+      };
+    }
+
+    const keyNames = this.evaluateStringLiterals(constraint);
+    if (!keyNames) return null;
+
+    const properties: PropertyNode[] = [];
+    for (const key of keyNames) {
+      const keyType: TypeNode = { kind: "literal_string", value: key };
+      const names = node.nameType
+        ? this.evaluateStringLiterals(
+            this.substituteTypeParams(node.nameType, new Map([[node.keyName, keyType]]))
+          )
+        : [key];
+      if (!names) return null;
+
+      const source = sourceProps?.find(p => p.name === key);
+      const optional = node.optional === "-" ? false : node.optional ?? source?.optional ?? false;
+      const readonly = node.readonly === "-" ? false : node.readonly ?? source?.readonly ?? false;
+
+      for (const name of names) { // a remapped key of `never` drops the property
+        properties.push({
+          name,
+          type: mapValue(keyType),
+          optional,
+          readonly,
+          description: source?.description,
+          tags: source?.tags,
+        });
+      }
+    }
+
+    return { kind: "object", properties };
+  }
+
+  /**
+   * Evaluates a key type to the set of string literals it denotes: literals,
+   * unions, intersections (`K & string` keeps K's string literals), template
+   * literals over literals, and the intrinsic string manipulation types.
+   * `never` evaluates to no keys. Null if not a finite set. `stringsOnly`
+   * drops number and boolean literals.
+   */
+  private evaluateStringLiterals(node: TypeNode, stringsOnly = false): string[] | null {
+    const resolved = this.dereferenceType(node);
+    switch (resolved.kind) {
+      case "literal_string":
+        return [resolved.value];
+      case "literal_number":
+      case "literal_boolean":
+        return stringsOnly ? [] : [String(resolved.value)];
+      case "primitive":
+        return resolved.value === "never" ? [] : null;
+      case "keyof":
+        return this.getKeyNames(resolved.target);
+      case "union": {
+        const values: string[] = [];
+        for (const m of resolved.members) {
+          const memberValues = this.evaluateStringLiterals(m, stringsOnly);
+          if (!memberValues) return null;
+          values.push(...memberValues.filter(v => !values.includes(v)));
+        }
+        return values;
+      }
+      case "intersection": {
+        // `K & string` keeps the string literals of K; other members intersect
+        const isString = (m: TypeNode) => {
+          const d = this.dereferenceType(m);
+          return d.kind === "primitive" && d.value === "string";
+        };
+        const filtered = stringsOnly || resolved.members.some(isString);
+        let values: string[] | null = null;
+        for (const m of resolved.members) {
+          if (isString(m)) continue;
+          const memberValues = this.evaluateStringLiterals(m, filtered);
+          if (!memberValues) return null;
+          values = values === null ? memberValues : values.filter(v => memberValues.includes(v));
+        }
+        return values;
+      }
+      case "template_literal": {
+        // Cartesian product of all parts
+        let values = [""];
+        for (const part of resolved.parts) {
+          const partValues = typeof part === "string" ? [part] : this.evaluateStringLiterals(part);
+          if (!partValues) return null;
+          values = values.flatMap(prefix => partValues.map(v => prefix + v));
+        }
+        return values;
+      }
+      case "reference": {
+        const intrinsic = resolved.typeArgs?.length === 1 ? this.applyStringIntrinsic(resolved.name, "") : null;
+        if (intrinsic === null) return null;
+        const values = this.evaluateStringLiterals(resolved.typeArgs![0], stringsOnly);
+        return values ? values.map(v => this.applyStringIntrinsic(resolved.name, v)!) : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /** Applies Uppercase/Lowercase/Capitalize/Uncapitalize; null for other names. */
+  private applyStringIntrinsic(name: string, value: string): string | null {
+    switch (name) {
+      case "Uppercase": return value.toUpperCase();
+      case "Lowercase": return value.toLowerCase();
+      case "Capitalize": return value.charAt(0).toUpperCase() + value.slice(1);
+      case "Uncapitalize": return value.charAt(0).toLowerCase() + value.slice(1);
+      default: return null;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Conditional type evaluation
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Evaluates `Check extends Extends ? True : False` with a structural
+   * assignability check. Returns the selected branch (with `infer` variables
+   * bound), or null when assignability can't be decided statically.
+   */
+  private evaluateConditional(node: Extract<TypeNode, { kind: "conditional" }>): TypeNode | null {
+    const check = this.dereferenceType(node.checkType);
+    if (check.kind === "primitive" && check.value === "never") {
+      return check; // never distributes to never
+    }
+
+    const inferred = new Map<string, TypeNode>();
+    const assignable = this.isAssignable(node.checkType, node.extendsType, inferred);
+    if (assignable === undefined) return null;
+    return assignable ? this.bindInferred(node, inferred) : node.falseType;
+  }
+
+  /** Substitutes `infer` variables into the true branch; unbound ones become unknown. */
+  private bindInferred(node: Extract<TypeNode, { kind: "conditional" }>, inferred: Map<string, TypeNode>): TypeNode {
+    const bindings = new Map(inferred);
+    for (const name of this.collectInferNames(node.extendsType)) {
+      if (!bindings.has(name)) bindings.set(name, { kind: "primitive", value: "unknown" });
+    }
+    return bindings.size > 0 ? this.substituteTypeParams(node.trueType, bindings) : node.trueType;
+  }
+
+  private collectInferNames(node: TypeNode): string[] {
+    const names: string[] = [];
+    const walk = (value: unknown): void => {
+      if (typeof value !== "object" || value === null) return;
+      if ((value as TypeNode).kind === "infer") names.push((value as { name: string }).name);
+      for (const child of Object.values(value)) {
+        if (Array.isArray(child)) child.forEach(walk);
+        else walk(child);
+      }
+    };
+    walk(node);
+    return names;
+  }
+
+  /**
+   * Structural assignability of `source` to `target` over the AST.
+   * Returns undefined when it can't be decided (unresolved type parameters,
+   * external types, `any`). `infer` sites in the target bind into `inferred`.
+   */
+  private isAssignable(
+    source: TypeNode,
+    target: TypeNode,
+    inferred: Map<string, TypeNode>,
+    depth = 0
+  ): boolean | undefined {
+    if (depth > 25) return undefined;
+
+    const s = this.toAssignabilityForm(source);
+    const t = this.toAssignabilityForm(target);
+    const recurse = (a: TypeNode, b: TypeNode) => this.isAssignable(a, b, inferred, depth + 1);
+
+    if (t.kind === "infer") {
+      if (!inferred.has(t.name)) inferred.set(t.name, source);
+      return true;
+    }
+    if (t.kind === "primitive" && (t.value === "any" || t.value === "unknown")) return true;
+    if (s.kind === "primitive" && s.value === "never") return true;
+    if (s.kind === "primitive" && s.value === "any") return undefined;
+
+    if (s.kind === "union") return this.allOfResults(s.members.map(m => recurse(m, t)));
+    if (t.kind === "union") return this.anyOfResults(t.members.map(m => recurse(s, m)));
+    if (t.kind === "intersection") return this.allOfResults(t.members.map(m => recurse(s, m)));
+    if (s.kind === "intersection") {
+      const results = s.members.map(m => recurse(m, t));
+      return results.includes(true) ? true : undefined;
+    }
+
+    // Same named type: compare type arguments pairwise (covariantly)
+    if (s.kind === "reference" && t.kind === "reference" && s.name === t.name) {
+      const sArgs = s.typeArgs ?? [];
+      const tArgs = t.typeArgs ?? [];
+      if (sArgs.length !== tArgs.length) return undefined;
+      return this.allOfResults(sArgs.map((arg, i) => recurse(arg, tArgs[i])));
+    }
+
+    // Types we can't see into
+    if (this.isOpaqueType(s) || this.isOpaqueType(t)) return undefined;
+
+    const sBase = this.primitiveBase(s);
+    const tBase = this.primitiveBase(t);
+
+    if (t.kind === "primitive") {
+      if (t.value === "object") return sBase === "object";
+      if (t.value === "void") return sBase === "undefined" || sBase === "void";
+      return sBase === t.value;
+    }
+
+    if (t.kind === "literal_string" || t.kind === "literal_number" || t.kind === "literal_boolean") {
+      return s.kind === t.kind && s.value === t.value;
+    }
+
+    if (t.kind === "template_literal") {
+      if (s.kind === "literal_string") {
+        const regex = this.templateLiteralToRegex(t.parts);
+        return regex === null ? undefined : new RegExp(`^${regex}$`).test(s.value);
+      }
+      return s.kind === "template_literal" ? undefined : false;
+    }
+
+    // From here on the target is an object-like type
+    if (sBase !== "object") {
+      // Primitives are assignable to the empty object type `{}`
+      const isEmptyObject = t.kind === "object" && t.properties.length === 0 && !t.indexSignature;
+      return isEmptyObject && sBase !== "null" && sBase !== "undefined";
+    }
+    if (tBase !== "object") return undefined;
+
+    if (t.kind === "function") return s.kind === "function";
+
+    if (t.kind === "array") {
+      if (s.kind === "array") return recurse(s.element, t.element);
+      if (s.kind === "tuple") {
+        return this.allOfResults(s.elements.map(e =>
+          recurse(e.rest && e.type.kind === "array" ? e.type.element : e.type, t.element)
+        ));
+      }
+      return false;
+    }
+
+    if (t.kind === "tuple") {
+      if (s.kind !== "tuple") return false;
+      if (s.elements.length !== t.elements.length) return false;
+      return this.allOfResults(s.elements.map((e, i) => recurse(e.type, t.elements[i].type)));
+    }
+
+    // Structural object comparison
+    if (s.kind === "array" || s.kind === "tuple" || s.kind === "function") return false;
+    const targetProps = this.getProperties(t);
+    const sourceProps = this.getProperties(s);
+    if (!targetProps || !sourceProps) return undefined;
+
+    const results: (boolean | undefined)[] = [];
+    for (const tp of targetProps) {
+      const sp = sourceProps.find(p => p.name === tp.name);
+      if (!sp) {
+        if (!tp.optional) return false;
+        continue;
+      }
+      if (sp.optional && !tp.optional) return false;
+      results.push(recurse(sp.type, tp.type));
+    }
+    const indexSignature = t.kind === "object" ? t.indexSignature
+      : t.kind === "reference" ? this.getInterfaceIndexSignature(t.name) : undefined;
+    if (indexSignature) {
+      results.push(...sourceProps.map(sp => recurse(sp.type, indexSignature.valueType)));
+    }
+    return this.allOfResults(results);
+  }
+
+  /** Normalizes a node for assignability: resolves aliases, enums and keyof to plain types. */
+  private toAssignabilityForm(node: TypeNode): TypeNode {
+    const resolved = this.dereferenceType(node);
+
+    if (resolved.kind === "reference" && !resolved.typeArgs) {
+      const decl = this.declarations.get(resolved.name);
+      if (decl?.kind === "enum") {
+        return {
+          kind: "union",
+          members: decl.members.map(m => (typeof m.value === "string"
+            ? { kind: "literal_string", value: m.value }
+            : { kind: "literal_number", value: m.value }) as TypeNode),
+        };
+      }
+    }
+    if (resolved.kind === "enum_member_access") {
+      const decl = this.declarations.get(resolved.enumName);
+      const member = decl?.kind === "enum" ? decl.members.find(m => m.name === resolved.memberName) : undefined;
+      if (member) {
+        return typeof member.value === "string"
+          ? { kind: "literal_string", value: member.value }
+          : { kind: "literal_number", value: member.value };
+      }
+    }
+    if (resolved.kind === "keyof") {
+      const keys = this.getKeyNames(resolved.target);
+      if (keys) {
+        return { kind: "union", members: keys.map(value => ({ kind: "literal_string", value }) as TypeNode) };
+      }
+    }
+    if (resolved.kind === "record") {
+      const keys = this.extractKeyNames(resolved.keyType);
+      if (keys) {
+        return {
+          kind: "object",
+          properties: [...keys].map(name => ({ name, type: resolved.valueType, optional: false, readonly: false })),
+        };
+      }
+      return { kind: "object", properties: [], indexSignature: { keyType: resolved.keyType, valueType: resolved.valueType } };
+    }
+    return resolved;
+  }
+
+  /** Types whose structure is unknown: unresolved names (e.g. type parameters), externals. */
+  private isOpaqueType(node: TypeNode): boolean {
+    switch (node.kind) {
+      case "reference":
+        return !this.declarations.has(node.name);
+      case "conditional":
+      case "mapped":
+      case "indexed_access":
+      case "typeof":
+      case "keyof":
+      case "enum_member_access":
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /** The primitive a type belongs to for assignability ("object" for structured types). */
+  private primitiveBase(node: TypeNode): string {
+    switch (node.kind) {
+      case "primitive": return node.value;
+      case "literal_string":
+      case "template_literal": return "string";
+      case "literal_number": return "number";
+      case "literal_boolean": return "boolean";
+      default: return "object";
+    }
+  }
+
+  private allOfResults(results: (boolean | undefined)[]): boolean | undefined {
+    if (results.includes(false)) return false;
+    if (results.includes(undefined)) return undefined;
+    return true;
+  }
+
+  private anyOfResults(results: (boolean | undefined)[]): boolean | undefined {
+    if (results.includes(true)) return true;
+    if (results.includes(undefined)) return undefined;
+    return false;
+  }
+
   // ---------------------------------------------------------------------------
   // Utility type resolution
   // ---------------------------------------------------------------------------
 
   private resolveUtilityType(name: string, typeArgs: TypeNode[]): JSONSchema | null {
+    const resolvedNode = this.resolveUtilityTypeNode(name, typeArgs);
+    if (resolvedNode) return this.emitType(resolvedNode);
+
     switch (name) {
       case "Partial":
         return this.resolvePartial(typeArgs[0]);
@@ -1415,10 +2865,11 @@ export class Emitter {
       case "Omit":
         if (typeArgs.length === 2) return this.resolveOmit(typeArgs[0], typeArgs[1]);
         return null;
+      case "ReturnType":
+      case "Parameters":
+        return {}; // Not a function type we can see (e.g. `typeof` a declared function)
       case "Readonly":
         return this.emitType(typeArgs[0]); // Schema doesn't enforce readonly
-      case "NonNullable":
-        return this.emitType(typeArgs[0]); // Already non-null in JSON
       case "Set":
         return { type: "array", items: this.emitType(typeArgs[0]), uniqueItems: true };
       case "Map":
@@ -1431,48 +2882,90 @@ export class Emitter {
     }
   }
 
-  private resolvePartial(target: TypeNode): JSONSchema {
-    // For references, look up the declaration and make all properties optional
-    if (target.kind === "reference") {
-      const decl = this.declarations.get(target.name);
-      if (decl && (decl.kind === "interface" || (decl.kind === "type_alias" && decl.type.kind === "object"))) {
-        const props = decl.kind === "interface" ? decl.properties : (decl.type as any).properties;
-        const schema = this.emitObjectType(
-          props.map((p: PropertyNode) => ({ ...p, optional: true }))
-        );
-        return schema;
+  /**
+   * Resolves utility types that evaluate to another type rather than a
+   * schema of their own: union filters (Exclude, Extract, NonNullable),
+   * Awaited, ReturnType/Parameters of function types, and the intrinsic
+   * string manipulation types. Returns null when not applicable.
+   */
+  private resolveUtilityTypeNode(name: string, typeArgs: TypeNode[]): TypeNode | null {
+    switch (name) {
+      case "Exclude":
+      case "Extract": {
+        if (typeArgs.length !== 2) return null;
+        const keep = name === "Extract";
+        // Members whose assignability can't be decided are kept
+        const members = this.expandUnionMembers(typeArgs[0]).filter(m => {
+          const assignable = this.isAssignable(m, typeArgs[1], new Map());
+          return assignable === undefined || assignable === keep;
+        });
+        return this.toUnionNode(members);
       }
-    }
 
-    // For inline objects
-    if (target.kind === "object") {
-      return this.emitObjectType(
-        target.properties.map(p => ({ ...p, optional: true }))
-      );
-    }
-
-    // Fallback: emit as-is
-    return this.emitType(target);
-  }
+      case "NonNullable":
+        return this.toUnionNode(this.expandUnionMembers(typeArgs[0]).filter(m =>
+          !(m.kind === "primitive" && (m.value === "null" || m.value === "undefined"))
+        ));
+
+      case "Awaited":
+        return typeArgs[0]; // Promise<T> is already unwrapped by the parser
+
+      case "ReturnType":
+      case "Parameters": {
+        const fn = this.dereferenceType(typeArgs[0]);
+        if (fn.kind !== "function") return null;
+        if (name === "ReturnType") return fn.returnType ?? { kind: "primitive", value: "unknown" };
+        return fn.params ? { kind: "tuple", elements: fn.params } : null;
+      }
 
-  private resolveRequired(target: TypeNode): JSONSchema {
-    if (target.kind === "reference") {
-      const decl = this.declarations.get(target.name);
-      if (decl && (decl.kind === "interface" || (decl.kind === "type_alias" && decl.type.kind === "object"))) {
-        const props = decl.kind === "interface" ? decl.properties : (decl.type as any).properties;
-        return this.emitObjectType(
-          props.map((p: PropertyNode) => ({ ...p, optional: false }))
-        );
+      case "Uppercase":
+      case "Lowercase":
+      case "Capitalize":
+      case "Uncapitalize": {
+        if (typeArgs.length !== 1) return null;
+        const values = this.evaluateStringLiterals(typeArgs[0]);
+        if (!values) return { kind: "primitive", value: "string" };
+        return this.toUnionNode(values.map(v => ({ kind: "literal_string", value: this.applyStringIntrinsic(name, v)! })));
       }
+
+      default:
+        return null;
     }
+  }
 
-    if (target.kind === "object") {
-      return this.emitObjectType(
-        target.properties.map(p => ({ ...p, optional: false }))
-      );
+  /**
+   * Expands a type into its union members, following aliases and enums.
+   * Non-union members are kept as written so named types still emit as $ref.
+   */
+  private expandUnionMembers(node: TypeNode, depth = 0): TypeNode[] {
+    const resolved = this.toAssignabilityForm(node);
+    if (resolved.kind === "union" && depth < 10) {
+      return this.flattenUnion(resolved.members).flatMap(m => this.expandUnionMembers(m, depth + 1));
     }
+    return [node];
+  }
 
-    return this.emitType(target);
+  private toUnionNode(members: TypeNode[]): TypeNode {
+    if (members.length === 0) return { kind: "primitive", value: "never" };
+    return members.length === 1 ? members[0] : { kind: "union", members };
+  }
+
+  private resolvePartial(target: TypeNode): JSONSchema {
+    const shape = this.resolveObjectShape(target);
+    if (!shape) return this.emitType(target);
+    return this.emitObjectType(
+      shape.properties.map(p => ({ ...p, optional: true })),
+      shape.indexSignature
+    );
+  }
+
+  private resolveRequired(target: TypeNode): JSONSchema {
+    const shape = this.resolveObjectShape(target);
+    if (!shape) return this.emitType(target);
+    return this.emitObjectType(
+      shape.properties.map(p => ({ ...p, optional: false })),
+      shape.indexSignature
+    );
   }
 
   private resolvePick(target: TypeNode, keys: TypeNode): JSONSchema {
@@ -1499,28 +2992,189 @@ export class Emitter {
     );
   }
 
+  /**
+   * Key names of a Pick/Omit/Record key argument, following aliases and
+   * evaluating keyof, Exclude/Extract and template literals. Null if open-ended.
+   */
   private extractKeyNames(node: TypeNode): Set<string> | null {
-    if (node.kind === "literal_string") return new Set([node.value]);
-    if (node.kind === "union") {
-      const names = new Set<string>();
-      for (const m of node.members) {
-        if (m.kind === "literal_string") names.add(m.value);
-        else return null;
+    const keys = this.evaluateStringLiterals(node);
+    return keys ? new Set(keys) : null;
+  }
+
+  /**
+   * Resolves the property names produced by `keyof target`, including
+   * properties inherited through `extends` and intersections.
+   * Returns null when the keys are unknown or open-ended (index signatures).
+   */
+  private getKeyNames(node: TypeNode): string[] | null {
+    const shape = this.resolveObjectShape(node);
+    if (!shape || shape.indexSignature) return null;
+    return shape.properties.map(p => p.name);
+  }
+
+  private getProperties(node: TypeNode): PropertyNode[] | null {
+    return this.resolveObjectShape(node)?.properties ?? null;
+  }
+
+  /**
+   * Flattens a type into the full property set it exposes: own properties
+   * plus everything inherited through `extends` chains and intersections,
+   * with generic instantiations and nested utility types applied. Own
+   * properties override inherited ones. Returns null when the type isn't a
+   * statically known object type.
+   */
+  private resolveObjectShape(
+    node: TypeNode,
+    visited: Set<string> = new Set()
+  ): Extract<TypeNode, { kind: "object" }> | null {
+    switch (node.kind) {
+      case "object":
+        return node;
+      case "parenthesized":
+        return this.resolveObjectShape(node.inner, visited);
+      case "typeof":
+      case "conditional":
+      case "mapped":
+      case "indexed_access":
+      case "enum_member_access": {
+        const resolved = this.dereferenceType(node);
+        return resolved !== node ? this.resolveObjectShape(resolved, visited) : null;
+      }
+      case "intersection": {
+        const shapes: Extract<TypeNode, { kind: "object" }>[] = [];
+        for (const m of node.members) {
+          const shape = this.resolveObjectShape(m, visited);
+          if (!shape) return null;
+          shapes.push(shape);
+        }
+        return this.mergeObjectShapes(shapes);
       }
-      return names;
+      case "record": {
+        const keys = this.extractKeyNames(node.keyType);
+        if (!keys) return null;
+        return {
+          kind: "object",
+          properties: [...keys].map(name => ({ name, type: node.valueType, optional: false, readonly: false })),
+        };
+      }
+      case "reference":
+        return this.resolveReferenceShape(node, visited);
+      default:
+        return null;
     }
-    return null;
   }
 
-  private getProperties(node: TypeNode): PropertyNode[] | null {
-    if (node.kind === "object") return node.properties;
-    if (node.kind === "reference") {
-      const decl = this.declarations.get(node.name);
-      if (!decl) return null;
-      if (decl.kind === "interface") return decl.properties;
-      if (decl.kind === "type_alias" && decl.type.kind === "object") return decl.type.properties;
+  private resolveReferenceShape(
+    node: Extract<TypeNode, { kind: "reference" }>,
+    visited: Set<string>
+  ): Extract<TypeNode, { kind: "object" }> | null {
+    const typeArgs = node.typeArgs ?? [];
+    const decl = this.declarations.get(node.name);
+
+    if (!decl && typeArgs.length > 0) {
+      const inner = () => this.resolveObjectShape(typeArgs[0], visited);
+      switch (node.name) {
+        case "Partial":
+        case "Required":
+        case "Readonly": {
+          const shape = inner();
+          if (!shape) return null;
+          return {
+            ...shape,
+            properties: shape.properties.map(p =>
+              node.name === "Readonly" ? { ...p, readonly: true } : { ...p, optional: node.name === "Partial" }
+            ),
+          };
+        }
+        case "Pick":
+        case "Omit": {
+          const shape = inner();
+          const keyNames = typeArgs[1] ? this.extractKeyNames(typeArgs[1]) : null;
+          if (!shape || !keyNames) return null;
+          const keep = node.name === "Pick";
+          return {
+            kind: "object",
+            properties: shape.properties.filter(p => keyNames.has(p.name) === keep),
+            // Omit keeps the index signature; Pick only selects named keys
+            indexSignature: keep ? undefined : shape.indexSignature,
+          };
+        }
+        default: {
+          const resolved = this.dereferenceType(node);
+          return resolved !== node ? this.resolveObjectShape(resolved, visited) : null;
+        }
+      }
     }
-    return null;
+
+    if (!decl || visited.has(node.name)) return null;
+    visited.add(node.name);
+
+    try {
+      const paramMap = this.buildTypeParamMap(decl.kind === "enum" || decl.kind === "const" ? {} : decl, typeArgs);
+      const substitute = (t: TypeNode) => typeArgs.length > 0 ? this.substituteTypeParams(t, paramMap) : t;
+
+      if (decl.kind === "type_alias") {
+        return this.resolveObjectShape(substitute(decl.type), visited);
+      }
+      if (decl.kind !== "interface" && decl.kind !== "class") return null;
+
+      const shapes: Extract<TypeNode, { kind: "object" }>[] = [];
+      for (const parent of decl.extends ?? []) {
+        const shape = this.resolveObjectShape(substitute(parent), visited);
+        if (!shape) return null;
+        shapes.push(shape);
+      }
+      shapes.push(substitute({
+        kind: "object",
+        properties: decl.properties,
+        indexSignature: decl.indexSignature,
+      }) as Extract<TypeNode, { kind: "object" }>);
+      return this.mergeObjectShapes(shapes);
+    } finally {
+      visited.delete(node.name);
+    }
+  }
+
+  /** Merges object shapes in order; a later property replaces an earlier one of the same name. */
+  private mergeObjectShapes(shapes: Extract<TypeNode, { kind: "object" }>[]): Extract<TypeNode, { kind: "object" }> {
+    const properties: PropertyNode[] = [];
+    let indexSignature: IndexSignatureNode | undefined;
+    for (const shape of shapes) {
+      for (const prop of shape.properties) {
+        const existing = properties.findIndex(p => p.name === prop.name);
+        if (existing >= 0) properties[existing] = prop;
+        else properties.push(prop);
+      }
+      indexSignature = shape.indexSignature ?? indexSignature;
+    }
+    return { kind: "object", properties, indexSignature };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Decorator application
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Applies member decorators through the handler table and returns whether
+   * the property ends up optional. A trailing `{ each: true }` options
+   * argument applies the decorator to the array's items instead.
+   * Unknown decorators are ignored.
+   */
+  private applyDecorators(schema: JSONSchema, decorators: DecoratorNode[], optional: boolean): boolean {
+    for (const decorator of decorators) {
+      const handler = this.decoratorHandlers.get(decorator.name);
+      if (!handler) continue;
+
+      const last = decorator.args[decorator.args.length - 1];
+      const each = typeof last === "object" && last !== null && (last as { each?: unknown }).each === true;
+      const target = each && schema.items ? schema.items : schema;
+
+      handler(target, {
+        args: decorator.args,
+        setOptional: (value) => { optional = value; },
+      });
+    }
+    return optional;
   }
 
   // ---------------------------------------------------------------------------
@@ -9,18 +9,31 @@
 // string directly, making it fast, portable, and dependency-free.
 //
 // Supported constructs:
-//   - interface declarations (with extends)
+//   - interface declarations (with extends, as allOf or flattened), merged
+//     when declared twice or augmented in declare global / declare module "x"
+//   - class declarations (public fields and parameter properties)
+//   - class-validator decorators → constraints (@IsEmail, @Min, @IsOptional, ...)
 //   - type alias declarations
 //   - enum declarations (string and numeric)
 //   - Primitives: string, number, boolean, null, undefined, any, unknown, etc.
 //   - Literal types: "foo", 42, true
-//   - Union types: A | B | C
-//   - Intersection types: A & B
+//   - Union types: A | B | C (discriminated → oneOf + discriminator or if/then)
+//   - Intersection types: A & B (optionally merged into one object)
 //   - Array types: T[] and Array<T>
 //   - Tuple types: [string, number] (including named and rest elements)
 //   - Inline object types: { foo: string; bar: number }
 //   - Record<K, V>
 //   - Utility types: Partial<T>, Required<T>, Pick<T, K>, Omit<T, K>, Readonly<T>
+//   - Exclude, Extract, NonNullable, Awaited, ReturnType, Parameters,
+//     Uppercase, Lowercase, Capitalize, Uncapitalize
+//   - keyof T → enum of property names
+//   - Indexed access: T["prop"], T[number], T[keyof T]
+//   - typeof on literal const initializers (incl. `as const`) and enums
+//   - Conditional types with infer: T extends U ? X : Y
+//   - Mapped types with modifiers and `as` key remapping
+//   - Template literal types → anchored regex pattern
+//   - Generic instantiations, optionally as named $defs: Paginated_User
+//   - Namespaces (nested/dotted) → qualified names: Api.User
 //   - Nullable: string | null
 //   - Index signatures: [key: string]: ValueType
 //   - JSDoc comments → description + tags (@minimum, @pattern, @format, etc.)
@@ -29,6 +42,13 @@
 //   - Set<T> → array with uniqueItems
 //   - Map<K, V> → object with additionalProperties
 //   - Promise<T> → unwrapped to T
+//   - Output as 2020-12, draft-07, draft-04 or OpenAPI 3.0 (target option)
+//   - OpenAPI 3.1 documents with all types under components/schemas
+//   - JSON Type Definition (RFC 8927) output via JtdEmitter
+//   - Zod schema source generation via ZodGenerator
+//   - Standalone validator functions (no Ajv) via ValidatorGenerator
+//   - `isUser(x): x is User` type guard generation via TypeGuardGenerator
+//   - Seeded sample data and one-violation invalid cases via SampleGenerator
 //
 // ============================================================================
 
@@ -41,10 +61,34 @@ export { Emitter } from "./emitter.js";
 export type { JSONSchema, EmitterOptions } from "./emitter.js";
 
 export type {
-  TypeNode, PropertyNode, Declaration,
-  InterfaceDeclaration, TypeAliasDeclaration, EnumDeclaration,
+  TypeNode, PropertyNode, DecoratorNode, Declaration,
+  InterfaceDeclaration, TypeAliasDeclaration, EnumDeclaration, ConstDeclaration, ClassDeclaration,
 } from "./ast.js";
 
+export { convertSchemaToTarget, targetSchemaUris } from "./targets.js";
+export type { SchemaTarget, UnsupportedKeywordHandler } from "./targets.js";
+
+export { buildOpenApiDocument } from "./openapi.js";
+export type { OpenApiDocument, OpenApiOptions } from "./openapi.js";
+
+export { JtdEmitter, JtdError } from "./jtd.js";
+export type { JtdSchema, JtdType, JtdOptions } from "./jtd.js";
+
+export { ZodGenerator } from "./zod.js";
+export type { ZodOptions } from "./zod.js";
+
+export { ValidatorGenerator } from "./validator.js";
+export type { ValidatorOptions } from "./validator.js";
+
+export { TypeGuardGenerator } from "./type-guards.js";
+export type { TypeGuardOptions } from "./type-guards.js";
+
+export { SampleGenerator } from "./samples.js";
+export type { SampleOptions, InvalidSample } from "./samples.js";
+
+export { classValidatorDecorators } from "./decorators.js";
+export type { DecoratorHandler, DecoratorContext } from "./decorators.js";
+
 export { ModuleResolver } from "./module-resolver.js";
 export type { ResolvedModule } from "./module-resolver.js";
 
@@ -60,6 +104,12 @@ import { Parser } from "./parser.js";
 import { Emitter, type JSONSchema, type EmitterOptions } from "./emitter.js";
 import { ModuleResolver } from "./module-resolver.js";
 import { expandGlob } from "./path-utils.js";
+import { buildOpenApiDocument, type OpenApiDocument, type OpenApiOptions } from "./openapi.js";
+import { JtdEmitter, type JtdSchema, type JtdOptions } from "./jtd.js";
+import { ZodGenerator, type ZodOptions } from "./zod.js";
+import { ValidatorGenerator, type ValidatorOptions } from "./validator.js";
+import { TypeGuardGenerator, type TypeGuardOptions } from "./type-guards.js";
+import { SampleGenerator, type SampleOptions, type InvalidSample } from "./samples.js";
 import type { Declaration } from "./ast.js";
 
 /**
@@ -84,6 +134,181 @@ export function toJsonSchema(source: string, options?: EmitterOptions): JSONSche
   return emitter.emit();
 }
 
+/**
+ * Convert TypeScript source to a JSON Type Definition (RFC 8927) schema.
+ * Throws a JtdError for types JTD has no form for, such as tuples or unions
+ * without a discriminator.
+ *
+ * @example
+ * ```ts
+ * const schema = toJtd(`
+ *   interface User { name: string; age?: number; }
+ * `, { rootType: "User" });
+ * // { properties: { name: { type: "string" } }, optionalProperties: { age: { type: "float64" } }, additionalProperties: true }
+ * ```
+ */
+export function toJtd(source: string, options?: JtdOptions): JtdSchema {
+  const emitter = new JtdEmitter(parseDeclarations(source), options);
+  return emitter.emit();
+}
+
+/**
+ * Generates the source of a TypeScript module with one exported Zod schema
+ * (`UserSchema`, ...) per type in the source. The module imports `zod`;
+ * this package doesn't.
+ *
+ * @example
+ * ```ts
+ * fs.writeFileSync("schemas.zod.ts", toZod(`
+ *   interface User {
+ *     /** @format email *\/
+ *     email: string;
+ *   }
+ * `));
+ * // export const UserSchema = z.object({ email: z.string().email() });
+ * ```
+ */
+export function toZod(source: string, options?: ZodOptions): string {
+  const generator = new ZodGenerator(parseDeclarations(source), options);
+  return generator.generate();
+}
+
+/**
+ * Generates the source of a dependency-free module with one
+ * `validateUser(data): { valid, errors }` function per type in the source.
+ * Errors carry JSON-pointer paths. Set `language: "javascript"` for plain JS.
+ *
+ * @example
+ * ```ts
+ * fs.writeFileSync("validators.ts", toValidators(`
+ *   interface User { name: string; age?: number; }
+ * `));
+ * // validateUser({ age: "x" }).errors →
+ * // [{ path: "", keyword: "required", ... }, { path: "/age", keyword: "type", message: "must be number" }]
+ * ```
+ */
+export function toValidators(source: string, options?: ValidatorOptions): string {
+  const generator = new ValidatorGenerator(parseDeclarations(source), options);
+  return generator.generate();
+}
+
+/**
+ * Generates the source of a TypeScript module with one exported
+ * `isUser(x: unknown): x is User` guard per exported type in the source.
+ * The types are imported with `import type` from `typesModule`.
+ *
+ * @example
+ * ```ts
+ * fs.writeFileSync("src/guards.ts", toTypeGuards(`
+ *   export interface User { name: string; role: "admin" | "user"; }
+ * `, { typesModule: "./user" }));
+ * // import type { User } from "./user";
+ * // export function isUser(x: unknown): x is User { ... }
+ * ```
+ */
+export function toTypeGuards(source: string, options?: TypeGuardOptions): string {
+  const generator = new TypeGuardGenerator(parseDeclarations(source), options);
+  return generator.generate();
+}
+
+/**
+ * File-based version of toTypeGuards(): collects the types of all files
+ * (following imports as configured) and imports each type from the file
+ * that declares it, relative to `outFile`.
+ */
+export function toTypeGuardsFromFiles(
+  filePaths: string[],
+  options?: TypeGuardOptions & Pick<EmitterOptions, 'followImports' | 'baseDir'>
+): string {
+  const { followImports, baseDir, ...guardOptions } = options || {};
+  const declarations = declarationsFromFiles(filePaths, {
+    followImports,
+    baseDir,
+    onDuplicateDeclarations: guardOptions.onDuplicateDeclarations,
+  });
+  const generator = new TypeGuardGenerator(declarations, guardOptions);
+  return generator.generate();
+}
+
+/**
+ * Generates `count` deterministic sample values per type in the source (or
+ * for `rootType` only). The same `seed` always gives the same samples.
+ *
+ * @example
+ * ```ts
+ * const samples = toSamples(`
+ *   interface User {
+ *     /** @format email *\/
+ *     email: string;
+ *     /**
+ *      * @minimum 18
+ *      * @maximum 99
+ *      *\/
+ *     age: number;
+ *   }
+ * `, { count: 2, seed: 7 });
+ * // samples.User → [{ email: "consectetur.sit@example.com", age: 62.72 }, { ... }]
+ * ```
+ */
+export function toSamples(
+  source: string,
+  options?: EmitterOptions & SampleOptions & { count?: number }
+): Record<string, unknown[]> {
+  const { count, ...rest } = options || {};
+  return samplesOf(parseDeclarations(source), rest, (generator, name) => generator.generate(count ?? 1, name));
+}
+
+/**
+ * File-based version of toSamples(): samples the types of all files,
+ * following imports as configured.
+ */
+export function toSamplesFromFiles(
+  entries: string | string[],
+  options?: EmitterOptions & SampleOptions & { count?: number }
+): Record<string, unknown[]> {
+  const { count, ...rest } = options || {};
+  const filePaths = typeof entries === "string" ? expandGlob(entries) : entries;
+  return samplesOf(declarationsFromFiles(filePaths, rest), rest, (generator, name) => generator.generate(count ?? 1, name));
+}
+
+/**
+ * Generates negative test cases per type in the source (or for `rootType`
+ * only): payloads that each break exactly one constraint, labeled with what
+ * they violate. Meant for contract tests that expect a rejection.
+ *
+ * @example
+ * ```ts
+ * const cases = toInvalidSamples(`
+ *   interface User {
+ *     name: string;
+ *     /** @minimum 18 *\/
+ *     age: number;
+ *   }
+ * `, { strictObjects: true });
+ * // cases.User.map(c => c.label) →
+ * // ['wrong type (expected object, got string)', 'missing required property "name"', ...,
+ * //  'unexpected property "unexpectedProperty"', ..., '/age: 17 is below minimum 18']
+ * ```
+ */
+export function toInvalidSamples(
+  source: string,
+  options?: EmitterOptions & SampleOptions
+): Record<string, InvalidSample[]> {
+  return samplesOf(parseDeclarations(source), options || {}, (generator, name) => generator.generateInvalid(name));
+}
+
+/**
+ * File-based version of toInvalidSamples(): covers the types of all files,
+ * following imports as configured.
+ */
+export function toInvalidSamplesFromFiles(
+  entries: string | string[],
+  options?: EmitterOptions & SampleOptions
+): Record<string, InvalidSample[]> {
+  const filePaths = typeof entries === "string" ? expandGlob(entries) : entries;
+  return samplesOf(declarationsFromFiles(filePaths, options), options || {}, (generator, name) => generator.generateInvalid(name));
+}
+
 /**
  * Generates JSON schemas for all top-level type definitions in the source.
  *
@@ -260,6 +485,70 @@ export function toJsonSchemasFromFiles(
 
   if (filePaths.length === 0) return {};
 
+  const emitter = new Emitter(declarationsFromFiles(filePaths, options), options || {});
+  return emitter.emitAll();
+}
+
+/**
+ * Generates an OpenAPI 3.1 document with every type under `components/schemas`.
+ *
+ * `$ref`s point at `#/components/schemas/Name` (named by `defineNameTransform`
+ * when given). Pass `mergeInto` to add the schemas to an existing document
+ * instead of a new skeleton.
+ *
+ * @example
+ * ```ts
+ * const doc = toOpenApiDocument(`
+ *   export interface User { id: string; }
+ *   export interface Post { author: User; }
+ * `, { info: { title: "Blog", version: "2.0.0" } });
+ * // doc.components.schemas.Post.properties.author → { $ref: "#/components/schemas/User" }
+ * ```
+ */
+export function toOpenApiDocument(
+  source: string,
+  options?: Omit<EmitterOptions, 'rootType'> & OpenApiOptions
+): OpenApiDocument {
+  const { info, mergeInto, ...emitterOptions } = options || {};
+  const emitter = new Emitter(parseDeclarations(source), emitterOptions);
+  return buildOpenApiDocument(emitter.emitComponents(), { info, mergeInto });
+}
+
+/**
+ * File-based version of toOpenApiDocument(): collects the types of all
+ * matching files (following imports like toJsonSchemasFromFiles()).
+ */
+export function toOpenApiDocumentFromFiles(
+  entries: string | string[],
+  options?: Omit<EmitterOptions, 'rootType'> & OpenApiOptions
+): OpenApiDocument {
+  const { info, mergeInto, ...emitterOptions } = options || {};
+  const filePaths = typeof entries === "string" ? expandGlob(entries) : entries;
+  const emitter = new Emitter(declarationsFromFiles(filePaths, emitterOptions), emitterOptions);
+  return buildOpenApiDocument(emitter.emitComponents(), { info, mergeInto });
+}
+
+function samplesOf<T>(
+  declarations: Declaration[],
+  options: EmitterOptions & SampleOptions,
+  generate: (generator: SampleGenerator, name: string) => T
+): Record<string, T> {
+  const { seed, maxDepth, useExamples, rootType, ...emitterOptions } = options;
+  const schema = new Emitter(declarations, { ...emitterOptions, includeSchema: false }).emit();
+  const generator = new SampleGenerator(schema, { seed, maxDepth, useExamples });
+  const defs = (schema.$defs ?? schema.definitions ?? {}) as Record<string, JSONSchema>;
+
+  const samples: Record<string, T> = {};
+  for (const name of rootType ? [rootType] : Object.keys(defs)) {
+    samples[name] = generate(generator, name);
+  }
+  return samples;
+}
+
+function declarationsFromFiles(
+  filePaths: string[],
+  options?: Omit<EmitterOptions, 'rootType'>
+): Declaration[] {
   const followMode = options?.followImports ?? "none";
   const baseDir = options?.baseDir ?? process.cwd();
 
@@ -277,8 +566,7 @@ export function toJsonSchemasFromFiles(
       }
       allDeclarations.push(...declarations);
     }
-    const emitter = new Emitter(allDeclarations, options || {});
-    return emitter.emitAll();
+    return allDeclarations;
   }
 
   // Multi-file mode with import resolution
@@ -287,7 +575,5 @@ export function toJsonSchemasFromFiles(
     baseDir,
     onDuplicateDeclarations: options?.onDuplicateDeclarations,
   });
-  const declarations = resolver.resolveFromEntries(filePaths);
-  const emitter = new Emitter(declarations, options || {});
-  return emitter.emitAll();
+  return resolver.resolveFromEntries(filePaths);
 }
@@ -0,0 +1,281 @@
+// ============================================================================
+// JTD - JSON Type Definition (RFC 8927) backend
+// ============================================================================
+//
+// Declarations are emitted by the JSON Schema Emitter first (with extends
+// chains flattened, object intersections merged and discriminated unions as
+// oneOf), so utility types, generics, mapped and conditional types resolve
+// exactly as they do for JSON Schema. The resulting schema is then mapped to
+// the eight JTD forms. Anything without a JTD form is a JtdError naming the
+// offending location; validation keywords JTD has no notion of (minimum,
+// pattern, format other than date-time, ...) are left out.
+
+import type { Declaration } from "./ast.js";
+import { Emitter, type EmitterOptions, type JSONSchema } from "./emitter.js";
+import { refName } from "./codegen.js";
+
+export interface JtdSchema {
+  ref?: string;
+  type?: JtdType;
+  enum?: string[];
+  elements?: JtdSchema;
+  properties?: Record<string, JtdSchema>;
+  optionalProperties?: Record<string, JtdSchema>;
+  additionalProperties?: boolean;
+  values?: JtdSchema;
+  discriminator?: string;
+  mapping?: Record<string, JtdSchema>;
+  nullable?: boolean;
+  metadata?: { description?: string; [key: string]: unknown };
+  definitions?: Record<string, JtdSchema>;
+}
+
+export type JtdType =
+  | "boolean" | "string" | "timestamp" | "float32" | "float64"
+  | "int8" | "uint8" | "int16" | "uint16" | "int32" | "uint32";
+
+export type JtdOptions = Pick<
+  EmitterOptions,
+  | "rootType" | "includeJSDoc" | "strictObjects" | "additionalProperties"
+  | "onDuplicateDeclarations" | "onUnresolvedReferences" | "defineNameTransform"
+  | "namedGenericInstantiations" | "genericInstantiationName" | "decorators"
+>;
+
+/** A type that has no JSON Type Definition form. `path` locates it, e.g. `Order.items[]`. */
+export class JtdError extends Error {
+  constructor(message: string, public path: string) {
+    super(`${message} (at ${path})`);
+  }
+}
+
+export class JtdEmitter {
+  private emitter: Emitter;
+  private rootType: string;
+  private defs: Record<string, JSONSchema> = {};
+
+  constructor(declarations: Declaration[], options: JtdOptions = {}) {
+    this.rootType = options.rootType ?? "";
+    this.emitter = new Emitter(declarations, {
+      ...options,
+      includeSchema: false,
+      extendsStrategy: "flatten",
+      mergeIntersections: true,
+      discriminatedUnions: "oneOf",
+      markRuntimeTypes: true,
+    });
+  }
+
+  /**
+   * Emits the root type with the types it references under `definitions`,
+   * or, without `rootType`, an empty form carrying every type as a definition.
+   */
+  emit(): JtdSchema {
+    const { $defs, ...root } = this.emitter.emit();
+    this.defs = ($defs as Record<string, JSONSchema> | undefined) ?? {};
+
+    const result: JtdSchema = this.rootType ? this.convert(root, this.rootType) : {};
+    const names = this.rootType ? this.reachableDefinitions(root) : Object.keys(this.defs);
+    if (names.length > 0) {
+      result.definitions = {};
+      for (const name of names) {
+        result.definitions[name] = this.convert(this.defs[name], name);
+      }
+    }
+    return result;
+  }
+
+  /** Names of the definitions a schema references, directly or through other definitions. */
+  private reachableDefinitions(root: JSONSchema): string[] {
+    const seen = new Set<string>();
+    const walk = (node: unknown): void => {
+      if (typeof node !== "object" || node === null) return;
+      const name = refName((node as JSONSchema).$ref);
+      if (name !== undefined && !seen.has(name) && this.defs[name]) {
+        seen.add(name);
+        walk(this.defs[name]);
+      }
+      for (const value of Object.values(node)) walk(value);
+    };
+    walk(root);
+    return Object.keys(this.defs).filter(name => seen.has(name));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Schema → JTD form
+  // ---------------------------------------------------------------------------
+
+  private convert(schema: JSONSchema, path: string): JtdSchema {
+    const form = this.convertForm(schema, path);
+    if (typeof schema.description === "string") {
+      form.metadata = { ...form.metadata, description: schema.description };
+    }
+    return form;
+  }
+
+  private convertForm(schema: JSONSchema, path: string): JtdSchema {
+    if (schema.$ref !== undefined) {
+      const name = refName(schema.$ref);
+      if (name === undefined) throw new JtdError(`JTD can't express the reference "${schema.$ref}"`, path);
+      return { ref: name };
+    }
+
+    if (schema.allOf) {
+      throw new JtdError("JTD can't express an intersection that doesn't merge into one object", path);
+    }
+
+    if (schema.oneOf || schema.anyOf) {
+      return this.convertUnion((schema.oneOf ?? schema.anyOf)!, schema.discriminator, path);
+    }
+
+    if (schema.not) {
+      throw new JtdError("JTD can't express never", path);
+    }
+
+    if (schema.const !== undefined) {
+      if (typeof schema.const !== "string") {
+        throw new JtdError(`JTD can't express the literal type ${JSON.stringify(schema.const)}; only string literals map to enum`, path);
+      }
+      return { enum: [schema.const] };
+    }
+
+    if (schema.enum) {
+      const values = schema.enum.filter(v => v !== null);
+      if (!values.every((v): v is string => typeof v === "string")) {
+        throw new JtdError(`JTD enums must be strings, got ${values.map(v => JSON.stringify(v)).join(" | ")}`, path);
+      }
+      const form: JtdSchema = { enum: values };
+      if (values.length < schema.enum.length) form.nullable = true;
+      return form;
+    }
+
+    let type = schema.type;
+    let nullable = false;
+    if (Array.isArray(type)) {
+      const types = type.filter(t => t !== "null");
+      nullable = types.length < type.length;
+      if (types.length > 1) {
+        throw new JtdError(`JTD can't express the union ${types.join(" | ")}; only discriminated object unions and string literal unions have a form`, path);
+      }
+      type = types[0];
+    }
+
+    const form = this.convertType(type, schema, path);
+    if (nullable) form.nullable = true;
+    return form;
+  }
+
+  private convertType(type: string | undefined, schema: JSONSchema, path: string): JtdSchema {
+    switch (type) {
+      case undefined:
+        return {}; // any / unknown
+      case "string":
+        return { type: schema.format === "date-time" ? "timestamp" : "string" };
+      case "number":
+        return { type: "float64" };
+      case "integer":
+        if (schema["x-ts-type"] === "bigint") {
+          throw new JtdError("JTD has no integer type wider than 32 bits for bigint", path);
+        }
+        return { type: "int32" };
+      case "boolean":
+        return { type: "boolean" };
+      case "null":
+        throw new JtdError("JTD can't express a value that is only null", path);
+      case "array":
+        if (schema.prefixItems) {
+          throw new JtdError("JTD can't express tuple types; use an array or an object", path);
+        }
+        return { elements: schema.items ? this.convert(schema.items, `${path}[]`) : {} };
+      case "object":
+        return this.convertObject(schema, path);
+      default:
+        throw new JtdError(`JTD can't express the type "${type}"`, path);
+    }
+  }
+
+  private convertObject(schema: JSONSchema, path: string): JtdSchema {
+    const properties = schema.properties ?? {};
+    const additional = schema.additionalProperties;
+
+    if (typeof additional === "object") {
+      if (Object.keys(properties).length > 0) {
+        throw new JtdError("JTD can't express an object with both named properties and an index signature", path);
+      }
+      return { values: this.convert(additional, `${path}[string]`) };
+    }
+
+    const required = new Set(schema.required ?? []);
+    const form: JtdSchema = {};
+    for (const [name, prop] of Object.entries(properties)) {
+      const converted = this.convert(prop, `${path}.${name}`);
+      if (required.has(name)) {
+        if (!form.properties) form.properties = {};
+        form.properties[name] = converted;
+      } else {
+        if (!form.optionalProperties) form.optionalProperties = {};
+        form.optionalProperties[name] = converted;
+      }
+    }
+    if (!form.properties && !form.optionalProperties) form.properties = {};
+
+    // JTD rejects unknown properties unless told otherwise; JSON Schema accepts them
+    if (additional !== false) form.additionalProperties = true;
+    return form;
+  }
+
+  /**
+   * A union has a JTD form when it's a discriminated union of objects
+   * (discriminator + mapping) or a union of string literals (enum), either
+   * one optionally `| null`.
+   */
+  private convertUnion(
+    members: JSONSchema[],
+    discriminator: unknown,
+    path: string
+  ): JtdSchema {
+    const nonNull = members.filter(m => !(m.type === "null" && Object.keys(m).length === 1));
+    const nullable = nonNull.length < members.length;
+
+    let form: JtdSchema;
+    if (nonNull.length === 1) {
+      form = this.convert(nonNull[0], path);
+    } else if (typeof discriminator === "object" && discriminator !== null) {
+      form = this.convertDiscriminated(nonNull, (discriminator as { propertyName: string }).propertyName, path);
+    } else if (nonNull.every(m => typeof m.const === "string")) {
+      form = { enum: nonNull.map(m => m.const as string) };
+    } else {
+      throw new JtdError(
+        "JTD can't express a union unless its members are string literals or objects " +
+        "sharing a required string literal property (a discriminator)",
+        path
+      );
+    }
+
+    if (nullable) form.nullable = true;
+    return form;
+  }
+
+  private convertDiscriminated(members: JSONSchema[], propertyName: string, path: string): JtdSchema {
+    const mapping: Record<string, JtdSchema> = {};
+
+    for (const member of members) {
+      const name = refName(member.$ref);
+      const target = name !== undefined ? this.defs[name] : member;
+      const tag = target?.properties?.[propertyName]?.const ?? target?.properties?.[propertyName]?.enum?.[0];
+      if (typeof tag !== "string") {
+        throw new JtdError(`JTD discriminator "${propertyName}" must be a string literal in every member`, path);
+      }
+
+      // Mapping values are the members' properties forms, without the discriminator
+      const { [propertyName]: _, ...properties } = target.properties!;
+      const stripped: JSONSchema = {
+        ...target,
+        properties,
+        required: (target.required ?? []).filter(p => p !== propertyName),
+      };
+      mapping[tag] = this.convert(stripped, `${path}<${tag}>`);
+    }
+
+    return { discriminator: propertyName, mapping };
+  }
+}
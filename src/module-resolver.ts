@@ -125,25 +125,31 @@ export class ModuleResolver {
 
   private mergeDeclarations(): Declaration[] {
     const allDeclarations: Declaration[] = [];
-    const nameMap = new Map<string, string>();  // name → filePath
+    const nameMap = new Map<string, { filePath: string; decl: Declaration }>();
     const duplicateMode = this.options.onDuplicateDeclarations ?? "error";
 
     for (const [filePath, module] of this.modules) {
       for (const decl of module.declarations) {
-        // Detect name collisions
-        const existing = nameMap.get(decl.name);
-        if (existing && existing !== filePath) {
-          const errorMsg = `Duplicate declaration "${decl.name}" found in:\n  ${existing}\n  ${filePath}`;
+        // Detect name collisions. Consts live in the value namespace, so a
+        // const and a type may share a name.
+        const key = decl.kind === "const" ? `value:${decl.name}` : decl.name;
+        const existing = nameMap.get(key);
+        // An interface augmented from another file (declare global / declare
+        // module) may merge with it instead; the Emitter decides
+        const merges = existing?.decl.kind === "interface" && decl.kind === "interface" &&
+          (existing.decl.augments !== undefined || decl.augments !== undefined);
+        if (existing && existing.filePath !== filePath && !merges) {
+          const errorMsg = `Duplicate declaration "${decl.name}" found in:\n  ${existing.filePath}\n  ${filePath}`;
 
           if (duplicateMode === "error") {
             throw new Error(errorMsg);
           } else if (duplicateMode === "warn") {
-            console.warn(`[ts-source-to-json-schema] Warning: ${errorMsg}\nUsing first declaration from: ${existing}`);
+            console.warn(`[ts-source-to-json-schema] Warning: ${errorMsg}\nUsing first declaration from: ${existing.filePath}`);
           }
           // For both 'warn' and 'silent', skip the duplicate (keep first)
           continue;
         }
-        nameMap.set(decl.name, filePath);
+        if (!existing) nameMap.set(key, { filePath, decl });
 
         // Attach source file path to declaration
         const declWithFile: Declaration = { ...decl, sourceFile: filePath };
@@ -151,6 +157,7 @@ export class ModuleResolver {
       }
     }
 
+    // Same-named interfaces are merged by the Emitter
     return allDeclarations;
   }
 }
@@ -0,0 +1,56 @@
+// ============================================================================
+// OpenAPI - Wraps component schemas in an OpenAPI 3.1 document
+// ============================================================================
+
+import type { JSONSchema } from "./emitter.js";
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; [key: string]: unknown };
+  paths?: Record<string, unknown>;
+  components?: { schemas?: Record<string, JSONSchema>; [key: string]: unknown };
+  [key: string]: unknown;
+}
+
+export interface OpenApiOptions {
+  /** `info` of a new document. Default: { title: "API", version: "1.0.0" } */
+  info?: { title?: string; version?: string };
+  /**
+   * Existing document to add the schemas to. Everything else in it (paths,
+   * other components, info) is kept; schemas of the same name are replaced.
+   */
+  mergeInto?: OpenApiDocument;
+}
+
+/**
+ * Places component schemas under `components/schemas` of a new OpenAPI 3.1
+ * document skeleton, or of a copy of `options.mergeInto`.
+ */
+export function buildOpenApiDocument(
+  schemas: Record<string, JSONSchema>,
+  options: OpenApiOptions = {}
+): OpenApiDocument {
+  const existing = options.mergeInto;
+  if (existing !== undefined) {
+    if (typeof existing !== "object" || existing === null || typeof existing.openapi !== "string") {
+      throw new Error(`Cannot merge into a document without an "openapi" version field`);
+    }
+    return {
+      ...existing,
+      components: {
+        ...existing.components,
+        schemas: { ...existing.components?.schemas, ...schemas },
+      },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: options.info?.title ?? "API",
+      version: options.info?.version ?? "1.0.0",
+    },
+    paths: {},
+    components: { schemas },
+  };
+}
@@ -2,10 +2,11 @@
 // Parser - Recursive descent parser for TypeScript type declarations
 // ============================================================================
 
-import type { Token, TokenType } from "./tokenizer.js";
+import { tokenize, type Token, type TokenType } from "./tokenizer.js";
 import type {
   Declaration, TypeNode, PropertyNode, InterfaceDeclaration,
-  TypeAliasDeclaration, EnumDeclaration, IndexSignatureNode, TupleElement,
+  TypeAliasDeclaration, EnumDeclaration, ConstDeclaration, ClassDeclaration,
+  IndexSignatureNode, TupleElement, DecoratorNode,
 } from "./ast.js";
 
 export class ParseError extends Error {
@@ -17,6 +18,10 @@ export class ParseError extends Error {
 export class Parser {
   private pos = 0;
   private pendingJSDoc: { description: string; tags: Record<string, string> } | null = null;
+  /** Names declared in each namespace body, keyed by qualified path. Pre-scanned so forward references resolve. */
+  private namespaceMembers = new Map<string, Set<string>>();
+  /** Qualified paths of the namespaces being parsed, innermost last. */
+  private namespaceStack: string[] = [];
 
   constructor(private tokens: Token[]) {}
 
@@ -100,10 +105,25 @@ export class Parser {
   // ---------------------------------------------------------------------------
 
   parse(): Declaration[] {
+    this.scanNamespaces();
+    return this.parseStatements();
+  }
+
+  /**
+   * Parses declarations until end of input, or until the closing `}` when
+   * inside a block body. Declarations in a namespace get qualified names.
+   */
+  private parseStatements(inBlock = false): Declaration[] {
     const declarations: Declaration[] = [];
+    const namespacePath = this.namespaceStack[this.namespaceStack.length - 1];
+    const push = (decl: Declaration) => {
+      if (namespacePath) decl.name = `${namespacePath}.${decl.name}`;
+      declarations.push(decl);
+    };
 
     while (!this.is("eof")) {
       this.skipNewlines();
+      if (inBlock && this.is("punctuation", "}")) break;
 
       // Collect JSDoc
       if (this.is("jsdoc")) {
@@ -112,6 +132,12 @@ export class Parser {
         continue;
       }
 
+      // Class decorators (@Entity()) don't affect the schema
+      if (this.is("decorator")) {
+        this.advance();
+        continue;
+      }
+
       // Skip import statements
       if (this.is("keyword", "import")) {
         this.advance(); // consume 'import'
@@ -139,24 +165,38 @@ export class Parser {
       this.match("keyword", "abstract");
 
       if (this.is("keyword", "interface")) {
-        declarations.push(this.parseInterface(exported));
+        push(this.parseInterface(exported));
       } else if (this.is("keyword", "type")) {
-        declarations.push(this.parseTypeAlias(exported));
+        push(this.parseTypeAlias(exported));
       } else if (this.is("keyword", "enum") || (this.is("keyword", "const") && this.peekAhead("keyword", "enum"))) {
-        declarations.push(this.parseEnum(exported));
-      } else if (this.is("keyword", "module") || this.is("keyword", "namespace")) {
-        // Skip: declare module "name" { ... } / declare namespace X { ... }
-        this.advance(); // consume 'module' or 'namespace'
+        push(this.parseEnum(exported));
+      } else if (this.is("keyword", "namespace") || (this.is("keyword", "module") && this.peekAhead("identifier"))) {
+        // namespace A.B { ... } (and legacy `module A { ... }`)
+        declarations.push(...this.parseNamespace());
+      } else if (this.is("keyword", "module") && this.peekAhead("string")) {
+        // declare module "name" { ... } augments that module's declarations
+        this.advance(); // consume 'module'
+        const moduleName = this.advance().value;
+        declarations.push(...this.parseAugmentation(moduleName));
+      } else if (this.is("identifier", "global") && this.peekAhead("punctuation", "{")) {
+        // declare global { ... }
+        this.advance(); // consume 'global'
+        declarations.push(...this.parseAugmentation("global"));
+      } else if (this.is("keyword", "module")) {
+        // Skip anything else introduced by 'module'
+        this.advance(); // consume 'module'
         this.skipBlock();
       } else if (this.is("keyword", "function")) {
         // Skip: declare function foo(...): T;
         this.advance(); // consume 'function'
         this.skipStatement();
       } else if (this.is("keyword", "class")) {
-        // Skip: declare class Foo { ... }
-        this.advance(); // consume 'class'
-        this.skipBlock();
-      } else if (this.is("keyword", "var") || this.is("keyword", "let") || this.is("keyword", "const")) {
+        push(this.parseClass(exported));
+      } else if (this.is("keyword", "const")) {
+        // const with a literal initializer is captured for `typeof`; anything else is skipped
+        const decl = this.parseConstDeclaration(exported);
+        if (decl) push(decl);
+      } else if (this.is("keyword", "var") || this.is("keyword", "let")) {
         // Skip: declare const/var/let foo: T;
         this.advance(); // consume var/let/const
         this.skipStatement();
@@ -169,6 +209,154 @@ export class Parser {
     return declarations;
   }
 
+  // ---------------------------------------------------------------------------
+  // Namespaces
+  // ---------------------------------------------------------------------------
+
+  private parseNamespace(): Declaration[] {
+    this.advance(); // consume 'namespace' or 'module'
+    const segments = [this.expect("identifier").value];
+    while (this.match("punctuation", ".")) {
+      segments.push(this.expect("identifier").value);
+    }
+    this.pendingJSDoc = null;
+
+    const outer = this.namespaceStack[this.namespaceStack.length - 1];
+    const path = outer ? `${outer}.${segments.join(".")}` : segments.join(".");
+
+    // Ambient shorthand without a body: declare namespace X;
+    if (!this.match("punctuation", "{")) {
+      this.match("punctuation", ";");
+      return [];
+    }
+
+    this.namespaceStack.push(path);
+    try {
+      return this.parseStatements(true);
+    } finally {
+      this.namespaceStack.pop();
+      this.match("punctuation", "}");
+    }
+  }
+
+  /**
+   * Parses the body of `declare global { ... }` or `declare module "x" { ... }`.
+   * Declarations keep their plain names so they merge with the declarations
+   * they augment; interfaces are tagged with the augmented scope.
+   */
+  private parseAugmentation(scope: string): Declaration[] {
+    this.pendingJSDoc = null;
+
+    // Ambient shorthand without a body: declare module "x";
+    if (!this.match("punctuation", "{")) {
+      this.match("punctuation", ";");
+      return [];
+    }
+
+    const outer = this.namespaceStack;
+    this.namespaceStack = [];
+    try {
+      const declarations = this.parseStatements(true);
+      for (const decl of declarations) {
+        if (decl.kind === "interface") decl.augments = scope;
+      }
+      return declarations;
+    } finally {
+      this.namespaceStack = outer;
+      this.match("punctuation", "}");
+    }
+  }
+
+  /**
+   * Records the names declared in every namespace body before parsing, so a
+   * reference inside a namespace can be qualified even when it points to a
+   * declaration further down (or in a nested namespace).
+   */
+  private scanNamespaces(): void {
+    // Augmentation blocks (declare global / declare module "x") are open
+    // without a path: their members are not namespace members
+    const open: { path?: string; depth: number }[] = [];
+    let depth = 0;
+
+    const next = (p: number) => {
+      while (p < this.tokens.length && this.tokens[p].type === "newline") p++;
+      return p;
+    };
+
+    for (let i = 0; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type === "punctuation" && token.value === "{") { depth++; continue; }
+      if (token.type === "punctuation" && token.value === "}") {
+        if (open.length > 0 && open[open.length - 1].depth === depth) open.pop();
+        depth--;
+        continue;
+      }
+      const isGlobal = token.type === "identifier" && token.value === "global";
+      if (token.type !== "keyword" && !isGlobal) continue;
+
+      const current = open[open.length - 1];
+      const atBodyLevel = current ? current.depth === depth : depth === 0;
+      if (!atBodyLevel) continue;
+
+      let p = next(i + 1);
+      if (isGlobal || (token.value === "module" && this.tokens[p]?.type === "string")) {
+        if (!isGlobal) p = next(p + 1);
+        if (this.tokens[p]?.value === "{") {
+          depth++;
+          open.push({ depth });
+          i = p;
+        }
+        continue;
+      }
+      if (token.value === "const" && this.tokens[p]?.value === "enum") p = next(p + 1);
+      const nameToken = this.tokens[p];
+      if (nameToken?.type !== "identifier") continue;
+
+      if (token.value === "namespace" || token.value === "module") {
+        const segments = [nameToken.value];
+        p = next(p + 1);
+        while (this.tokens[p]?.value === "." && this.tokens[next(p + 1)]?.type === "identifier") {
+          p = next(p + 1);
+          segments.push(this.tokens[p].value);
+          p = next(p + 1);
+        }
+        if (this.tokens[p]?.value !== "{") continue;
+
+        // Register each segment as a member of its parent: A.B declares A, then B in A
+        let parent = current?.path;
+        for (const segment of segments) {
+          if (parent) this.addNamespaceMember(parent, segment);
+          parent = parent ? `${parent}.${segment}` : segment;
+          if (!this.namespaceMembers.has(parent)) this.namespaceMembers.set(parent, new Set());
+        }
+        depth++;
+        open.push({ path: parent!, depth });
+        i = p;
+      } else if (current?.path && ["interface", "type", "enum", "class", "const"].includes(token.value)) {
+        this.addNamespaceMember(current.path, nameToken.value);
+      }
+    }
+  }
+
+  private addNamespaceMember(path: string, name: string): void {
+    let members = this.namespaceMembers.get(path);
+    if (!members) this.namespaceMembers.set(path, members = new Set());
+    members.add(name);
+  }
+
+  /**
+   * Qualifies a name written inside a namespace body: the innermost enclosing
+   * namespace that declares the name's first segment wins.
+   */
+  private qualifyName(name: string): string {
+    const head = name.split(".")[0];
+    for (let i = this.namespaceStack.length - 1; i >= 0; i--) {
+      const path = this.namespaceStack[i];
+      if (this.namespaceMembers.get(path)?.has(head)) return `${path}.${name}`;
+    }
+    return name;
+  }
+
   private peekAhead(type: TokenType, value?: string): boolean {
     // Look ahead past current token (skipping newlines)
     let p = this.pos;
@@ -191,31 +379,41 @@ export class Parser {
     }
   }
 
-  private parseTypeParameters(): string[] | undefined {
-    // Parse generic param names: interface Foo<T, U extends Bar, V = string>
-    // Constraints and defaults are skipped; only the parameter names are kept.
-    if (!this.match("punctuation", "<")) return undefined;
+  /**
+   * Parses generic parameters: interface Foo<T, U extends Bar, V = string>.
+   * Constraints and defaults are kept per parameter name.
+   */
+  private parseTypeParameters(): {
+    typeParams?: string[];
+    typeParamConstraints?: Record<string, TypeNode>;
+    typeParamDefaults?: Record<string, TypeNode>;
+  } {
+    if (!this.match("punctuation", "<")) return {};
 
     const names: string[] = [];
-    let depth = 1;
-    let expectName = true;
+    const constraints: Record<string, TypeNode> = {};
+    const defaults: Record<string, TypeNode> = {};
 
-    while (depth > 0 && !this.is("eof")) {
-      if (this.is("punctuation", "<")) {
-        depth++;
-      } else if (this.is("punctuation", ">")) {
-        depth--;
-        if (depth === 0) { this.advance(); break; }
-      } else if (depth === 1 && this.is("punctuation", ",")) {
-        expectName = true;
-      } else if (depth === 1 && expectName && this.is("identifier")) {
-        names.push(this.peek().value);
-        expectName = false;
+    while (!this.is("punctuation", ">") && !this.is("eof")) {
+      // Variance and const modifiers: <in T>, <out T>, <const T>
+      while ((this.is("identifier", "in") || this.is("identifier", "out") || this.is("keyword", "const")) &&
+        this.peekAhead("identifier")) {
+        this.advance();
       }
-      this.advance();
+      const name = this.expect("identifier").value;
+      names.push(name);
+      if (this.match("keyword", "extends")) constraints[name] = this.parseType();
+      if (this.match("punctuation", "=")) defaults[name] = this.parseType();
+      if (!this.match("punctuation", ",")) break;
     }
+    this.expect("punctuation", ">");
 
-    return names.length > 0 ? names : undefined;
+    if (names.length === 0) return {};
+    return {
+      typeParams: names,
+      typeParamConstraints: Object.keys(constraints).length > 0 ? constraints : undefined,
+      typeParamDefaults: Object.keys(defaults).length > 0 ? defaults : undefined,
+    };
   }
 
   private isReExport(): boolean {
@@ -381,7 +579,7 @@ export class Parser {
     const name = this.expect("identifier").value;
 
     // Parse type parameters if present (e.g., <T, U>)
-    const typeParams = this.parseTypeParameters();
+    const { typeParams, typeParamConstraints, typeParamDefaults } = this.parseTypeParameters();
 
     // extends clause
     let extendsTypes: TypeNode[] | undefined;
@@ -398,7 +596,50 @@ export class Parser {
       kind: "interface",
       name,
       typeParams,
+      typeParamConstraints,
+      typeParamDefaults,
+      extends: extendsTypes,
+      properties,
+      indexSignature,
+      description: jsdoc?.description,
+      tags: jsdoc?.tags,
+      exported,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Class
+  // ---------------------------------------------------------------------------
+
+  private parseClass(exported: boolean): ClassDeclaration {
+    const jsdoc = this.consumeJSDoc();
+    this.expect("keyword", "class");
+    const name = this.expect("identifier").value;
+    const { typeParams, typeParamConstraints, typeParamDefaults } = this.parseTypeParameters();
+
+    let extendsTypes: TypeNode[] | undefined;
+    if (this.match("keyword", "extends")) {
+      extendsTypes = [this.parseType()];
+    }
+
+    let implementsTypes: TypeNode[] | undefined;
+    if (this.match("identifier", "implements")) {
+      implementsTypes = [this.parseType()];
+      while (this.match("punctuation", ",")) {
+        implementsTypes.push(this.parseType());
+      }
+    }
+
+    const { properties, indexSignature } = this.parseClassBody();
+
+    return {
+      kind: "class",
+      name,
+      typeParams,
+      typeParamConstraints,
+      typeParamDefaults,
       extends: extendsTypes,
+      implements: implementsTypes,
       properties,
       indexSignature,
       description: jsdoc?.description,
@@ -407,6 +648,299 @@ export class Parser {
     };
   }
 
+  /**
+   * Parses a class body, keeping public instance fields and constructor
+   * parameter properties. Methods, accessors, static blocks and members that
+   * are static, private, protected or `#private` are skipped.
+   */
+  private parseClassBody(): { properties: PropertyNode[]; indexSignature?: IndexSignatureNode } {
+    this.expect("punctuation", "{");
+    const properties: PropertyNode[] = [];
+    let indexSignature: IndexSignatureNode | undefined;
+
+    while (!this.is("punctuation", "}") && !this.is("eof")) {
+      this.skipNewlines();
+
+      const { jsdoc: memberJSDoc, decorators } = this.parseMemberPrelude();
+
+      this.skipNewlines();
+      if (this.is("punctuation", "}")) break;
+      if (this.match("punctuation", ";")) continue;
+
+      const modifiers = this.parseMemberModifiers();
+      const hidden = modifiers.has("private") || modifiers.has("protected") || modifiers.has("static");
+
+      // static { ... } initialization block
+      if (this.is("punctuation", "{")) {
+        this.skipBlock();
+        continue;
+      }
+
+      if (this.is("punctuation", "[")) {
+        if (this.peekIsIndexSignature()) {
+          const signature = this.parseIndexSignature();
+          if (!hidden) indexSignature = signature;
+        } else {
+          this.skipClassMember(); // computed member name
+        }
+        continue;
+      }
+
+      // get x() { ... } / set x(v) { ... }
+      if ((this.is("identifier", "get") || this.is("identifier", "set")) &&
+          (this.peekAhead("identifier") || this.peekAhead("keyword") || this.peekAhead("string") || this.peekAhead("punctuation", "["))) {
+        this.advance();
+        this.skipClassMember();
+        continue;
+      }
+
+      if (this.is("identifier", "constructor") && this.peekAhead("punctuation", "(")) {
+        this.advance();
+        properties.push(...this.parseConstructorParameterProperties());
+        if (this.is("punctuation", "{")) this.skipBlock();
+        continue;
+      }
+
+      this.match("punctuation", "*"); // generator method
+      const propName = this.advance().value; // identifier, keyword, string or #private
+      const optional = !!this.match("punctuation", "?");
+      // A definite assignment `!` is dropped by the tokenizer; the field is required either way
+
+      if (this.is("punctuation", "(") || this.is("punctuation", "<")) {
+        this.skipClassMember(); // method
+        continue;
+      }
+
+      let type: TypeNode | undefined;
+      if (this.match("punctuation", ":")) {
+        type = this.parseType();
+      }
+
+      let initializer: { value?: unknown; isFunction: boolean } | undefined;
+      if (this.match("punctuation", "=")) {
+        initializer = this.parseInitializer([";", "}"]);
+      }
+      this.match("punctuation", ";");
+
+      // Arrow function fields behave like methods
+      if (hidden || propName.startsWith("#") || initializer?.isFunction) continue;
+
+      properties.push({
+        name: propName,
+        type: type ?? this.inferInitializerType(initializer, modifiers.has("readonly")),
+        optional,
+        readonly: modifiers.has("readonly"),
+        description: memberJSDoc?.description,
+        tags: memberJSDoc?.tags,
+        defaultValue: initializer?.value,
+        decorators,
+      });
+    }
+
+    this.expect("punctuation", "}");
+    return { properties, indexSignature };
+  }
+
+  /** Collects the JSDoc comment and decorators preceding a class member, in any order. */
+  private parseMemberPrelude(): {
+    jsdoc: { description: string; tags: Record<string, string> } | null;
+    decorators?: DecoratorNode[];
+  } {
+    let jsdoc: { description: string; tags: Record<string, string> } | null = null;
+    const decorators: DecoratorNode[] = [];
+    while (this.is("jsdoc") || this.is("decorator")) {
+      const token = this.advance();
+      if (token.type === "jsdoc") jsdoc = this.parseJSDocComment(token.value);
+      else decorators.push(this.parseDecorator(token.value));
+    }
+    return { jsdoc, decorators: decorators.length > 0 ? decorators : undefined };
+  }
+
+  /** Parses the raw text of a decorator token: `Min(1)`, `Matches(/^a/i)`, `ValidateNested()`. */
+  private parseDecorator(raw: string): DecoratorNode {
+    const paren = raw.indexOf("(");
+    if (paren < 0) return { name: raw, args: [] };
+
+    const name = raw.slice(0, paren);
+    const body = raw.slice(paren + 1, raw.lastIndexOf(")"));
+
+    // Split on top-level commas
+    const parts: string[] = [];
+    let depth = 0;
+    let current = "";
+    let quote: string | null = null;
+    let inRegex = false;
+    for (let i = 0; i < body.length; i++) {
+      const c = body[i];
+      current += c;
+      if (c === "\\") { current += body[++i] ?? ""; continue; }
+      if (quote) { if (c === quote) quote = null; continue; }
+      if (inRegex) { if (c === "/") inRegex = false; continue; }
+      if (c === '"' || c === "'" || c === "`") quote = c;
+      else if (c === "/" && current.trim() === "/") inRegex = true;
+      else if ("([{".includes(c)) depth++;
+      else if (")]}".includes(c)) depth--;
+      else if (c === "," && depth === 0) {
+        parts.push(current.slice(0, -1));
+        current = "";
+      }
+    }
+    if (current.trim()) parts.push(current);
+
+    return { name, args: parts.map(part => this.parseDecoratorArgument(part.trim())) };
+  }
+
+  private parseDecoratorArgument(text: string): unknown {
+    const regex = text.match(/^\/(.*)\/([a-z]*)$/s);
+    if (regex) {
+      try { return new RegExp(regex[1], regex[2]); } catch { return undefined; }
+    }
+    const parser = new Parser(tokenize(text));
+    try {
+      const value = parser.parseConstValue();
+      return parser.is("eof") ? value : undefined;
+    } catch (err) {
+      if (err instanceof ParseError) return undefined;
+      throw err;
+    }
+  }
+
+  /**
+   * Consumes member modifiers (public, private, static, readonly, ...). A
+   * modifier word followed by `(`, `:`, `?`, `=` or `;` is the member's name.
+   */
+  private parseMemberModifiers(): Set<string> {
+    const MODIFIERS = [
+      "public", "private", "protected", "static", "readonly", "declare",
+      "override", "abstract", "accessor", "async",
+    ];
+    const modifiers = new Set<string>();
+    while (MODIFIERS.includes(this.peek().value) && this.peek().type !== "string") {
+      const p = this.nextTokenIndex(this.pos);
+      const after = this.tokens[this.nextTokenIndex(p + 1)];
+      if (!after || after.type === "eof") break;
+      if (after.type === "punctuation" && ["(", ":", "?", "=", ";", "<", "}", ",", ")"].includes(after.value)) break;
+      modifiers.add(this.advance().value);
+    }
+    return modifiers;
+  }
+
+  /** Collects public/readonly constructor parameter properties: constructor(public name: string) */
+  private parseConstructorParameterProperties(): PropertyNode[] {
+    this.expect("punctuation", "(");
+    const properties: PropertyNode[] = [];
+
+    while (!this.is("punctuation", ")") && !this.is("eof")) {
+      const { jsdoc: paramJSDoc, decorators } = this.parseMemberPrelude();
+      const modifiers = this.parseMemberModifiers();
+      const isProperty = ["public", "private", "protected", "readonly", "override"].some(m => modifiers.has(m));
+
+      // Destructuring patterns can't be parameter properties
+      if (this.is("punctuation", "{") || this.is("punctuation", "[")) {
+        this.parseInitializer([",", ")"]);
+        this.match("punctuation", ",");
+        continue;
+      }
+
+      const name = this.advance().value;
+      const optional = !!this.match("punctuation", "?");
+      const type = this.match("punctuation", ":") ? this.parseType() : undefined;
+      const initializer = this.match("punctuation", "=") ? this.parseInitializer([",", ")"]) : undefined;
+
+      if (isProperty && !modifiers.has("private") && !modifiers.has("protected")) {
+        properties.push({
+          name,
+          type: type ?? this.inferInitializerType(initializer, modifiers.has("readonly")),
+          optional,
+          readonly: modifiers.has("readonly"),
+          description: paramJSDoc?.description,
+          tags: paramJSDoc?.tags,
+          defaultValue: initializer?.value,
+          decorators,
+        });
+      }
+
+      if (!this.match("punctuation", ",")) break;
+    }
+
+    this.expect("punctuation", ")");
+    return properties;
+  }
+
+  /**
+   * Parses an initializer expression. Literal values are returned; anything
+   * else is skipped up to a terminator (at bracket depth 0) or the end of the
+   * line. Arrow functions and function expressions are flagged.
+   */
+  private parseInitializer(terminators: string[]): { value?: unknown; isFunction: boolean } {
+    const start = this.pos;
+    let isFunction = this.peekIsFunctionType() || this.is("keyword", "function") ||
+      (this.is("identifier", "async") && (this.peekAhead("punctuation", "(") || this.peekAhead("keyword", "function")));
+
+    if (!isFunction) {
+      try {
+        const value = this.parseConstValue();
+        const next = this.tokens[this.pos];
+        const atEnd = !next || next.type === "newline" || next.type === "eof" || next.type === "jsdoc" ||
+          (next.type === "punctuation" && terminators.includes(next.value));
+        if (atEnd) return { value, isFunction: false };
+      } catch (err) {
+        if (!(err instanceof ParseError)) throw err;
+      }
+      this.pos = start;
+    }
+
+    this.skipNewlines();
+    let depth = 0;
+    while (!this.is("eof")) {
+      const token = this.tokens[this.pos];
+      if (token.type === "punctuation") {
+        if (depth === 0 && terminators.includes(token.value)) break;
+        if (depth === 0 && token.value === "=" && this.tokens[this.pos + 1]?.value === ">") isFunction = true;
+        if (token.value === "{" || token.value === "(" || token.value === "[") depth++;
+        if (token.value === "}" || token.value === ")" || token.value === "]") depth--;
+      } else if (token.type === "newline" && depth === 0) {
+        // Arrow function bodies continue past the arrow's line
+        const prev = this.tokens[this.pos - 1];
+        if (!(prev?.type === "punctuation" && prev.value === ">")) break;
+      }
+      this.pos++;
+    }
+    return { isFunction };
+  }
+
+  /** Type of an unannotated field: widened from its literal initializer (kept literal when readonly). */
+  private inferInitializerType(initializer: { value?: unknown } | undefined, readonly: boolean): TypeNode {
+    if (initializer?.value === undefined) return { kind: "primitive", value: "unknown" };
+    return this.constValueToType(initializer.value, false, readonly);
+  }
+
+  /** Skips a method, accessor or computed member: signature plus optional body. */
+  private skipClassMember(): void {
+    if (this.is("punctuation", "[")) {
+      let depth = 0;
+      do {
+        if (this.is("punctuation", "[")) depth++;
+        if (this.is("punctuation", "]")) depth--;
+        this.advance();
+      } while (depth > 0 && !this.is("eof"));
+      this.match("punctuation", "?");
+      if (this.match("punctuation", ":")) this.parseType();
+      if (this.match("punctuation", "=")) this.parseInitializer([";", "}"]);
+    } else {
+      if (!this.is("punctuation", "(") && !this.is("punctuation", "<")) this.advance(); // name
+      this.match("punctuation", "?");
+      this.skipMethodSignature();
+    }
+    if (this.is("punctuation", "{")) this.skipBlock();
+    this.match("punctuation", ";");
+  }
+
+  private nextTokenIndex(p: number): number {
+    while (p < this.tokens.length && this.tokens[p].type === "newline") p++;
+    return p;
+  }
+
   // ---------------------------------------------------------------------------
   // Type alias
   // ---------------------------------------------------------------------------
@@ -417,7 +951,7 @@ export class Parser {
     const name = this.expect("identifier").value;
 
     // Parse type parameters if present (e.g., <T, U>)
-    const typeParams = this.parseTypeParameters();
+    const { typeParams, typeParamConstraints, typeParamDefaults } = this.parseTypeParameters();
 
     this.expect("punctuation", "=");
     const type = this.parseType();
@@ -429,6 +963,8 @@ export class Parser {
       kind: "type_alias",
       name,
       typeParams,
+      typeParamConstraints,
+      typeParamDefaults,
       type,
       description: jsdoc?.description,
       tags: jsdoc?.tags,
@@ -488,6 +1024,151 @@ export class Parser {
     };
   }
 
+  // ---------------------------------------------------------------------------
+  // Const declarations (value side of `typeof`)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Parses `const NAME [: Type] = <literal> [as const | as Type | satisfies Type];`.
+   * Only literal initializers (strings, numbers, booleans, null, and nested
+   * arrays/objects of those) are understood. Anything else - destructuring,
+   * calls, identifiers, `declare const X: T;` - is skipped and yields null.
+   */
+  private parseConstDeclaration(exported: boolean): ConstDeclaration | null {
+    const jsdoc = this.consumeJSDoc();
+    this.expect("keyword", "const");
+    const start = this.pos;
+
+    try {
+      const name = this.expect("identifier").value;
+      let annotation: TypeNode | undefined;
+      if (this.match("punctuation", ":")) {
+        annotation = this.parseType();
+      }
+      this.expect("punctuation", "=");
+      const value = this.parseConstValue();
+
+      let asConst = false;
+      if (this.match("keyword", "as")) {
+        if (this.match("keyword", "const")) {
+          asConst = true;
+        } else {
+          annotation = this.parseType();
+        }
+      }
+      if (this.is("identifier", "satisfies")) {
+        this.advance();
+        this.parseType(); // only checked by the compiler, doesn't change the type
+      }
+
+      // The initializer must end here; otherwise it's an expression we don't evaluate
+      const next = this.tokens[this.pos];
+      const atEnd = !next || next.type === "newline" || next.type === "eof" || next.type === "jsdoc" ||
+        (next.type === "punctuation" && (next.value === ";" || next.value === "}"));
+      if (!atEnd) throw new ParseError("Unsupported const initializer", next);
+      this.match("punctuation", ";");
+
+      return {
+        kind: "const",
+        name,
+        type: annotation ?? this.constValueToType(value, asConst, true),
+        description: jsdoc?.description,
+        tags: jsdoc?.tags,
+        exported,
+      };
+    } catch (err) {
+      if (!(err instanceof ParseError)) throw err;
+      this.pos = start;
+      this.skipStatement();
+      return null;
+    }
+  }
+
+  /** Parses a literal value: string, number, boolean, null, array or object literal. */
+  private parseConstValue(): unknown {
+    const token = this.peek();
+
+    if (token.type === "string") return this.advance().value;
+    if (token.type === "template" && !token.value.includes("${")) return this.advance().value;
+    if (token.type === "number") return Number(this.advance().value);
+    if (token.type === "primitive" && (token.value === "true" || token.value === "false")) {
+      return this.advance().value === "true";
+    }
+    if (token.type === "primitive" && token.value === "null") {
+      this.advance();
+      return null;
+    }
+
+    if (this.match("punctuation", "[")) {
+      const items: unknown[] = [];
+      while (!this.is("punctuation", "]") && !this.is("eof")) {
+        items.push(this.parseConstValue());
+        if (!this.match("punctuation", ",")) break;
+      }
+      this.expect("punctuation", "]");
+      return items;
+    }
+
+    if (this.match("punctuation", "{")) {
+      const obj: Record<string, unknown> = {};
+      while (!this.is("punctuation", "}") && !this.is("eof")) {
+        if (this.is("jsdoc")) { this.advance(); continue; }
+        const key = this.advance();
+        if (!["identifier", "keyword", "primitive", "string", "number"].includes(key.type)) {
+          throw new ParseError("Unsupported object literal key", key);
+        }
+        this.expect("punctuation", ":");
+        obj[key.value] = this.parseConstValue();
+        if (!this.match("punctuation", ",")) break;
+      }
+      this.expect("punctuation", "}");
+      return obj;
+    }
+
+    throw new ParseError("Unsupported const initializer", token);
+  }
+
+  /**
+   * Infers the type of a literal value the way TypeScript does: `as const`
+   * keeps every literal and turns arrays into readonly tuples; without it,
+   * only a top-level primitive keeps its literal type and nested values widen.
+   */
+  private constValueToType(value: unknown, asConst: boolean, topLevel = false): TypeNode {
+    const keepLiteral = asConst || topLevel;
+
+    if (value === null) return { kind: "primitive", value: "null" };
+    if (typeof value === "string") {
+      return keepLiteral ? { kind: "literal_string", value } : { kind: "primitive", value: "string" };
+    }
+    if (typeof value === "number") {
+      return keepLiteral ? { kind: "literal_number", value } : { kind: "primitive", value: "number" };
+    }
+    if (typeof value === "boolean") {
+      return keepLiteral ? { kind: "literal_boolean", value } : { kind: "primitive", value: "boolean" };
+    }
+
+    if (Array.isArray(value)) {
+      const elementTypes = value.map(v => this.constValueToType(v, asConst));
+      if (asConst) {
+        return { kind: "tuple", elements: elementTypes.map(type => ({ type })) };
+      }
+      // Widened array: element type is the (deduplicated) union of element types
+      const unique = elementTypes.filter((t, i) =>
+        elementTypes.findIndex(o => JSON.stringify(o) === JSON.stringify(t)) === i
+      );
+      if (unique.length === 0) return { kind: "array", element: { kind: "primitive", value: "any" } };
+      return { kind: "array", element: unique.length === 1 ? unique[0] : { kind: "union", members: unique } };
+    }
+
+    const properties: PropertyNode[] = Object.entries(value as Record<string, unknown>).map(([name, v]) => ({
+      name,
+      type: this.constValueToType(v, asConst),
+      optional: false,
+      readonly: asConst,
+    }));
+    return { kind: "object", properties };
+  }
+
   // ---------------------------------------------------------------------------
   // Object body parsing (shared between interface and inline object types)
   // ---------------------------------------------------------------------------
@@ -612,22 +1293,80 @@ export class Parser {
   }
 
   /**
-   * Parses (and mostly discards) a function type: (params) => ReturnType.
-   * Functions have no JSON Schema representation, so this returns a
-   * `function` node that the emitter ignores.
+   * Parses a function type: (params) => ReturnType.
+   * Functions have no JSON Schema representation, so the emitter ignores the
+   * resulting `function` node; its parameters and return type are kept only
+   * for `Parameters<F>` / `ReturnType<F>`.
    */
   private parseFunctionType(): TypeNode {
-    this.expect("punctuation", "(");
-    let depth = 1;
-    while (depth > 0 && !this.is("eof")) {
-      if (this.is("punctuation", "(")) depth++;
-      if (this.is("punctuation", ")")) depth--;
-      this.advance();
+    const start = this.pos;
+    let params: TupleElement[] | undefined;
+    try {
+      params = this.parseFunctionParams();
+    } catch (err) {
+      if (!(err instanceof ParseError)) throw err;
+      // Unusual parameter syntax: skip the list, parameters stay unknown
+      this.pos = start;
+      this.expect("punctuation", "(");
+      let depth = 1;
+      while (depth > 0 && !this.is("eof")) {
+        if (this.is("punctuation", "(")) depth++;
+        if (this.is("punctuation", ")")) depth--;
+        this.advance();
+      }
+      params = undefined;
     }
     this.expect("punctuation", "=");
     this.expect("punctuation", ">");
-    this.parseType(); // return type (discarded)
-    return { kind: "function" };
+    const returnType = this.parseType();
+    return { kind: "function", params, returnType };
+  }
+
+  /** Parses `(a: A, b?: B, ...rest: C[])`; a leading `this` parameter is dropped. */
+  private parseFunctionParams(): TupleElement[] {
+    this.expect("punctuation", "(");
+    const params: TupleElement[] = [];
+
+    while (!this.is("punctuation", ")") && !this.is("eof")) {
+      this.skipInterspersedJSDoc();
+      const rest = !!this.match("punctuation", ".");
+      if (rest) {
+        this.expect("punctuation", ".");
+        this.expect("punctuation", ".");
+      }
+
+      let label: string | undefined;
+      if (this.is("punctuation", "{") || this.is("punctuation", "[")) {
+        // Destructuring pattern: only its type annotation matters
+        const open = this.advance().value;
+        const close = open === "{" ? "}" : "]";
+        let depth = 1;
+        while (depth > 0 && !this.is("eof")) {
+          if (this.is("punctuation", open)) depth++;
+          if (this.is("punctuation", close)) depth--;
+          this.advance();
+        }
+      } else {
+        const nameToken = this.advance();
+        if (!["identifier", "keyword", "primitive"].includes(nameToken.type)) {
+          throw new ParseError("Unexpected parameter", nameToken);
+        }
+        label = nameToken.value;
+      }
+
+      const optional = !!this.match("punctuation", "?");
+      const type: TypeNode = this.match("punctuation", ":")
+        ? this.parseType()
+        : { kind: "primitive", value: "any" };
+
+      if (label !== "this") {
+        params.push({ type, optional, label, rest });
+      }
+      if (!this.match("punctuation", ",")) break;
+    }
+
+    this.expect("punctuation", ")");
+    return params;
   }
 
   private peekIsIndexSignature(): boolean {
@@ -660,9 +1399,22 @@ export class Parser {
   // Type parsing - the core recursive descent
   // ---------------------------------------------------------------------------
 
-  /** Entry point: handles union (lowest precedence) */
+  /** Entry point: handles conditional types (lowest precedence), then unions */
   parseType(): TypeNode {
-    return this.parseUnion();
+    const checkType = this.parseUnion();
+
+    // Conditional type: CheckType extends ExtendsType ? TrueType : FalseType
+    if (this.is("keyword", "extends")) {
+      this.advance();
+      const extendsType = this.parseUnion();
+      this.expect("punctuation", "?");
+      const trueType = this.parseType();
+      this.expect("punctuation", ":");
+      const falseType = this.parseType();
+      return { kind: "conditional", checkType, extendsType, trueType, falseType };
+    }
+
+    return checkType;
   }
 
   private parseUnion(): TypeNode {
@@ -752,14 +1504,20 @@ export class Parser {
   private parsePostfix(): TypeNode {
     let type = this.parsePrimary();
 
-    // Handle T[] and T[][] etc.
+    // Handle T[] and T[][] etc., and indexed access T["prop"] / T[number]
     while (this.is("punctuation", "[")) {
-      // Check if it's [] (array) vs [number] (indexed access - not supported, skip)
       const nextAfterBracket = this.lookAheadPastBracket();
       if (nextAfterBracket === "]") {
         this.advance(); // [
         this.advance(); // ]
         type = { kind: "array", element: type };
+      } else if (this.tokens[this.pos]?.value === "[") {
+        // Indexed access. Like TypeScript, a `[` on a new line is not a
+        // postfix (it starts e.g. an index signature in an object body).
+        this.advance(); // [
+        const index = this.parseType();
+        this.expect("punctuation", "]");
+        type = { kind: "indexed_access", object: type, index };
       } else {
         break;
       }
@@ -793,6 +1551,12 @@ export class Parser {
       return { kind: "literal_string", value: token.value };
     }
 
+    // Template literal type: `prefix_${string}`
+    if (token.type === "template") {
+      this.advance();
+      return this.parseTemplateLiteral(token);
+    }
+
     // Number literal type
     if (token.type === "number") {
       this.advance();
@@ -817,12 +1581,40 @@ export class Parser {
       return this.parseTuple();
     }
 
+    // Mapped type: { [K in keyof T]: T[K] }
+    if (this.is("punctuation", "{") && this.peekIsMappedType()) {
+      return this.parseMappedType();
+    }
+
     // Inline object type: { foo: string; bar: number }
     if (this.is("punctuation", "{")) {
       const { properties, indexSignature } = this.parseObjectBody();
       return { kind: "object", properties, indexSignature };
     }
 
+    // Type query: typeof X, typeof X.y.z
+    if (this.is("keyword", "typeof")) {
+      this.advance();
+      let name = this.expect("identifier").value;
+      while (this.is("punctuation", ".") && this.peekAhead("identifier")) {
+        this.advance(); // .
+        name += "." + this.advance().value;
+      }
+      return { kind: "typeof", name: this.qualifyName(name) };
+    }
+
+    // Inference site inside a conditional's extends clause: infer U
+    if (this.is("keyword", "infer")) {
+      this.advance();
+      return { kind: "infer", name: this.expect("identifier").value };
+    }
+
+    // keyof operator: keyof T (binds looser than postfix, so keyof T[] is keyof (T[]))
+    if (this.is("keyword", "keyof")) {
+      this.advance();
+      return { kind: "keyof", target: this.parsePostfix() };
+    }
+
     // readonly keyword before array
     if (this.is("keyword", "readonly")) {
       this.advance();
@@ -839,6 +1631,115 @@ export class Parser {
     throw new ParseError(`Unexpected token`, token);
   }
 
+  /**
+   * Looks ahead from `{` for the start of a mapped type:
+   * `{ [+|-][readonly] [ K in ...`
+   */
+  private peekIsMappedType(): boolean {
+    let p = this.pos;
+    const next = () => {
+      p++;
+      while (p < this.tokens.length && (this.tokens[p].type === "newline" || this.tokens[p].type === "jsdoc")) p++;
+      return this.tokens[p];
+    };
+    while (p < this.tokens.length && this.tokens[p].type === "newline") p++;
+
+    let t = next(); // past {
+    if (t?.type === "punctuation" && (t.value === "+" || t.value === "-")) t = next();
+    if (t?.type === "keyword" && t.value === "readonly") t = next();
+    if (t?.type !== "punctuation" || t.value !== "[") return false;
+    t = next();
+    if (t?.type !== "identifier") return false;
+    t = next();
+    return t?.type === "identifier" && t.value === "in";
+  }
+
+  private parseMappedType(): TypeNode {
+    this.expect("punctuation", "{");
+    this.skipInterspersedJSDoc();
+
+    let readonly: boolean | "-" | undefined;
+    if (this.match("punctuation", "-")) {
+      this.expect("keyword", "readonly");
+      readonly = "-";
+    } else if (this.match("punctuation", "+")) {
+      this.expect("keyword", "readonly");
+      readonly = true;
+    } else if (this.match("keyword", "readonly")) {
+      readonly = true;
+    }
+
+    this.expect("punctuation", "[");
+    const keyName = this.expect("identifier").value;
+    this.expect("identifier", "in");
+    const constraint = this.parseType();
+    let nameType: TypeNode | undefined;
+    if (this.match("keyword", "as")) {
+      nameType = this.parseType();
+    }
+    this.expect("punctuation", "]");
+
+    let optional: boolean | "-" | undefined;
+    if (this.match("punctuation", "-")) {
+      this.expect("punctuation", "?");
+      optional = "-";
+    } else if (this.match("punctuation", "+")) {
+      this.expect("punctuation", "?");
+      optional = true;
+    } else if (this.match("punctuation", "?")) {
+      optional = true;
+    }
+
+    this.expect("punctuation", ":");
+    const valueType = this.parseType();
+    this.match("punctuation", ";");
+    this.match("punctuation", ",");
+    this.expect("punctuation", "}");
+
+    return { kind: "mapped", keyName, constraint, valueType, nameType, optional, readonly };
+  }
+
+  /**
+   * Splits the raw text of a template literal type into string chunks and
+   * interpolated types. Without interpolations it's a plain string literal.
+   */
+  private parseTemplateLiteral(token: Token): TypeNode {
+    const raw = token.value;
+    const parts: (string | TypeNode)[] = [];
+    let text = "";
+    let i = 0;
+
+    while (i < raw.length) {
+      if (raw[i] === "\\") {
+        text += raw[i + 1] ?? "";
+        i += 2;
+        continue;
+      }
+      if (raw[i] === "$" && raw[i + 1] === "{") {
+        let depth = 1;
+        let j = i + 2;
+        while (j < raw.length && depth > 0) {
+          if (raw[j] === "{") depth++;
+          if (raw[j] === "}") depth--;
+          if (depth > 0) j++;
+        }
+        if (depth !== 0) throw new ParseError("Unterminated template literal interpolation", token);
+        if (text) parts.push(text);
+        text = "";
+        parts.push(new Parser(tokenize(raw.slice(i + 2, j))).parseType());
+        i = j + 1;
+        continue;
+      }
+      text += raw[i++];
+    }
+    if (text) parts.push(text);
+
+    if (parts.every(part => typeof part === "string")) {
+      return { kind: "literal_string", value: parts.join("") };
+    }
+    return { kind: "template_literal", parts };
+  }
+
   private parseTuple(): TypeNode {
     this.expect("punctuation", "[");
     const elements: TupleElement[] = [];
@@ -870,16 +1771,20 @@ export class Parser {
   }
 
   private parseTypeReference(): TypeNode {
-    const name = this.advance().value;
+    const segments = [this.advance().value];
+    while (this.match("punctuation", ".")) {
+      segments.push(this.expect("identifier").value);
+    }
+    const name = this.qualifyName(segments.join("."));
 
-    // Check for member access (EnumName.MemberName)
-    if (this.is("punctuation", ".")) {
-      this.advance(); // consume '.'
-      const memberName = this.expect("identifier").value;
+    // A dotted name is either a namespace-qualified type (Api.User) or an
+    // enum member (Status.Active); namespaces are known from the pre-scan.
+    const lastDot = name.lastIndexOf(".");
+    if (lastDot >= 0 && !this.namespaceMembers.has(name.slice(0, lastDot))) {
       return {
         kind: "enum_member_access",
-        enumName: name,
-        memberName: memberName,
+        enumName: name.slice(0, lastDot),
+        memberName: name.slice(lastDot + 1),
       };
     }
 
@@ -0,0 +1,803 @@
+// ============================================================================
+// Samples - Deterministic example values from emitted schemas
+// ============================================================================
+//
+// Walks a JSON Schema the Emitter produced (any target: `$defs`,
+// `definitions` and other local `#/...` references resolve) and builds values
+// that satisfy it, using a seeded pseudo-random generator so the same seed
+// always gives the same samples. `examples` and `default` are used as given;
+// `const`, `enum`, formats, patterns and the length, size and range keywords
+// are honored. Past `maxDepth` nested references, generation heads for the
+// base case: optional properties are left out, arrays get their minimum
+// length and unions prefer members without references.
+
+import type { JSONSchema } from "./emitter.js";
+
+/** A payload that breaks exactly one constraint of its type. */
+export interface InvalidSample {
+  /** What the payload violates, e.g. `/age: 17 is below minimum 18` */
+  label: string;
+  /** JSON pointer to the offending value ("" for the root) */
+  path: string;
+  /** The JSON Schema keyword the payload fails */
+  keyword: string;
+  value: unknown;
+}
+
+export interface SampleOptions {
+  /** Seed of the pseudo-random generator; the same seed gives the same samples. Default: 1 */
+  seed?: number;
+  /** Nesting depth of references after which recursive types stop growing. Default: 3 */
+  maxDepth?: number;
+  /** Use `examples` and `default` values where the schema has them. Default: true */
+  useExamples?: boolean;
+}
+
+const WORDS = [
+  "lorem", "ipsum", "dolor", "sit", "amet", "consectetur", "adipiscing", "elit",
+  "sed", "do", "eiusmod", "tempor", "incididunt", "labore", "magna", "aliqua",
+];
+
+// Past maxDepth, references that still can't stop (a required self-reference
+// without a nullable or empty-array way out) give up after this many more levels
+const RECURSION_HEADROOM = 16;
+
+// Pattern and format strings are drawn this many times to land within minLength/maxLength
+const LENGTH_ATTEMPTS = 20;
+
+export class SampleGenerator {
+  private root: JSONSchema;
+  private seed: number;
+  private maxDepth: number;
+  private useExamples: boolean;
+  private random: () => number = Math.random;
+  /** Include every optional property and at least one array item, so invalid cases reach them. */
+  private complete = false;
+
+  constructor(schema: JSONSchema, options: SampleOptions = {}) {
+    this.root = schema;
+    this.seed = options.seed ?? 1;
+    this.maxDepth = options.maxDepth ?? 3;
+    this.useExamples = options.useExamples ?? true;
+  }
+
+  /**
+   * Returns `count` samples of the root schema, or of the definition called
+   * `name` when given. Each type draws from its own seeded sequence, so its
+   * samples don't change when other types are added.
+   */
+  generate(count: number, name?: string): unknown[] {
+    let schema = this.root;
+    if (name !== undefined) {
+      const defs = (this.root.$defs ?? this.root.definitions) as Record<string, JSONSchema> | undefined;
+      if (!defs?.[name]) throw new Error(`Type "${name}" not found in the schema's definitions`);
+      schema = defs[name];
+    }
+
+    this.random = mulberry32(hash(`${this.seed}:${name ?? ""}`));
+    const samples: unknown[] = [];
+    for (let i = 0; i < count; i++) {
+      samples.push(this.sample(schema, 0, name ?? "root"));
+    }
+    return samples;
+  }
+
+  /**
+   * Returns payloads that each break one constraint of the root schema (or
+   * of the definition called `name`): a missing required property, a wrong
+   * type, an out-of-range number, a too-short or too-long string or array,
+   * a value outside an enum, a pattern or format mismatch, duplicate items
+   * or a property a closed object doesn't allow. They're variations of one
+   * valid sample that includes every optional property.
+   *
+   * Referenced types nested in the payload only get a wrong-type case; their
+   * own constraints are covered by their own invalid cases. Unions other than
+   * `T | null` only get a wrong-type case too, as breaking one member may
+   * still match another.
+   */
+  generateInvalid(name?: string): InvalidSample[] {
+    this.complete = true;
+    let base: unknown;
+    try {
+      [base] = this.generate(1, name);
+    } finally {
+      this.complete = false;
+    }
+
+    const schema = name !== undefined
+      ? ((this.root.$defs ?? this.root.definitions) as Record<string, JSONSchema>)[name]
+      : this.root;
+    const cases: InvalidSample[] = [];
+    this.invalidAt(schema, base, [], (keyword, path, what, replacement) => {
+      const pointer = path.map(segment => "/" + String(segment).replace(/~/g, "~0").replace(/\//g, "~1")).join("");
+      cases.push({
+        label: pointer ? `${pointer}: ${what}` : what,
+        path: pointer,
+        keyword,
+        value: replaceAt(base, path, replacement),
+      });
+    });
+    return cases;
+  }
+
+  private int(min: number, max: number): number {
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+
+  private pick<T>(values: T[]): T {
+    return values[Math.floor(this.random() * values.length)];
+  }
+
+  private resolve(ref: string): JSONSchema {
+    if (!ref.startsWith("#/")) throw new Error(`Cannot resolve the non-local reference "${ref}"`);
+    let node: unknown = this.root;
+    for (const segment of ref.slice(2).split("/")) {
+      const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+      node = typeof node === "object" && node !== null ? (node as Record<string, unknown>)[key] : undefined;
+    }
+    if (typeof node !== "object" || node === null) throw new Error(`Cannot resolve reference "${ref}"`);
+    return node as JSONSchema;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Schema → value
+  // ---------------------------------------------------------------------------
+
+  /** `depth` counts the references followed to get here; `path` names the location for errors. */
+  private sample(schema: JSONSchema | boolean, depth: number, path: string): unknown {
+    if (typeof schema === "boolean") return null;
+
+    if (this.useExamples) {
+      if (Array.isArray(schema.examples) && schema.examples.length > 0) return structuredClone(this.pick(schema.examples));
+      if (schema.default !== undefined) return structuredClone(schema.default);
+    }
+    if (schema.const !== undefined) return structuredClone(schema.const);
+    if (schema.enum) return structuredClone(this.pick(schema.enum));
+
+    const parts: unknown[] = [];
+
+    if (typeof schema.$ref === "string") {
+      if (depth > this.maxDepth + RECURSION_HEADROOM) {
+        throw new Error(`Cannot generate a finite sample: "${schema.$ref}" always recurses (at ${path})`);
+      }
+      parts.push(this.sample(this.resolve(schema.$ref), depth + 1, path));
+    }
+
+    const members = schema.anyOf ?? schema.oneOf;
+    if (members) parts.push(this.sample(this.chooseMember(members, depth), depth, path));
+
+    const type = this.chooseType(schema, depth);
+    if (type !== undefined) parts.push(this.sampleType(type, schema, depth, path));
+
+    for (const member of schema.allOf ?? []) {
+      parts.push(this.sample(member, depth, path));
+    }
+
+    // Intersections and extends chains: objects combine, anything else is taken as is
+    let value: unknown = parts.length === 0 ? null : parts[0];
+    for (const part of parts.slice(1)) {
+      value = isPlainObject(value) && isPlainObject(part) ? { ...value, ...part } : part;
+    }
+    return value;
+  }
+
+  private chooseMember(members: JSONSchema[], depth: number): JSONSchema {
+    if (depth < this.maxDepth) return this.pick(members);
+    // Prefer the members that reference the fewest other schemas
+    const scores = members.map(countRefs);
+    const best = Math.min(...scores);
+    return this.pick(members.filter((_, i) => scores[i] === best));
+  }
+
+  private chooseType(schema: JSONSchema, depth: number): string | undefined {
+    if (schema.type === undefined) {
+      // Keywords of one type without the type itself
+      if (schema.properties || schema.additionalProperties !== undefined) return "object";
+      if (schema.items || schema.prefixItems) return "array";
+      return undefined;
+    }
+    if (!Array.isArray(schema.type)) return schema.type;
+    if (depth >= this.maxDepth && schema.type.includes("null")) return "null";
+    return this.pick(schema.type);
+  }
+
+  private sampleType(type: string, schema: JSONSchema, depth: number, path: string): unknown {
+    switch (type) {
+      case "string": return this.sampleString(schema, path);
+      case "number": return this.sampleNumber(schema, false);
+      case "integer": return this.sampleNumber(schema, true);
+      case "boolean": return this.random() < 0.5;
+      case "null": return null;
+      case "array": return this.sampleArray(schema, depth, path);
+      case "object": return this.sampleObject(schema, depth, path);
+      default: return null;
+    }
+  }
+
+  private sampleString(schema: JSONSchema, path: string): string {
+    const minLength = schema.minLength ?? 0;
+    const maxLength = schema.maxLength ?? Infinity;
+    if (typeof schema.pattern === "string") return this.sampleFromPattern(schema.pattern, path, minLength, maxLength);
+
+    if (typeof schema.format === "string") {
+      let formatted = this.sampleFormat(schema.format, minLength, maxLength);
+      for (let attempt = 1; formatted !== undefined && !hasLength(formatted, minLength, maxLength); attempt++) {
+        if (attempt === LENGTH_ATTEMPTS) {
+          throw new Error(`Cannot generate a "${schema.format}" string of ${describeLength(minLength, maxLength)} (at ${path}); add an @example`);
+        }
+        formatted = this.sampleFormat(schema.format, minLength, maxLength);
+      }
+      if (formatted !== undefined) return formatted;
+    }
+
+    return this.words(minLength, maxLength, " ");
+  }
+
+  /** `count` or more words joined by `separator`, at least `minLength` long and cut to `maxLength`. */
+  private words(minLength: number, maxLength: number, separator: string, count = 1): string {
+    let value = this.pick(WORDS);
+    for (let i = 1; i < count; i++) value += `${separator}${this.pick(WORDS)}`;
+    while (value.length < minLength) value += `${separator}${this.pick(WORDS)}`;
+    // Lengths count code points; the words are ASCII
+    value = value.slice(0, maxLength);
+    // Formats don't allow a part to end on its separator
+    return value.endsWith(separator) ? `${value.slice(0, -1)}x` : value;
+  }
+
+  /** A `format` string; variable parts (email local part, URL path, host label) are sized to the length bounds. */
+  private sampleFormat(format: string, minLength: number, maxLength: number): string | undefined {
+    const hex = (length: number) => Array.from({ length }, () => this.int(0, 15).toString(16)).join("");
+    const timestamp = () => new Date(Date.UTC(2024, 0, 1) + this.int(0, 365 * 24 * 3600) * 1000).toISOString().replace(".000", "");
+    // A shorter domain when "example.com" leaves too little room under maxLength
+    const domain = (fixed: number) => fixed + "example.com".length <= maxLength ? "example.com" : "x.io";
+    // A variable part of at least one character, leaving `fixed` characters for the rest
+    const part = (fixed: number, separator: string, count?: number) =>
+      this.words(minLength - fixed, Math.max(1, maxLength - fixed), separator, count);
+
+    switch (format) {
+      case "email": {
+        const host = domain(2);
+        return `${part(host.length + 1, ".", 2)}@${host}`;
+      }
+      case "date-time": return timestamp();
+      case "date": return timestamp().slice(0, 10);
+      case "time": return timestamp().slice(11);
+      case "uuid": return `${hex(8)}-${hex(4)}-4${hex(3)}-${this.pick(["8", "9", "a", "b"])}${hex(3)}-${hex(12)}`;
+      case "uri":
+      case "url": {
+        const host = domain("https:///".length + 1);
+        return `https://${host}/${part(`https://${host}/`.length, "-")}`;
+      }
+      case "hostname": {
+        const host = domain(2);
+        return `${part(host.length + 1, "-")}.${host}`;
+      }
+      case "ipv4": return Array.from({ length: 4 }, () => this.int(0, 255)).join(".");
+      case "ipv6": return Array.from({ length: 8 }, () => hex(4)).join(":");
+      default: return undefined;
+    }
+  }
+
+  private sampleNumber(schema: JSONSchema, integer: boolean): number {
+    const step = integer ? 1 : 0.01;
+    let min = schema.minimum ?? (typeof schema.exclusiveMinimum === "number" ? schema.exclusiveMinimum + step : undefined);
+    let max = schema.maximum ?? (typeof schema.exclusiveMaximum === "number" ? schema.exclusiveMaximum - step : undefined);
+    if (min === undefined) min = max !== undefined ? Math.min(0, max - 100) : 0;
+    if (max === undefined) max = min + 100;
+    if (integer) {
+      min = Math.ceil(min);
+      max = Math.floor(max);
+    }
+
+    let value = integer ? this.int(min, max) : Math.round((min + this.random() * (max - min)) * 100) / 100;
+    const multipleOf = schema.multipleOf as number | undefined;
+    if (multipleOf) {
+      value = Math.ceil(min / multipleOf) * multipleOf + Math.floor(this.random() * Math.max(1, Math.floor((max - min) / multipleOf))) * multipleOf;
+    }
+    return Math.min(Math.max(value, min), max);
+  }
+
+  private sampleArray(schema: JSONSchema, depth: number, path: string): unknown[] {
+    const prefix: JSONSchema[] = schema.prefixItems ?? [];
+    const minItems = schema.minItems ?? 0;
+    const maxItems = schema.maxItems ?? Infinity;
+
+    const result = prefix.slice(0, Math.min(prefix.length, maxItems)).map((item, i) => this.sample(item, depth, `${path}[${i}]`));
+    if (schema.items === undefined || (schema.items as unknown) === false) return result;
+
+    const limited = depth >= this.maxDepth;
+    const target = Math.min(
+      maxItems,
+      limited ? minItems : this.complete ? Math.max(minItems, 1) : this.int(minItems, minItems + 2)
+    );
+    const seen = new Set(result.map(v => JSON.stringify(v)));
+    for (let attempts = 0; result.length < target && attempts < target * 10; attempts++) {
+      const item = this.sample(schema.items, depth, `${path}[]`);
+      if (schema.uniqueItems) {
+        const key = JSON.stringify(item);
+        if (seen.has(key)) continue;
+        seen.add(key);
+      }
+      result.push(item);
+    }
+    return result;
+  }
+
+  private sampleObject(schema: JSONSchema, depth: number, path: string): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const required = new Set(schema.required ?? []);
+    const limited = depth >= this.maxDepth;
+
+    for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+      if (required.has(name) || (!limited && (this.complete || this.random() < 0.5))) {
+        result[name] = this.sample(prop as JSONSchema, depth, `${path}.${name}`);
+      }
+    }
+
+    const additional = schema.additionalProperties;
+    if (typeof additional === "object" && Object.keys(schema.properties ?? {}).length === 0) {
+      const count = Math.max((schema.minProperties as number | undefined) ?? 0, limited ? 0 : this.int(1, 2));
+      for (let i = 1; i <= count; i++) {
+        result[`key${i}`] = this.sample(additional, depth, `${path}[string]`);
+      }
+    }
+    return result;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Invalid cases
+  // ---------------------------------------------------------------------------
+
+  /** Cases for the value at `path`: a wrong type, then whatever its schema constrains. */
+  private invalidAt(schema: JSONSchema | boolean, value: unknown, path: Segment[], report: ReportCase): void {
+    if (typeof schema === "boolean") return;
+
+    const allowed = this.allowedTypes(schema, new Set());
+    if (allowed) {
+      const wrong = WRONG_TYPES.find(candidate => !allowed.has(candidate.type));
+      if (wrong) report("type", path, `wrong type (expected ${[...allowed].join(" | ")}, got ${wrong.type})`, wrong.value);
+    }
+    this.invalidConstraints(schema, value, path, report);
+  }
+
+  private invalidConstraints(schema: JSONSchema, value: unknown, path: Segment[], report: ReportCase): void {
+    if (typeof schema.$ref === "string" && path.length === 0) {
+      this.invalidConstraints(this.resolve(schema.$ref), value, path, report);
+    }
+    for (const member of schema.allOf ?? []) {
+      if (typeof member === "object") this.invalidConstraints(member, value, path, report);
+    }
+
+    // T | null: breaking T can't make the value null
+    const members = schema.anyOf ?? schema.oneOf;
+    const nonNull = members?.filter(m => !(m.type === "null" && Object.keys(m).length === 1));
+    if (nonNull?.length === 1 && value !== null) {
+      this.invalidConstraints(nonNull[0], value, path, report);
+    }
+
+    if (schema.const !== undefined || schema.enum) {
+      const values = schema.enum ?? [schema.const];
+      const wrong = wrongValue(values);
+      if (wrong !== undefined) {
+        report(schema.enum ? "enum" : "const", path, `${JSON.stringify(wrong)} is not one of ${values.map(v => JSON.stringify(v)).join(", ")}`, wrong);
+      }
+      return;
+    }
+
+    if (typeof value === "string") this.invalidString(schema, value, path, report);
+    else if (typeof value === "number") this.invalidNumber(schema, value, path, report);
+    else if (Array.isArray(value)) this.invalidArray(schema, value, path, report);
+    else if (isPlainObject(value)) this.invalidObject(schema, value, path, report);
+  }
+
+  private invalidString(schema: JSONSchema, value: string, path: Segment[], report: ReportCase): void {
+    const pattern = typeof schema.pattern === "string" ? new RegExp(schema.pattern) : undefined;
+    // A changed length must keep matching the pattern and format, or it breaks them too
+    const keepsShape = (candidate: string) => schema.format === undefined && (!pattern || pattern.test(candidate));
+
+    if (schema.minLength !== undefined && schema.minLength > 0) {
+      const shorter = value.slice(0, schema.minLength - 1);
+      if (keepsShape(shorter)) report("minLength", path, `length ${shorter.length} is below minLength ${schema.minLength}`, shorter);
+    }
+    if (schema.maxLength !== undefined) {
+      const longer = value.padEnd(schema.maxLength + 1, "x");
+      if (keepsShape(longer)) report("maxLength", path, `length ${longer.length} is above maxLength ${schema.maxLength}`, longer);
+    }
+
+    const fitsLength = (candidate: string) =>
+      candidate.length >= (schema.minLength ?? 0) && candidate.length <= (schema.maxLength ?? Infinity);
+    if (pattern) {
+      const mismatch = ["invalid", "!", "", "x".repeat(schema.minLength ?? 1)].find(c => !pattern.test(c) && fitsLength(c));
+      if (mismatch !== undefined) report("pattern", path, `${JSON.stringify(mismatch)} doesn't match pattern ${schema.pattern}`, mismatch);
+    } else if (typeof schema.format === "string" && INVALID_FORMATS[schema.format] && fitsLength(INVALID_FORMATS[schema.format])) {
+      report("format", path, `${JSON.stringify(INVALID_FORMATS[schema.format])} is not a valid ${schema.format}`, INVALID_FORMATS[schema.format]);
+    }
+  }
+
+  private invalidNumber(schema: JSONSchema, value: number, path: Segment[], report: ReportCase): void {
+    const integer = schema.type === "integer";
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema as Record<string, unknown>;
+
+    if (typeof minimum === "number") report("minimum", path, `${minimum - 1} is below minimum ${minimum}`, minimum - 1);
+    if (typeof exclusiveMinimum === "number" && (!integer || Number.isInteger(exclusiveMinimum))) {
+      report("exclusiveMinimum", path, `${exclusiveMinimum} is not above exclusiveMinimum ${exclusiveMinimum}`, exclusiveMinimum);
+    }
+    if (typeof maximum === "number") report("maximum", path, `${maximum + 1} is above maximum ${maximum}`, maximum + 1);
+    if (typeof exclusiveMaximum === "number" && (!integer || Number.isInteger(exclusiveMaximum))) {
+      report("exclusiveMaximum", path, `${exclusiveMaximum} is not below exclusiveMaximum ${exclusiveMaximum}`, exclusiveMaximum);
+    }
+
+    if (integer) {
+      // Stay inside the bounds so only the integer requirement breaks
+      const fraction = typeof maximum === "number" && value + 0.5 > maximum ? value - 0.5 : value + 0.5;
+      report("type", path, `${fraction} is not an integer`, fraction);
+    }
+  }
+
+  private invalidArray(schema: JSONSchema, value: unknown[], path: Segment[], report: ReportCase): void {
+    const minItems = schema.minItems ?? 0;
+    if (minItems > 0 && value.length >= minItems) {
+      report("minItems", path, `${items(minItems - 1)} is below minItems ${minItems}`, value.slice(0, minItems - 1));
+    }
+
+    if (schema.maxItems !== undefined && value.length > 0) {
+      const longer = [...value];
+      for (let attempts = 0; longer.length <= schema.maxItems && attempts < 100; attempts++) {
+        const item = schema.items !== undefined ? this.sample(schema.items, 0, "") : value[value.length - 1];
+        if (!schema.uniqueItems || !longer.some(v => JSON.stringify(v) === JSON.stringify(item))) longer.push(item);
+      }
+      if (longer.length > schema.maxItems) {
+        report("maxItems", path, `${items(longer.length)} is above maxItems ${schema.maxItems}`, longer);
+      }
+    }
+
+    if (schema.uniqueItems && value.length > 0) {
+      const duplicated = value.length < (schema.maxItems ?? Infinity)
+        ? [...value, value[0]]
+        : value.length > 1 ? [...value.slice(0, -1), value[0]] : undefined;
+      if (duplicated) report("uniqueItems", path, `item ${JSON.stringify(value[0])} appears twice`, duplicated);
+    }
+
+    const prefix: JSONSchema[] = schema.prefixItems ?? [];
+    value.forEach((item, i) => {
+      if (i < prefix.length) this.invalidAt(prefix[i], item, [...path, i], report);
+      else if (i === prefix.length && schema.items !== undefined) this.invalidAt(schema.items, item, [...path, i], report);
+    });
+  }
+
+  private invalidObject(schema: JSONSchema, value: Record<string, unknown>, path: Segment[], report: ReportCase): void {
+    for (const name of schema.required ?? []) {
+      if (name in value) report("required", path, `missing required property "${name}"`, REMOVE(name));
+    }
+
+    if (schema.additionalProperties === false || schema.unevaluatedProperties === false) {
+      const keyword = schema.additionalProperties === false ? "additionalProperties" : "unevaluatedProperties";
+      report(keyword, path, `unexpected property "${UNEXPECTED_PROPERTY}"`, { ...value, [UNEXPECTED_PROPERTY]: "unexpected" });
+    }
+
+    const properties = schema.properties ?? {};
+    for (const [name, prop] of Object.entries(properties)) {
+      if (name in value) this.invalidAt(prop, value[name], [...path, name], report);
+    }
+
+    const additional = schema.additionalProperties;
+    const extra = Object.keys(value).find(key => !(key in properties));
+    if (typeof additional === "object" && extra !== undefined) {
+      this.invalidAt(additional, value[extra], [...path, extra], report);
+    }
+  }
+
+  /**
+   * JSON types a value of the schema may have, or undefined when it isn't
+   * limited to some. `integer` stands for whole numbers only.
+   */
+  private allowedTypes(schema: JSONSchema | boolean, seen: Set<string>): Set<string> | undefined {
+    if (typeof schema === "boolean") return undefined;
+    if (schema.const !== undefined) return new Set([jsonType(schema.const)]);
+    if (schema.enum) return new Set(schema.enum.map(jsonType));
+    if (schema.type !== undefined) return new Set(Array.isArray(schema.type) ? schema.type : [schema.type]);
+
+    if (typeof schema.$ref === "string") {
+      if (seen.has(schema.$ref)) return undefined;
+      return this.allowedTypes(this.resolve(schema.$ref), new Set([...seen, schema.$ref]));
+    }
+
+    const members = schema.anyOf ?? schema.oneOf;
+    if (members) {
+      const union = new Set<string>();
+      for (const member of members) {
+        const types = this.allowedTypes(member, seen);
+        if (!types) return undefined;
+        types.forEach(t => union.add(t));
+      }
+      return union;
+    }
+
+    // A value must match every allOf member, so any one member's types will do
+    for (const member of schema.allOf ?? []) {
+      const types = this.allowedTypes(member, seen);
+      if (types) return types;
+    }
+    return undefined;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Pattern → string
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Builds a string the regular expression matches. Supports literals,
+   * escapes, classes, groups, alternation and quantifiers; lookarounds and
+   * backreferences are errors (give the property an @example instead).
+   * Unbounded quantifiers repeat up to `minLength` more times so the string
+   * can reach it, and strings outside the length bounds are drawn again.
+   */
+  private sampleFromPattern(pattern: string, path: string, minLength: number, maxLength: number): string {
+    const fail = (): never => {
+      throw new Error(`Cannot generate a string matching pattern "${pattern}" (at ${path}); add an @example`);
+    };
+    let pos = 0;
+
+    // Parsing builds generator functions, so only the chosen branches consume randomness
+    const alternation = (): (() => string) => {
+      const branches = [sequence()];
+      while (pattern[pos] === "|") {
+        pos++;
+        branches.push(sequence());
+      }
+      return () => this.pick(branches)();
+    };
+
+    const sequence = (): (() => string) => {
+      const atoms: (() => string)[] = [];
+      while (pos < pattern.length && pattern[pos] !== "|" && pattern[pos] !== ")") {
+        const generate = atom();
+        const [min, max] = quantifier();
+        atoms.push(() => {
+          let out = "";
+          const times = this.int(min, max);
+          for (let i = 0; i < times; i++) out += generate();
+          return out;
+        });
+      }
+      return () => atoms.map(generate => generate()).join("");
+    };
+
+    const atom = (): (() => string) => {
+      const c = pattern[pos++];
+      switch (c) {
+        case "^":
+        case "$":
+          return () => "";
+        case ".":
+          return () => this.pick(WORDS)[0];
+        case "(": {
+          if (pattern[pos] === "?") {
+            if (pattern[pos + 1] !== ":") fail();
+            pos += 2;
+          }
+          const group = alternation();
+          if (pattern[pos++] !== ")") fail();
+          return group;
+        }
+        case "[":
+          return characterClass();
+        case "\\":
+          return escape();
+        case "*":
+        case "+":
+        case "?":
+        case "{":
+          if (c === "{" && !/^\d/.test(pattern.slice(pos))) return () => c;
+          return fail();
+        default:
+          return () => c;
+      }
+    };
+
+    const escape = (): (() => string) => {
+      const c = pattern[pos++];
+      if (c === undefined) fail();
+      const chars = escapeChars(c);
+      if (chars) return () => this.pick(chars);
+      if (c === "b" || c === "B") return () => "";
+      if (/[1-9kpPu]/.test(c)) fail();
+      return () => c;
+    };
+
+    const characterClass = (): (() => string) => {
+      const negated = pattern[pos] === "^";
+      if (negated) pos++;
+      const chars: string[] = [];
+      let first = true;
+      while (pos < pattern.length && (pattern[pos] !== "]" || first)) {
+        first = false;
+        let c = pattern[pos++];
+        if (c === "\\") {
+          const escaped = escapeChars(pattern[pos]);
+          if (escaped) {
+            pos++;
+            chars.push(...escaped);
+            continue;
+          }
+          c = pattern[pos++];
+        }
+        if (pattern[pos] === "-" && pattern[pos + 1] !== "]" && pos + 1 < pattern.length) {
+          let end = pattern[pos + 1];
+          pos += 2;
+          if (end === "\\") end = pattern[pos++];
+          for (let code = c.charCodeAt(0); code <= end.charCodeAt(0); code++) chars.push(String.fromCharCode(code));
+        } else {
+          chars.push(c);
+        }
+      }
+      if (pattern[pos++] !== "]") fail();
+      if (!negated) return () => this.pick(chars);
+      const allowed = PRINTABLE.filter(ch => !chars.includes(ch));
+      return () => this.pick(allowed);
+    };
+
+    const quantifier = (): [number, number] => {
+      let range: [number, number] = [1, 1];
+      const c = pattern[pos];
+      if (c === "*") range = [0, 3 + minLength];
+      else if (c === "+") range = [1, 3 + minLength];
+      else if (c === "?") range = [0, 1];
+      else if (c === "{") {
+        const match = pattern.slice(pos).match(/^\{(\d+)(,(\d*))?\}/);
+        if (!match) return range;
+        const min = Number(match[1]);
+        range = [min, match[2] === undefined ? min : match[3] === "" ? min + 3 + minLength : Number(match[3])];
+        pos += match[0].length - 1;
+      } else {
+        return range;
+      }
+      pos++;
+      if (pattern[pos] === "?") pos++; // lazy
+      return range;
+    };
+
+    const generate = alternation();
+    if (pos !== pattern.length) fail();
+    const regex = new RegExp(pattern);
+    for (let attempt = 0; attempt < LENGTH_ATTEMPTS; attempt++) {
+      const value = generate();
+      if (!regex.test(value)) fail();
+      if (hasLength(value, minLength, maxLength)) return value;
+    }
+    throw new Error(`Cannot generate a string matching pattern "${pattern}" of ${describeLength(minLength, maxLength)} (at ${path}); add an @example`);
+  }
+}
+
+type Segment = string | number;
+
+/** Reports a case: the keyword broken, where, a description, and the replacement value (or REMOVE). */
+type ReportCase = (keyword: string, path: Segment[], what: string, replacement: unknown) => void;
+
+// A replacement that deletes the named property of the object at the path instead
+const REMOVED = Symbol("removed");
+const REMOVE = (name: string) => ({ [REMOVED]: name });
+
+const UNEXPECTED_PROPERTY = "unexpectedProperty";
+
+// Wrong-type values, tried in order; 1.5 is a number but not an integer
+const WRONG_TYPES = [
+  { type: "string", value: "invalid" },
+  { type: "number", value: 1.5 },
+  { type: "boolean", value: true },
+  { type: "array", value: [] as unknown[] },
+  { type: "object", value: {} },
+  { type: "null", value: null },
+];
+
+const INVALID_FORMATS: Record<string, string> = {
+  "email": "not-an-email",
+  "date-time": "not-a-date-time",
+  "date": "not-a-date",
+  "time": "not-a-time",
+  "uuid": "not-a-uuid",
+  "uri": "not a uri",
+  "hostname": "not a hostname",
+  "ipv4": "999.0.0.1",
+  "ipv6": "not-an-ipv6",
+};
+
+/** Copy of `base` with the value at `path` replaced (or, for REMOVE, a property of it deleted). */
+function replaceAt(base: unknown, path: Segment[], replacement: unknown): unknown {
+  if (path.length === 0) {
+    if (isPlainObject(replacement) && REMOVED in replacement) {
+      const { [(replacement as Record<symbol, string>)[REMOVED]]: _, ...rest } = base as Record<string, unknown>;
+      return rest;
+    }
+    return replacement;
+  }
+  const [head, ...rest] = path;
+  if (Array.isArray(base)) {
+    return base.map((item, i) => (i === head ? replaceAt(item, rest, replacement) : item));
+  }
+  const object = base as Record<string, unknown>;
+  return { ...object, [head]: replaceAt(object[head], rest, replacement) };
+}
+
+/** A value of the same type as the given literals that is none of them. */
+function wrongValue(values: unknown[]): unknown {
+  const strings = values.filter((v): v is string => typeof v === "string");
+  if (strings.length === values.length) {
+    let candidate = "invalid";
+    while (strings.includes(candidate)) candidate += "_";
+    return candidate;
+  }
+  const numbers = values.filter((v): v is number => typeof v === "number");
+  if (numbers.length === values.length) return Math.max(...numbers) + 1;
+  if (values.length === 1 && typeof values[0] === "boolean") return !values[0];
+  return undefined;
+}
+
+function items(count: number): string {
+  return `${count} item${count === 1 ? "" : "s"}`;
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+const DIGITS = "0123456789".split("");
+const WORD_CHARS = [..."abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ", ...DIGITS, "_"];
+function hasLength(value: string, minLength: number, maxLength: number): boolean {
+  const length = [...value].length;
+  return length >= minLength && length <= maxLength;
+}
+
+function describeLength(minLength: number, maxLength: number): string {
+  if (maxLength === Infinity) return `at least ${minLength} characters`;
+  return minLength === maxLength ? `${minLength} characters` : `${minLength} to ${maxLength} characters`;
+}
+
+const PRINTABLE = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i));
+
+function escapeChars(c: string): string[] | undefined {
+  switch (c) {
+    case "d": return DIGITS;
+    case "w": return WORD_CHARS;
+    case "s": return [" "];
+    case "D": return PRINTABLE.filter(ch => !DIGITS.includes(ch));
+    case "W": return PRINTABLE.filter(ch => !WORD_CHARS.includes(ch));
+    case "S": return PRINTABLE.filter(ch => ch !== " ");
+    case "n": return ["\n"];
+    case "t": return ["\t"];
+    default: return undefined;
+  }
+}
+
+function countRefs(node: unknown): number {
+  if (typeof node !== "object" || node === null) return 0;
+  let count = typeof (node as JSONSchema).$ref === "string" ? 1 : 0;
+  for (const value of Object.values(node)) count += countRefs(value);
+  return count;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** FNV-1a, to turn the seed and type name into the generator's state. */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function mulberry32(state: number): () => number {
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
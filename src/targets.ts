@@ -0,0 +1,205 @@
+// ============================================================================
+// Targets - Rewrites 2020-12 output for older drafts and OpenAPI 3.0
+// ============================================================================
+
+import type { JSONSchema } from "./emitter.js";
+
+export type SchemaTarget = "2020-12" | "draft-07" | "draft-04" | "openapi-3.0";
+
+/** The `$schema` URI of each target. OpenAPI 3.0 schema objects have none. */
+export const targetSchemaUris: Record<SchemaTarget, string | undefined> = {
+  "2020-12": "https://json-schema.org/draft/2020-12/schema",
+  "draft-07": "http://json-schema.org/draft-07/schema#",
+  "draft-04": "http://json-schema.org/draft-04/schema#",
+  "openapi-3.0": undefined,
+};
+
+/** Called for each keyword the target can't express, with a JSON pointer to where it was dropped or approximated. */
+export type UnsupportedKeywordHandler = (keyword: string, pointer: string) => void;
+
+// Keywords whose value is a subschema, an array of subschemas, or a map of them
+const SCHEMA_KEYWORDS = new Set([
+  "items", "additionalItems", "additionalProperties", "unevaluatedProperties",
+  "not", "if", "then", "else", "contains", "propertyNames",
+]);
+const SCHEMA_ARRAY_KEYWORDS = new Set(["allOf", "anyOf", "oneOf"]);
+const SCHEMA_MAP_KEYWORDS = new Set(["properties", "patternProperties", "$defs", "definitions"]);
+
+/**
+ * Converts a 2020-12 schema (as produced by the Emitter) to the keywords of
+ * another dialect:
+ * - `$defs` → `definitions` (and `#/$defs/` pointers → `#/definitions/`)
+ * - `prefixItems` → `items` array, rest `items` → `additionalItems`
+ * - `const` → one-value `enum` (draft-04, OpenAPI 3.0)
+ * - numeric `exclusiveMinimum`/`exclusiveMaximum` → boolean form (draft-04, OpenAPI 3.0)
+ * - `type: [T, "null"]` and `{ type: "null" }` union members → `nullable: true` (OpenAPI 3.0)
+ * - `examples` → `example` (OpenAPI 3.0)
+ *
+ * Keywords the target has no equivalent for are removed (or approximated)
+ * and reported through `onUnsupported`.
+ */
+export function convertSchemaToTarget(
+  schema: JSONSchema,
+  target: SchemaTarget,
+  onUnsupported: UnsupportedKeywordHandler
+): JSONSchema {
+  if (target === "2020-12") return schema;
+  return convertNode(schema, target, onUnsupported, "#", schema);
+}
+
+/** `root` is the schema being converted, whose definitions `$ref`s point into. */
+function convertNode(
+  schema: JSONSchema,
+  target: Exclude<SchemaTarget, "2020-12">,
+  onUnsupported: UnsupportedKeywordHandler,
+  pointer: string,
+  root: JSONSchema
+): JSONSchema {
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) return schema;
+
+  const openapi = target === "openapi-3.0";
+  const draft04 = target === "draft-04";
+  const converted: JSONSchema = {};
+  const child = (value: JSONSchema, path: string) => convertNode(value, target, onUnsupported, `${pointer}/${path}`, root);
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "$schema" && openapi) continue;
+
+    if (key === "$ref" && typeof value === "string") {
+      converted.$ref = toDefinitionsPointer(value);
+    } else if (key === "$id" && (draft04 || openapi)) {
+      if (draft04) converted.id = value;
+      else onUnsupported(key, pointer);
+    } else if (key === "discriminator" && isDiscriminator(value)) {
+      converted.discriminator = value.mapping
+        ? { ...value, mapping: Object.fromEntries(Object.entries(value.mapping).map(([k, ref]) => [k, toDefinitionsPointer(ref)])) }
+        : value;
+    } else if (key === "const" && (draft04 || openapi)) {
+      converted.enum = [value];
+    } else if ((key === "exclusiveMinimum" || key === "exclusiveMaximum") && (draft04 || openapi) && typeof value === "number") {
+      const bound = key === "exclusiveMinimum" ? "minimum" : "maximum";
+      converted[bound] = value;
+      converted[key] = true;
+    } else if (key === "unevaluatedProperties" || ((key === "if" || key === "then" || key === "else") && (draft04 || openapi))) {
+      onUnsupported(key, pointer);
+    } else if (key === "examples" && openapi && Array.isArray(value)) {
+      if (value.length > 0) converted.example = value[0];
+    } else if (key === "prefixItems" && Array.isArray(value)) {
+      continue; // handled with items below
+    } else if (key === "items" && Array.isArray(schema.prefixItems)) {
+      continue; // rest element of a tuple, handled below
+    } else if (SCHEMA_MAP_KEYWORDS.has(key) && isObject(value)) {
+      const map: Record<string, JSONSchema> = {};
+      for (const [name, sub] of Object.entries(value)) map[name] = child(sub as JSONSchema, `${key}/${name}`);
+      converted[key === "$defs" ? "definitions" : key] = map;
+    } else if (SCHEMA_ARRAY_KEYWORDS.has(key) && Array.isArray(value)) {
+      const members = value as JSONSchema[];
+      const nonNull = members.filter(m => !(m.type === "null" && Object.keys(m).length === 1));
+      if (openapi && (key === "anyOf" || key === "oneOf") && nonNull.length < members.length) {
+        // A `{ type: "null" }` union member becomes nullable: true on the union
+        Object.assign(converted, nullableUnion(key, nonNull, nonNull.map((sub, i) => child(sub, `${key}/${i}`)), root));
+      } else {
+        converted[key] = members.map((sub, i) => child(sub, `${key}/${i}`));
+      }
+    } else if (SCHEMA_KEYWORDS.has(key) && isObject(value)) {
+      converted[key] = child(value as JSONSchema, key);
+    } else {
+      converted[key] = value;
+    }
+  }
+
+  if (Array.isArray(schema.prefixItems)) {
+    const tuple = schema.prefixItems.map((sub, i) => child(sub, `prefixItems/${i}`));
+    const rest = isObject(schema.items) ? child(schema.items as JSONSchema, "items") : undefined;
+    if (openapi) {
+      // OpenAPI 3.0 `items` is a single schema: accept any of the element types
+      onUnsupported("prefixItems", pointer);
+      const members = rest ? [...tuple, rest] : tuple;
+      converted.items = members.length === 1 ? members[0] : { anyOf: members };
+    } else {
+      (converted as Record<string, unknown>).items = tuple;
+      if (rest) converted.additionalItems = rest;
+    }
+  }
+
+  if (openapi) convertNullable(converted, onUnsupported, pointer);
+  return converted;
+}
+
+/** OpenAPI 3.0 has no "null" type: nullable: true marks a schema that also accepts null. */
+function convertNullable(schema: JSONSchema, onUnsupported: UnsupportedKeywordHandler, pointer: string): void {
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter(t => t !== "null");
+    if (types.length < schema.type.length) schema.nullable = true;
+    if (types.length === 1) {
+      schema.type = types[0];
+    } else {
+      delete schema.type;
+      if (types.length > 1) schema.anyOf = types.map(type => ({ type }));
+    }
+  } else if (schema.type === "null") {
+    // nullable needs a type next to it; the enum leaves null as the only value
+    onUnsupported("type: null", pointer);
+    schema.type = "object";
+    schema.nullable = true;
+    schema.enum = [null];
+  }
+}
+
+/**
+ * OpenAPI 3.0 form of a union that also accepts null. `nullable` only
+ * applies next to a `type`, so the union gets the type its members share:
+ * literal members collapse into one `enum` (`"a" | "b" | null` →
+ * `{ type: "string", enum: ["a", "b", null], nullable: true }`), and a lone
+ * `$ref` moves into `allOf`, where sibling keywords aren't ignored. Without
+ * a shared type, null stays a member of its own.
+ * `members` are the original non-null members, `converted` the same converted.
+ */
+function nullableUnion(key: string, members: JSONSchema[], converted: JSONSchema[], root: JSONSchema): JSONSchema {
+  const type = sharedType(members, root);
+  if (!type) return { [key]: [...converted, { type: "object", nullable: true, enum: [null] }] };
+
+  const literals = converted.every(m => Array.isArray(m.enum) && Object.keys(m).every(k => k === "enum" || k === "type"));
+  if (literals) return { type, enum: [...converted.flatMap(m => m.enum!), null], nullable: true };
+
+  if (converted.length === 1 && converted[0].$ref !== undefined) return { type, nullable: true, allOf: converted };
+  return { type, nullable: true, [key]: converted };
+}
+
+/** The one JSON type every schema's values have, following `$ref`s into `root`'s definitions. */
+function sharedType(schemas: JSONSchema[], root: JSONSchema, seen: Set<string> = new Set()): string | undefined {
+  const types = new Set<string | undefined>();
+  for (const schema of schemas) types.add(typeOf(schema, root, seen));
+  const [type] = types;
+  return types.size === 1 ? type : undefined;
+}
+
+function typeOf(schema: JSONSchema, root: JSONSchema, seen: Set<string>): string | undefined {
+  if (typeof schema.type === "string") return schema.type === "integer" ? "number" : schema.type;
+  if (typeof schema.$ref === "string") {
+    const name = schema.$ref.match(/^#\/(?:\$defs|definitions)\/(.+)$/)?.[1];
+    const definitions = (root.$defs ?? root.definitions) as Record<string, JSONSchema> | undefined;
+    if (name === undefined || !definitions?.[name] || seen.has(name)) return undefined;
+    return typeOf(definitions[name], root, new Set(seen).add(name));
+  }
+  const values = schema.enum ?? ("const" in schema ? [schema.const] : undefined);
+  if (values) {
+    const types = new Set(values.map(v => (v === null ? "null" : Array.isArray(v) ? "array" : typeof v)));
+    const [type] = types;
+    return types.size === 1 && type !== "null" ? type : undefined;
+  }
+  const union = schema.anyOf ?? schema.oneOf;
+  return union ? sharedType(union, root, seen) : undefined;
+}
+
+function toDefinitionsPointer(ref: string): string {
+  return ref.replace(/^#\/\$defs\//, "#/definitions/");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isDiscriminator(value: unknown): value is { propertyName: string; mapping?: Record<string, string> } {
+  return isObject(value) && typeof value.propertyName === "string";
+}
@@ -7,8 +7,10 @@ export type TokenType =
   | "primitive"     // string, number, boolean, null, undefined, any, unknown, never, void, object, bigint
   | "identifier"    // any other name
   | "string"        // "hello" or 'hello'
+  | "template"      // `hello ${T}` (raw text between the backticks)
+  | "decorator"     // @Min(1) (raw text after the @, arguments included)
   | "number"        // 42, 3.14
-  | "punctuation"   // { } ( ) [ ] : ; , ? | & = < > .
+  | "punctuation"   // { } ( ) [ ] : ; , ? | & = < > . + -
   | "jsdoc"         // /** ... */
   | "newline"       // \n
   | "eof";
@@ -23,7 +25,8 @@ export interface Token {
 const KEYWORDS = new Set([
   "interface", "type", "export", "extends", "enum", "const", "readonly",
   "import", "from", "as", "declare", "module", "namespace", "function",
-  "class", "var", "let", "default", "abstract",
+  "class", "var", "let", "default", "abstract", "keyof",
+  "typeof", "infer",
 ]);
 
 const PRIMITIVES = new Set([
@@ -34,6 +37,7 @@ const PRIMITIVES = new Set([
 
 const PUNCTUATION = new Set([
   "{", "}", "(", ")", "[", "]", ":", ";", ",", "?", "|", "&", "=", "<", ">", ".", "*",
+  "+", "-", // mapped type modifiers: -readonly, +?
 ]);
 
 export function tokenize(source: string): Token[] {
@@ -124,6 +128,57 @@ export function tokenize(source: string): Token[] {
     return word;
   }
 
+  /**
+   * Reads a decorator after its `@`: a (dotted) name plus, if present, the
+   * raw call arguments with balanced parentheses. Strings, template literals
+   * and regex literals inside the arguments are skipped over intact.
+   */
+  function readDecorator(): string {
+    advance(); // @
+    let value = readWord();
+    while (peek() === "." && /[a-zA-Z_$]/.test(peek(1))) {
+      value += advance() + readWord();
+    }
+    if (peek() !== "(") return value;
+
+    let depth = 0;
+    let prev = "";
+    while (i < source.length) {
+      const c = peek();
+      if (c === '"' || c === "'" || c === "`") {
+        const quote = advance();
+        value += quote;
+        while (i < source.length && peek() !== quote) {
+          if (peek() === "\\") value += advance();
+          value += advance();
+        }
+        value += advance();
+        prev = quote;
+        continue;
+      }
+      if (c === "/" && /[(,:[=!&|?{}]/.test(prev)) {
+        // Regex literal: up to the closing unescaped `/` outside a character class
+        value += advance();
+        let inClass = false;
+        while (i < source.length && (peek() !== "/" || inClass) && peek() !== "\n") {
+          if (peek() === "\\") value += advance();
+          else if (peek() === "[") inClass = true;
+          else if (peek() === "]") inClass = false;
+          value += advance();
+        }
+        value += advance(); // closing /
+        while (/[a-z]/.test(peek())) value += advance(); // flags
+        prev = "/";
+        continue;
+      }
+      value += advance();
+      if (c === "(") depth++;
+      if (c === ")" && --depth === 0) break;
+      if (!/\s/.test(c)) prev = c;
+    }
+    return value;
+  }
+
   function readNumber(): string {
     let num = "";
     // Handle negative numbers
@@ -177,15 +232,24 @@ export function tokenize(source: string): Token[] {
       continue;
     }
 
-    // Template literal (backtick) - read as string for now
+    // Template literal (backtick) - kept raw (escapes and ${...} intact),
+    // the parser splits it into parts
     if (ch === "`") {
       advance(); // opening backtick
       let value = "";
       while (i < source.length && peek() !== "`") {
+        if (peek() === "\\") value += advance(); // backslash: also take the escaped char (e.g. \`)
         value += advance();
       }
       if (i < source.length) advance(); // closing backtick
-      tokens.push({ type: "string", value, line: startLine, col: startCol });
+      tokens.push({ type: "template", value, line: startLine, col: startCol });
+      continue;
+    }
+
+    // Decorators: @Name or @Name(args)
+    if (ch === "@" && /[a-zA-Z_$]/.test(peek(1))) {
+      const value = readDecorator();
+      tokens.push({ type: "decorator", value, line: startLine, col: startCol });
       continue;
     }
 
@@ -196,9 +260,9 @@ export function tokenize(source: string): Token[] {
       continue;
     }
 
-    // Words (keywords, primitives, identifiers)
-    if (/[a-zA-Z_$]/.test(ch)) {
-      const word = readWord();
+    // Words (keywords, primitives, identifiers); `#name` is a private class member
+    if (/[a-zA-Z_$]/.test(ch) || (ch === "#" && /[a-zA-Z_$]/.test(peek(1)))) {
+      const word = ch === "#" ? advance() + readWord() : readWord();
       if (PRIMITIVES.has(word)) {
         tokens.push({ type: "primitive", value: word, line: startLine, col: startCol });
       } else if (KEYWORDS.has(word)) {
@@ -0,0 +1,327 @@
+// ============================================================================
+// Type Guards - Generates `isUser(x: unknown): x is User` functions
+// ============================================================================
+//
+// Works from the JSON Schema the Emitter produces, like the validator
+// backend, but each `$defs` entry becomes a boolean guard instead of a
+// function collecting errors. Guards reference each other by name, so
+// recursive types need no special handling. The generated module imports the
+// original types with `import type`: from the file each declaration came
+// from (`sourceFile`, set by the ModuleResolver) relative to `outFile`, or
+// from `typesModule` for declarations parsed from a string.
+//
+// Guards check what the type says: `type`, `const`, `enum`, properties
+// (optional ones may be undefined), index signatures, items, tuples and the
+// union/intersection keywords. `pattern` is checked too, as template literal
+// types become one. `Date` and `bigint` are checked as those runtime values
+// (`instanceof Date`, `typeof x === "bigint"`), not as their JSON forms.
+// Constraints without a type-level counterpart (minLength, minimum,
+// format, ...) are not, and neither are excess properties, since
+// TypeScript object types allow them.
+
+import * as path from "path";
+import type { Declaration } from "./ast.js";
+import { Emitter, type EmitterOptions, type JSONSchema } from "./emitter.js";
+import { GENERATED_HEADER, TYPE_CONDITIONS, ModuleScope, identifiers, refName } from "./codegen.js";
+
+export type TypeGuardOptions = Pick<
+  EmitterOptions,
+  | "onDuplicateDeclarations" | "onUnresolvedReferences" | "decorators"
+  | "namedGenericInstantiations" | "genericInstantiationName"
+> & {
+  /**
+   * Path the generated module will be written to. Imports of declarations
+   * read from files are relative to its directory. Default: "guards.ts" in
+   * the working directory
+   */
+  outFile?: string;
+  /** Module declarations without a source file (parsed from a string) are imported from. Default: "./types" */
+  typesModule?: string;
+  /** Appended to relative import paths, e.g. ".js" for NodeNext resolution. Default: "" */
+  importExtension?: string;
+};
+
+export class TypeGuardGenerator {
+  private emitter: Emitter;
+  private declarations = new Map<string, Declaration>();
+  private outDir: string;
+  private typesModule: string;
+  private importExtension: string;
+  private defs: Record<string, JSONSchema> = {};
+  /** Module-level constants (compiled patterns) and local variable names */
+  private scope = new ModuleScope();
+  /** Definition name → identifier the generated functions are named after */
+  private ids = new Map<string, string>();
+  private usesIsObject = false;
+
+  constructor(declarations: Declaration[], options: TypeGuardOptions = {}) {
+    const { outFile, typesModule, importExtension, ...emitterOptions } = options;
+    this.outDir = path.dirname(path.resolve(outFile ?? "guards.ts"));
+    this.typesModule = typesModule ?? "./types";
+    this.importExtension = importExtension ?? "";
+    for (const decl of declarations) {
+      if (decl.kind !== "const" && !this.declarations.has(decl.name)) this.declarations.set(decl.name, decl);
+    }
+    this.emitter = new Emitter(declarations, { ...emitterOptions, includeSchema: false, markRuntimeTypes: true });
+  }
+
+  /**
+   * Returns the source of a module exporting one `is<Name>(x)` guard per
+   * exported type. Types that can't be imported (non-exported declarations,
+   * named generic instantiations) get a module-private boolean guard when an
+   * exported guard needs one, and are left out otherwise.
+   */
+  generate(): string {
+    this.defs = (this.emitter.emit().$defs as Record<string, JSONSchema> | undefined) ?? {};
+    this.scope = new ModuleScope();
+    this.ids = identifiers(Object.keys(this.defs));
+    this.usesIsObject = false;
+
+    const exported = Object.keys(this.defs).filter(name => this.importable(name));
+    const reachable = this.reachableDefinitions(exported);
+
+    const imports = new Map<string, Set<string>>();
+    const guards: string[] = [];
+    for (const name of Object.keys(this.defs)) {
+      if (!reachable.has(name)) continue;
+      const terms = this.conditions(this.defs[name], "x");
+      const body = terms.length === 0 ? "true" : terms.join(" &&\n    ");
+
+      if (exported.includes(name)) {
+        const specifier = this.importSpecifier(this.declarations.get(name)!);
+        if (specifier !== undefined) {
+          if (!imports.has(specifier)) imports.set(specifier, new Set());
+          imports.get(specifier)!.add(name.split(".")[0]);
+        }
+        guards.push(`export function is${this.identifier(name)}(x: unknown): x is ${name} {`);
+      } else {
+        guards.push(`function is${this.identifier(name)}(x: unknown): boolean {`);
+      }
+      guards.push(`  return ${body};`, "}", "");
+    }
+
+    const lines = [GENERATED_HEADER, ""];
+    if (imports.size > 0) {
+      for (const [specifier, names] of imports) {
+        lines.push(`import type { ${[...names].sort().join(", ")} } from ${JSON.stringify(specifier)};`);
+      }
+      lines.push("");
+    }
+    if (this.usesIsObject) {
+      lines.push(
+        "function isObject(x: unknown): x is Record<string, unknown> {",
+        '  return typeof x === "object" && x !== null && !Array.isArray(x);',
+        "}",
+        ""
+      );
+    }
+    if (this.scope.constants.length > 0) lines.push(...this.scope.constants, "");
+    lines.push(...guards);
+    return lines.join("\n").replace(/\n+$/, "\n");
+  }
+
+  // ---------------------------------------------------------------------------
+  // Imports
+  // ---------------------------------------------------------------------------
+
+  /** Whether the guard can name the type: it comes from an exported (or ambient) declaration. */
+  private importable(name: string): boolean {
+    const decl = this.declarations.get(name);
+    if (!decl) return false;
+    return decl.exported || (decl.kind === "interface" && decl.augments !== undefined);
+  }
+
+  /** Module the type is imported from; undefined for `declare global` types, which need no import. */
+  private importSpecifier(decl: Declaration): string | undefined {
+    if (decl.kind === "interface" && decl.augments !== undefined) {
+      return decl.augments === "global" ? undefined : decl.augments;
+    }
+    if (!decl.sourceFile) return this.typesModule;
+
+    const withoutExtension = decl.sourceFile.replace(/(\.d)?\.[cm]?tsx?$/, "");
+    const nodeModules = withoutExtension.lastIndexOf(`${path.sep}node_modules${path.sep}`);
+    if (nodeModules !== -1) {
+      // A package's types are imported by package name
+      return withoutExtension
+        .slice(nodeModules + "/node_modules/".length)
+        .split(path.sep).join("/")
+        .replace(/^@types\/(?:([^/]+)__)?/, (_, scope) => (scope ? `@${scope}/` : ""))
+        .replace(/\/index$/, "");
+    }
+
+    const relative = path.relative(this.outDir, withoutExtension).split(path.sep).join("/");
+    return (relative.startsWith(".") ? relative : `./${relative}`) + this.importExtension;
+  }
+
+  /** Names of the given definitions and those they reference, directly or through others. */
+  private reachableDefinitions(names: string[]): Set<string> {
+    const seen = new Set<string>();
+    const visit = (name: string): void => {
+      if (seen.has(name) || !this.defs[name]) return;
+      seen.add(name);
+      walk(this.defs[name]);
+    };
+    const walk = (node: unknown): void => {
+      if (typeof node !== "object" || node === null) return;
+      const name = refName((node as JSONSchema).$ref);
+      if (name !== undefined) visit(name);
+      for (const value of Object.values(node)) walk(value);
+    };
+    for (const name of names) visit(name);
+    return seen;
+  }
+
+  private identifier(name: string): string {
+    return this.ids.get(name)!;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Schema → boolean expression
+  // ---------------------------------------------------------------------------
+
+  private condition(schema: JSONSchema | boolean, v: string): string {
+    return and(this.conditions(schema, v));
+  }
+
+  /** Conditions that must all hold for `v` to match `schema`; empty when anything matches. */
+  private conditions(schema: JSONSchema | boolean, v: string): string[] {
+    if (schema === true) return [];
+    if (schema === false) return ["false"];
+
+    const out: string[] = [];
+
+    if (schema.$ref !== undefined) {
+      // References to types the source doesn't define can't be checked
+      const name = refName(schema.$ref);
+      if (name !== undefined && this.defs[name]) out.push(`is${this.identifier(name)}(${v})`);
+    }
+
+    for (const member of schema.allOf ?? []) {
+      out.push(...this.conditions(member, v));
+    }
+    for (const members of [schema.anyOf, schema.oneOf]) {
+      if (members) out.push(or(members.map(m => this.condition(m, v))));
+    }
+
+    if (schema.not !== undefined) {
+      const inner = this.condition(schema.not as JSONSchema, v);
+      out.push(inner === "true" ? "false" : `!(${inner})`);
+    }
+
+    if (schema.if !== undefined) {
+      const test = this.condition(schema.if as JSONSchema, v);
+      const then = schema.then !== undefined ? this.condition(schema.then as JSONSchema, v) : "true";
+      const otherwise = schema.else !== undefined ? this.condition(schema.else as JSONSchema, v) : "true";
+      if (then !== "true" || otherwise !== "true") out.push(`(${test} ? ${then} : ${otherwise})`);
+    }
+
+    if (schema.const !== undefined) out.push(`${v} === ${JSON.stringify(schema.const)}`);
+    if (schema.enum) out.push(or(schema.enum.map(value => `${v} === ${JSON.stringify(value)}`)));
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (types.includes("object")) this.usesIsObject = true;
+      if (types.length === 1) {
+        // Literals already pin down a primitive type
+        const literal = schema.const !== undefined || schema.enum !== undefined;
+        if (!literal || types[0] === "array" || types[0] === "object") out.push(this.typeCondition(types[0], schema, v));
+        out.push(...this.typeConditions(types[0], schema, v));
+      } else {
+        out.push(or(types.map(type => and([this.typeCondition(type, schema, v), ...this.typeConditions(type, schema, v)]))));
+      }
+    }
+
+    return out.filter(c => c !== "true");
+  }
+
+  /**
+   * The check for one JSON type. `Date` and `bigint` (marked by the Emitter)
+   * are checked as the runtime values the TypeScript type describes rather
+   * than as their JSON forms.
+   */
+  private typeCondition(type: string, schema: JSONSchema, v: string): string {
+    if (type === "string" && schema["x-ts-type"] === "Date") return `${v} instanceof Date`;
+    if (type === "integer" && schema["x-ts-type"] === "bigint") return `typeof ${v} === "bigint"`;
+    return TYPE_CONDITIONS[type](v);
+  }
+
+  private typeConditions(type: string, schema: JSONSchema, v: string): string[] {
+    switch (type) {
+      case "string":
+        if (schema.pattern === undefined || schema["x-ts-type"] === "Date") return [];
+        return [`${this.scope.constant("pattern", `new RegExp(${JSON.stringify(schema.pattern)})`)}.test(${v})`];
+      case "array":
+        return this.arrayConditions(schema, v);
+      case "object":
+        return this.objectConditions(schema, v);
+      default:
+        return [];
+    }
+  }
+
+  private arrayConditions(schema: JSONSchema, v: string): string[] {
+    const out: string[] = [];
+    const prefix: JSONSchema[] = schema.prefixItems ?? [];
+
+    if (prefix.length > 0) {
+      // A tuple's length is part of its type
+      const min = schema.minItems ?? 0;
+      if (min > 0) out.push(`${v}.length >= ${min}`);
+      if (schema.maxItems !== undefined) out.push(`${v}.length <= ${schema.maxItems}`);
+      prefix.forEach((item, i) => {
+        const element = this.condition(item, `${v}[${i}]`);
+        out.push(i < min ? element : or([`${v}.length <= ${i}`, element]));
+      });
+    }
+
+    if (schema.items !== undefined) {
+      const e = this.scope.variable("e");
+      const element = this.condition(schema.items, e);
+      if (element !== "true") {
+        const elements = prefix.length > 0 ? `${v}.slice(${prefix.length})` : v;
+        out.push(`${elements}.every((${e}) => ${element})`);
+      }
+    }
+
+    return out.filter(c => c !== "true");
+  }
+
+  private objectConditions(schema: JSONSchema, v: string): string[] {
+    const out: string[] = [];
+    const required = new Set(schema.required ?? []);
+
+    for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+      const access = `${v}[${JSON.stringify(name)}]`;
+      const value = this.condition(prop as JSONSchema, access);
+      if (required.has(name)) {
+        // A required property of type `unknown` must still be present
+        out.push(value === "true" ? `${JSON.stringify(name)} in ${v}` : value);
+      } else {
+        out.push(or([`${access} === undefined`, value]));
+      }
+    }
+
+    // Declared properties conform to the index signature, so every value is checked
+    const additional = schema.additionalProperties;
+    if (typeof additional === "object") {
+      const e = this.scope.variable("e");
+      const value = this.condition(additional, e);
+      if (value !== "true") out.push(`Object.values(${v}).every((${e}) => ${value})`);
+    }
+
+    return out.filter(c => c !== "true");
+  }
+}
+
+function and(terms: string[]): string {
+  const kept = terms.filter(t => t !== "true");
+  if (kept.includes("false")) return "false";
+  return kept.length === 0 ? "true" : kept.join(" && ");
+}
+
+function or(terms: string[]): string {
+  if (terms.includes("true")) return "true";
+  const kept = terms.filter(t => t !== "false");
+  if (kept.length === 0) return "false";
+  return kept.length === 1 ? kept[0] : `(${kept.join(" || ")})`;
+}
@@ -0,0 +1,459 @@
+// ============================================================================
+// Validator - Generates standalone validation functions (no Ajv at runtime)
+// ============================================================================
+//
+// Works from the JSON Schema the Emitter produces: each `$defs` entry gets a
+// check function, and each exported `validate<Name>(data)` runs one of them
+// and returns `{ valid, errors }`. Errors carry JSON-pointer paths
+// ("/items/0/price"). Check functions call each other for `$ref`, so
+// recursive types need no special handling.
+//
+// Covered keywords: $ref, type, enum, const, properties, required,
+// additionalProperties, unevaluatedProperties (approximated by the property
+// names the subschemas declare), items, prefixItems, minItems, maxItems,
+// uniqueItems, minLength, maxLength, pattern, minimum, maximum,
+// exclusiveMinimum, exclusiveMaximum, minProperties, anyOf, oneOf, allOf,
+// not, if/then/else. `format` is not checked.
+
+import type { Declaration } from "./ast.js";
+import { Emitter, type EmitterOptions, type JSONSchema } from "./emitter.js";
+import { GENERATED_HEADER, TYPE_CONDITIONS, ModuleScope, identifiers, refName } from "./codegen.js";
+
+export type ValidatorOptions = Omit<EmitterOptions, "rootType" | "includeSchema" | "schemaVersion" | "target" | "defineId"> & {
+  /** Emit TypeScript (typed) or plain JavaScript. Default: "typescript" */
+  language?: "typescript" | "javascript";
+};
+
+// Keywords that only apply to values of one type
+const STRING_KEYWORDS = ["minLength", "maxLength", "pattern"];
+const NUMBER_KEYWORDS = ["minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum"];
+const ARRAY_KEYWORDS = ["items", "prefixItems", "minItems", "maxItems", "uniqueItems"];
+const OBJECT_KEYWORDS = ["properties", "required", "additionalProperties", "unevaluatedProperties", "minProperties"];
+
+export class ValidatorGenerator {
+  private emitter: Emitter;
+  private typescript: boolean;
+  private defs: Record<string, JSONSchema> = {};
+  /** Module-level constants (compiled patterns, key sets) and local variable names */
+  private scope = new ModuleScope();
+  /** Definition name → identifier the generated functions are named after */
+  private ids = new Map<string, string>();
+
+  constructor(declarations: Declaration[], options: ValidatorOptions = {}) {
+    const { language, ...emitterOptions } = options;
+    this.typescript = (language ?? "typescript") === "typescript";
+    this.emitter = new Emitter(declarations, { ...emitterOptions, includeSchema: false });
+  }
+
+  /** Returns the source of a module exporting one `validate<Name>(data)` per type. */
+  generate(): string {
+    this.defs = (this.emitter.emit().$defs as Record<string, JSONSchema> | undefined) ?? {};
+    this.scope = new ModuleScope();
+    this.ids = identifiers(Object.keys(this.defs));
+
+    const checks: string[] = [];
+    const validators: string[] = [];
+    for (const [name, schema] of Object.entries(this.defs)) {
+      const id = this.identifier(name);
+      checks.push(
+        `function check${id}(v${this.type("any")}, p${this.type("string")}, errors${this.type("ValidationError[]")})${this.type("void")} {`,
+        ...this.check(schema, "v", "p", "errors", "  "),
+        "}",
+        ""
+      );
+      validators.push(
+        `export function validate${id}(data${this.type("unknown")})${this.type("ValidationResult")} {`,
+        `  const errors${this.type("ValidationError[]")} = [];`,
+        `  check${id}(data, "", errors);`,
+        "  return { valid: errors.length === 0, errors };",
+        "}",
+        ""
+      );
+    }
+
+    const lines = [GENERATED_HEADER, ""];
+    if (this.typescript) {
+      lines.push(
+        "export interface ValidationError {",
+        "  /** JSON pointer to the failing value (\"\" for the root) */",
+        "  path: string;",
+        "  keyword: string;",
+        "  message: string;",
+        "}",
+        "",
+        "export interface ValidationResult {",
+        "  valid: boolean;",
+        "  errors: ValidationError[];",
+        "}",
+        ""
+      );
+    }
+    lines.push(
+      `function isObject(v${this.type("unknown")})${this.type("v is Record<string, unknown>")} {`,
+      '  return typeof v === "object" && v !== null && !Array.isArray(v);',
+      "}",
+      "",
+      `function has(o${this.type("object")}, key${this.type("string")})${this.type("boolean")} {`,
+      "  return Object.prototype.hasOwnProperty.call(o, key);",
+      "}",
+      "",
+      `function pointer(key${this.type("string")})${this.type("string")} {`,
+      '  return "/" + key.replace(/~/g, "~0").replace(/\\//g, "~1");',
+      "}",
+      ""
+    );
+    if (this.scope.constants.length > 0) lines.push(...this.scope.constants, "");
+    lines.push(...checks, ...validators);
+    return lines.join("\n").replace(/\n+$/, "\n");
+  }
+
+  /** `: T` in TypeScript output, nothing in JavaScript. */
+  private type(annotation: string): string {
+    return this.typescript ? `: ${annotation}` : "";
+  }
+
+  private identifier(name: string): string {
+    return this.ids.get(name)!;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Schema → statements
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Statements checking the value `v` against `schema`. `p` is an expression
+   * for its path, only evaluated when an error is reported; `errors` is the
+   * array failures are pushed to.
+   */
+  private check(schema: JSONSchema, v: string, p: string, errors: string, indent: string): string[] {
+    const out: string[] = [];
+    const fail = (keyword: string, message: string, path = p) =>
+      `${errors}.push({ path: ${path}, keyword: ${JSON.stringify(keyword)}, message: ${JSON.stringify(message)} });`;
+
+    if (schema.$ref !== undefined) {
+      const name = refName(schema.$ref);
+      // Unresolved references accept anything
+      if (name !== undefined && this.defs[name]) out.push(`${indent}check${this.identifier(name)}(${v}, ${p}, ${errors});`);
+    }
+
+    if (schema.not !== undefined) {
+      if (Object.keys(schema.not as JSONSchema).length === 0) {
+        out.push(`${indent}${fail("not", "must NOT be valid")}`);
+      } else {
+        const sub = this.scope.variable("e");
+        out.push(
+          `${indent}const ${sub}${this.type("ValidationError[]")} = [];`,
+          ...this.check(schema.not as JSONSchema, v, p, sub, indent),
+          `${indent}if (${sub}.length === 0) ${fail("not", "must NOT be valid")}`
+        );
+      }
+    }
+
+    if (schema.const !== undefined) {
+      out.push(`${indent}if (${this.notEqual(v, schema.const)}) ${fail("const", `must be equal to ${JSON.stringify(schema.const)}`)}`);
+    }
+
+    if (schema.enum) {
+      const allowed = schema.enum.map(value => JSON.stringify(value)).join(", ");
+      const condition = schema.enum.every(value => value === null || typeof value !== "object")
+        ? `!${this.scope.constant("allowed", `new Set${this.typescript ? "<unknown>" : ""}([${allowed}])`)}.has(${v})`
+        : schema.enum.map(value => this.notEqual(v, value)).join(" && ");
+      out.push(`${indent}if (${condition}) ${fail("enum", `must be one of ${allowed}`)}`);
+    }
+
+    out.push(...this.checkTyped(schema, v, p, errors, indent, fail));
+
+    for (const member of schema.allOf ?? []) {
+      out.push(...this.check(member, v, p, errors, indent));
+    }
+    if (schema.anyOf) out.push(...this.checkUnion("anyOf", schema.anyOf, v, p, indent, fail));
+    if (schema.oneOf) out.push(...this.checkUnion("oneOf", schema.oneOf, v, p, indent, fail));
+
+    if (schema.if !== undefined) {
+      const sub = this.scope.variable("e");
+      out.push(
+        `${indent}const ${sub}${this.type("ValidationError[]")} = [];`,
+        ...this.check(schema.if as JSONSchema, v, p, sub, indent)
+      );
+      const thenChecks = schema.then ? this.check(schema.then as JSONSchema, v, p, errors, `${indent}  `) : [];
+      const elseChecks = schema.else ? this.check(schema.else as JSONSchema, v, p, errors, `${indent}  `) : [];
+      if (thenChecks.length > 0 || elseChecks.length > 0) {
+        out.push(`${indent}if (${sub}.length === 0) {`, ...thenChecks);
+        if (elseChecks.length > 0) out.push(`${indent}} else {`, ...elseChecks);
+        out.push(`${indent}}`);
+      }
+    }
+
+    return out;
+  }
+
+  /**
+   * The `type` check, followed by the keywords that only apply to values of
+   * that type. With a single type, those go in the `else` of the type check;
+   * otherwise each group is guarded by its own type test.
+   */
+  private checkTyped(
+    schema: JSONSchema,
+    v: string,
+    p: string,
+    errors: string,
+    indent: string,
+    fail: (keyword: string, message: string, path?: string) => string
+  ): string[] {
+    const inner = `${indent}  `;
+    const groups: [string, string[]][] = [
+      ["string", this.checkString(schema, v, errors, inner, fail)],
+      ["number", this.checkNumber(schema, v, inner, fail)],
+      ["array", this.checkArray(schema, v, p, errors, inner, fail)],
+      ["object", this.checkObject(schema, v, p, errors, inner, fail)],
+    ];
+    const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+    const out: string[] = [];
+    if (types.length > 0) {
+      const condition = types.map(t => TYPE_CONDITIONS[t]?.(v) ?? "true").join(" || ");
+      const only = types.length === 1 ? (types[0] === "integer" ? "number" : types[0]) : undefined;
+      const body = groups.find(([group]) => group === only)?.[1] ?? [];
+      out.push(`${indent}if (${negate(condition)}) {`, `${inner}${fail("type", `must be ${types.join(",")}`)}`);
+      if (body.length > 0) out.push(`${indent}} else {`, ...body);
+      out.push(`${indent}}`);
+      if (only !== undefined) return out;
+    }
+
+    for (const [group, body] of groups) {
+      if (body.length === 0) continue;
+      out.push(`${indent}if (${TYPE_CONDITIONS[group](v)}) {`, ...body, `${indent}}`);
+    }
+    return out;
+  }
+
+  private checkString(
+    schema: JSONSchema,
+    v: string,
+    errors: string,
+    indent: string,
+    fail: (keyword: string, message: string) => string
+  ): string[] {
+    if (!STRING_KEYWORDS.some(k => schema[k] !== undefined)) return [];
+    const out: string[] = [];
+    if (schema.minLength !== undefined || schema.maxLength !== undefined) {
+      // Length in code points, as JSON Schema counts it
+      const length = this.scope.variable("n");
+      out.push(`${indent}const ${length} = [...${v}].length;`);
+      if (schema.minLength !== undefined) {
+        out.push(`${indent}if (${length} < ${schema.minLength}) ${fail("minLength", `must NOT have fewer than ${schema.minLength} characters`)}`);
+      }
+      if (schema.maxLength !== undefined) {
+        out.push(`${indent}if (${length} > ${schema.maxLength}) ${fail("maxLength", `must NOT have more than ${schema.maxLength} characters`)}`);
+      }
+    }
+    if (schema.pattern !== undefined) {
+      const regex = this.scope.constant("pattern", `new RegExp(${JSON.stringify(schema.pattern)})`);
+      out.push(`${indent}if (!${regex}.test(${v})) ${fail("pattern", `must match pattern "${schema.pattern}"`)}`);
+    }
+    return out;
+  }
+
+  private checkNumber(
+    schema: JSONSchema,
+    v: string,
+    indent: string,
+    fail: (keyword: string, message: string) => string
+  ): string[] {
+    if (!NUMBER_KEYWORDS.some(k => schema[k] !== undefined)) return [];
+    const out: string[] = [];
+    const bounds: [string, string][] = [["minimum", ">="], ["maximum", "<="], ["exclusiveMinimum", ">"], ["exclusiveMaximum", "<"]];
+    for (const [keyword, operator] of bounds) {
+      const limit = schema[keyword];
+      if (typeof limit !== "number") continue;
+      out.push(`${indent}if (!(${v} ${operator} ${limit})) ${fail(keyword, `must be ${operator} ${limit}`)}`);
+    }
+    return out;
+  }
+
+  private checkArray(
+    schema: JSONSchema,
+    v: string,
+    p: string,
+    errors: string,
+    indent: string,
+    fail: (keyword: string, message: string) => string
+  ): string[] {
+    if (!ARRAY_KEYWORDS.some(k => schema[k] !== undefined)) return [];
+    const out: string[] = [];
+
+    if (schema.minItems !== undefined) {
+      out.push(`${indent}if (${v}.length < ${schema.minItems}) ${fail("minItems", `must NOT have fewer than ${schema.minItems} items`)}`);
+    }
+    if (schema.maxItems !== undefined) {
+      out.push(`${indent}if (${v}.length > ${schema.maxItems}) ${fail("maxItems", `must NOT have more than ${schema.maxItems} items`)}`);
+    }
+
+    const prefix = schema.prefixItems ?? [];
+    prefix.forEach((item, i) => {
+      const element = this.scope.variable("v");
+      const body = this.check(item, element, appendPath(p, `/${i}`), errors, `${indent}  `);
+      if (body.length === 0) return;
+      out.push(`${indent}if (${v}.length > ${i}) {`, `${indent}  const ${element} = ${v}[${i}];`, ...body, `${indent}}`);
+    });
+
+    if (schema.items) {
+      const i = this.scope.variable("i");
+      const element = this.scope.variable("v");
+      const body = this.check(schema.items, element, `${p} + "/" + ${i}`, errors, `${indent}  `);
+      if (body.length > 0) {
+        out.push(
+          `${indent}for (let ${i} = ${prefix.length}; ${i} < ${v}.length; ${i}++) {`,
+          `${indent}  const ${element} = ${v}[${i}];`,
+          ...body,
+          `${indent}}`
+        );
+      }
+    }
+
+    if (schema.uniqueItems === true) {
+      const seen = this.scope.variable("seen");
+      const i = this.scope.variable("i");
+      out.push(
+        `${indent}const ${seen} = new Set${this.typescript ? "<string>" : ""}();`,
+        `${indent}for (let ${i} = 0; ${i} < ${v}.length; ${i}++) {`,
+        `${indent}  const key = JSON.stringify(${v}[${i}]);`,
+        `${indent}  if (${seen}.has(key)) {`,
+        `${indent}    ${fail("uniqueItems", "must NOT have duplicate items")}`,
+        `${indent}    break;`,
+        `${indent}  }`,
+        `${indent}  ${seen}.add(key);`,
+        `${indent}}`
+      );
+    }
+    return out;
+  }
+
+  private checkObject(
+    schema: JSONSchema,
+    v: string,
+    p: string,
+    errors: string,
+    indent: string,
+    fail: (keyword: string, message: string, path?: string) => string
+  ): string[] {
+    if (!OBJECT_KEYWORDS.some(k => schema[k] !== undefined)) return [];
+    const out: string[] = [];
+
+    for (const name of schema.required ?? []) {
+      out.push(`${indent}if (!has(${v}, ${JSON.stringify(name)})) ${fail("required", `must have required property '${name}'`)}`);
+    }
+    if (typeof schema.minProperties === "number") {
+      out.push(`${indent}if (Object.keys(${v}).length < ${schema.minProperties}) ${fail("minProperties", `must NOT have fewer than ${schema.minProperties} properties`)}`);
+    }
+
+    for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+      const value = this.scope.variable("v");
+      const body = this.check(prop, value, appendPath(p, escapePointer(name)), errors, `${indent}  `);
+      if (body.length === 0) continue;
+      out.push(
+        `${indent}if (has(${v}, ${JSON.stringify(name)})) {`,
+        `${indent}  const ${value} = ${v}[${JSON.stringify(name)}];`,
+        ...body,
+        `${indent}}`
+      );
+    }
+
+    // Keys not covered by properties (or, for unevaluatedProperties, by any subschema)
+    const additional = schema.additionalProperties;
+    const unevaluated = schema.unevaluatedProperties;
+    const extra = additional !== undefined && additional !== true
+      ? { keyword: "additionalProperties", rule: additional, known: Object.keys(schema.properties ?? {}) }
+      : unevaluated !== undefined && unevaluated !== true
+        ? { keyword: "unevaluatedProperties", rule: unevaluated as boolean | JSONSchema, known: this.declaredProperties(schema) }
+        : undefined;
+    if (extra) {
+      const key = this.scope.variable("k");
+      const known = extra.known.length > 0 ? this.scope.constant("known", `new Set([${extra.known.map(k => JSON.stringify(k)).join(", ")}])`) : undefined;
+      const path = `${p} + pointer(${key})`;
+      const body = extra.rule === false
+        ? [`${fail(extra.keyword, "must NOT have additional properties", path)}`]
+        : (() => {
+          const value = this.scope.variable("v");
+          return [`const ${value} = ${v}[${key}];`, ...this.check(extra.rule as JSONSchema, value, path, errors, "")];
+        })();
+      const bodyIndent = known ? `${indent}    ` : `${indent}  `;
+      out.push(`${indent}for (const ${key} of Object.keys(${v})) {`);
+      if (known) out.push(`${indent}  if (!${known}.has(${key})) {`);
+      out.push(...body.map(line => bodyIndent + line));
+      if (known) out.push(`${indent}  }`);
+      out.push(`${indent}}`);
+    }
+    return out;
+  }
+
+  /**
+   * The property names a schema's subschemas (allOf/anyOf/oneOf branches,
+   * references, then/else) declare: the keys unevaluatedProperties: false
+   * lets through. Over-approximates, since keys of failing branches count too.
+   */
+  private declaredProperties(schema: JSONSchema, seen = new Set<string>()): string[] {
+    const names = new Set(Object.keys(schema.properties ?? {}));
+    const name = refName(schema.$ref);
+    const nested: unknown[] = [
+      ...(schema.allOf ?? []), ...(schema.anyOf ?? []), ...(schema.oneOf ?? []), schema.then, schema.else,
+    ];
+    if (name !== undefined && this.defs[name] && !seen.has(name)) {
+      seen.add(name);
+      nested.push(this.defs[name]);
+    }
+    for (const sub of nested) {
+      if (typeof sub !== "object" || sub === null) continue;
+      for (const n of this.declaredProperties(sub as JSONSchema, seen)) names.add(n);
+    }
+    return [...names];
+  }
+
+  private checkUnion(
+    keyword: "anyOf" | "oneOf",
+    members: JSONSchema[],
+    v: string,
+    p: string,
+    indent: string,
+    fail: (keyword: string, message: string) => string
+  ): string[] {
+    const matches = this.scope.variable("matches");
+    const out = [`${indent}let ${matches} = 0;`];
+    for (const member of members) {
+      const sub = this.scope.variable("e");
+      out.push(
+        `${indent}{`,
+        `${indent}  const ${sub}${this.type("ValidationError[]")} = [];`,
+        ...this.check(member, v, p, sub, `${indent}  `),
+        `${indent}  if (${sub}.length === 0) ${matches}++;`,
+        `${indent}}`
+      );
+    }
+    out.push(
+      keyword === "anyOf"
+        ? `${indent}if (${matches} === 0) ${fail("anyOf", "must match a schema in anyOf")}`
+        : `${indent}if (${matches} !== 1) ${fail("oneOf", "must match exactly one schema in oneOf")}`
+    );
+    return out;
+  }
+
+  private notEqual(v: string, value: unknown): string {
+    return value === null || typeof value !== "object"
+      ? `${v} !== ${JSON.stringify(value)}`
+      : `JSON.stringify(${v}) !== ${JSON.stringify(JSON.stringify(value))}`;
+  }
+}
+
+
+/** Appends a literal segment to a path expression, folding it into a trailing string literal. */
+function appendPath(p: string, segment: string): string {
+  return p.endsWith('"') ? p.slice(0, -1) + JSON.stringify(segment).slice(1) : `${p} + ${JSON.stringify(segment)}`;
+}
+
+function negate(condition: string): string {
+  return /^[\w.]+\([\w]*\)$/.test(condition) ? `!${condition}` : `!(${condition})`;
+}
+
+function escapePointer(key: string): string {
+  return "/" + key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
@@ -0,0 +1,331 @@
+// ============================================================================
+// Zod - Generates a TypeScript module of Zod schemas
+// ============================================================================
+//
+// Like the JTD backend, declarations go through the JSON Schema Emitter
+// first, so every construct it resolves (utility types, generics, mapped
+// and conditional types) carries over. Each `$defs` entry becomes an
+// exported `const <Name>Schema`, declared after the schemas it uses.
+// Types that reference each other in a cycle are typed `z.ZodTypeAny` and
+// refer to each other through `z.lazy`. Only source text is produced; the
+// generated module imports `zod` itself.
+
+import type { Declaration } from "./ast.js";
+import { Emitter, type EmitterOptions, type JSONSchema } from "./emitter.js";
+import { GENERATED_HEADER, identifiers, refName } from "./codegen.js";
+
+export type ZodOptions = Pick<
+  EmitterOptions,
+  | "includeJSDoc" | "strictObjects" | "additionalProperties"
+  | "onDuplicateDeclarations" | "onUnresolvedReferences" | "defineNameTransform"
+  | "namedGenericInstantiations" | "genericInstantiationName" | "decorators"
+>;
+
+// JSON Schema `format` → Zod string refinement
+const STRING_FORMATS: Record<string, string> = {
+  "email": ".email()",
+  "uri": ".url()",
+  "url": ".url()",
+  "uuid": ".uuid()",
+  "date-time": ".datetime({ offset: true })",
+  "date": ".date()",
+  "time": ".time()",
+  "ipv4": '.ip({ version: "v4" })',
+  "ipv6": '.ip({ version: "v6" })',
+  "cuid": ".cuid()",
+  "emoji": ".emoji()",
+};
+
+export class ZodGenerator {
+  private emitter: Emitter;
+  private defs: Record<string, JSONSchema> = {};
+  /** Definitions that take part in a reference cycle, keyed to their cycle. */
+  private cycles = new Map<string, number>();
+  /** Definition name → identifier its schema constant is named after */
+  private ids = new Map<string, string>();
+  private indent = "";
+
+  constructor(declarations: Declaration[], options: ZodOptions = {}) {
+    this.emitter = new Emitter(declarations, {
+      ...options,
+      includeSchema: false,
+      extendsStrategy: "flatten",
+      mergeIntersections: true,
+      discriminatedUnions: "oneOf",
+      markRuntimeTypes: true,
+    });
+  }
+
+  /** Returns the source of a module exporting one `<Name>Schema` per type. */
+  generate(): string {
+    this.defs = (this.emitter.emit().$defs as Record<string, JSONSchema> | undefined) ?? {};
+    this.ids = identifiers(Object.keys(this.defs));
+    const order = this.orderDefinitions();
+
+    const lines = [
+      GENERATED_HEADER,
+      'import { z } from "zod";',
+    ];
+    for (const name of order) {
+      const schema = this.defs[name];
+      const annotation = this.cycles.has(name) ? ": z.ZodTypeAny" : "";
+      lines.push("");
+      lines.push(`export const ${this.schemaIdentifier(name)}${annotation} = ${this.expression(schema, name)};`);
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  // ---------------------------------------------------------------------------
+  // Declaration order
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Orders definitions so each one follows the definitions it references
+   * (Tarjan's strongly connected components come out dependencies first).
+   * Members of a component with more than one definition, or a definition
+   * referencing itself, are recorded in `cycles`.
+   */
+  private orderDefinitions(): string[] {
+    const names = Object.keys(this.defs);
+    const edges = new Map(names.map(name => [name, this.references(this.defs[name])]));
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const order: string[] = [];
+    let counter = 0;
+
+    const visit = (name: string): void => {
+      index.set(name, counter);
+      lowLink.set(name, counter);
+      counter++;
+      stack.push(name);
+      onStack.add(name);
+
+      for (const target of edges.get(name)!) {
+        if (!index.has(target)) {
+          visit(target);
+          lowLink.set(name, Math.min(lowLink.get(name)!, lowLink.get(target)!));
+        } else if (onStack.has(target)) {
+          lowLink.set(name, Math.min(lowLink.get(name)!, index.get(target)!));
+        }
+      }
+
+      if (lowLink.get(name) !== index.get(name)) return;
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== name);
+
+      const cyclic = component.length > 1 || edges.get(name)!.includes(name);
+      component.sort((a, b) => names.indexOf(a) - names.indexOf(b));
+      for (const m of component) {
+        if (cyclic) this.cycles.set(m, index.get(name)!);
+        order.push(m);
+      }
+    };
+
+    for (const name of names) {
+      if (!index.has(name)) visit(name);
+    }
+    return order;
+  }
+
+  /** Names of the existing definitions a schema refers to. */
+  private references(schema: JSONSchema): string[] {
+    const refs = new Set<string>();
+    const walk = (node: unknown): void => {
+      if (typeof node !== "object" || node === null) return;
+      const name = refName((node as JSONSchema).$ref);
+      if (name !== undefined && this.defs[name]) refs.add(name);
+      for (const value of Object.values(node)) walk(value);
+    };
+    walk(schema);
+    return [...refs];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Schema → Zod expression
+  // ---------------------------------------------------------------------------
+
+  /** `owner` is the definition being generated, to tell which references must be lazy. */
+  private expression(schema: JSONSchema, owner: string): string {
+    let expr = this.baseExpression(schema, owner);
+    if (typeof schema.description === "string") {
+      expr += `.describe(${JSON.stringify(schema.description)})`;
+    }
+    return expr;
+  }
+
+  private baseExpression(schema: JSONSchema, owner: string): string {
+    if (schema.$ref !== undefined) return this.reference(schema.$ref, owner);
+
+    if (schema.allOf) {
+      return schema.allOf
+        .map(member => this.expression(member, owner))
+        .reduce((left, right) => `z.intersection(${left}, ${right})`);
+    }
+
+    const union = schema.oneOf ?? schema.anyOf;
+    if (union) return this.union(union, schema.discriminator, owner);
+
+    if (schema.not) return "z.never()";
+    if (schema.const !== undefined) return literal(schema.const);
+    if (schema.enum) return this.enumeration(schema.enum);
+
+    if (Array.isArray(schema.type)) {
+      const types = schema.type.filter(t => t !== "null");
+      const members = types.map(type => this.typed(type, schema, owner));
+      const expr = members.length === 1 ? members[0] : `z.union([${members.join(", ")}])`;
+      return types.length < schema.type.length ? `${expr}.nullable()` : expr;
+    }
+
+    return this.typed(schema.type, schema, owner);
+  }
+
+  private reference(ref: string, owner: string): string {
+    const name = refName(ref);
+    if (name === undefined || !this.defs[name]) return "z.unknown()";
+    const identifier = this.schemaIdentifier(name);
+    const sameCycle = this.cycles.has(owner) && this.cycles.get(owner) === this.cycles.get(name);
+    return sameCycle ? `z.lazy(() => ${identifier})` : identifier;
+  }
+
+  /** `Api.User` → `Api_UserSchema` */
+  private schemaIdentifier(name: string): string {
+    return `${this.ids.get(name)}Schema`;
+  }
+
+  private union(members: JSONSchema[], discriminator: unknown, owner: string): string {
+    const nonNull = members.filter(m => !(m.type === "null" && Object.keys(m).length === 1));
+    const nullable = nonNull.length < members.length;
+
+    let expr: string;
+    if (nonNull.length === 1) {
+      expr = this.expression(nonNull[0], owner);
+    } else if (
+      typeof discriminator === "object" && discriminator !== null &&
+      nonNull.every(m => this.isPlainObject(m))
+    ) {
+      const propertyName = (discriminator as { propertyName: string }).propertyName;
+      const options = nonNull.map(m => this.expression(m, owner));
+      expr = `z.discriminatedUnion(${JSON.stringify(propertyName)}, [${options.join(", ")}])`;
+    } else {
+      expr = `z.union([${nonNull.map(m => this.expression(m, owner)).join(", ")}])`;
+    }
+    return nullable ? `${expr}.nullable()` : expr;
+  }
+
+  /** z.discriminatedUnion only takes z.object schemas (not lazy or annotated ones). */
+  private isPlainObject(schema: JSONSchema): boolean {
+    const name = refName(schema.$ref);
+    if (name !== undefined) {
+      return this.defs[name] !== undefined && !this.cycles.has(name) && this.isPlainObject(this.defs[name]);
+    }
+    return schema.type === "object" && typeof schema.additionalProperties !== "object";
+  }
+
+  private enumeration(values: unknown[]): string {
+    const nonNull = values.filter(v => v !== null);
+    let expr: string;
+    if (nonNull.length > 0 && nonNull.every(v => typeof v === "string")) {
+      expr = `z.enum([${nonNull.map(v => JSON.stringify(v)).join(", ")}])`;
+    } else if (nonNull.length === 1) {
+      expr = literal(nonNull[0]);
+    } else {
+      expr = `z.union([${nonNull.map(literal).join(", ")}])`;
+    }
+    return nonNull.length < values.length ? `${expr}.nullable()` : expr;
+  }
+
+  private typed(type: string | undefined, schema: JSONSchema, owner: string): string {
+    switch (type) {
+      case "string": return this.string(schema);
+      case "number": return this.number("z.number()", schema);
+      case "integer":
+        return schema["x-ts-type"] === "bigint"
+          ? this.number("z.bigint()", schema, "n")
+          : this.number("z.number().int()", schema);
+      case "boolean": return "z.boolean()";
+      case "null": return "z.null()";
+      case "array": return this.array(schema, owner);
+      case "object": return this.object(schema, owner);
+      default: return "z.unknown()";
+    }
+  }
+
+  private string(schema: JSONSchema): string {
+    let expr = "z.string()";
+    if (schema.format && STRING_FORMATS[schema.format]) expr += STRING_FORMATS[schema.format];
+    if (schema.minLength !== undefined) expr += `.min(${schema.minLength})`;
+    if (schema.maxLength !== undefined) expr += `.max(${schema.maxLength})`;
+    if (schema.pattern !== undefined) expr += `.regex(new RegExp(${JSON.stringify(schema.pattern)}))`;
+    return expr;
+  }
+
+  /** `suffix` turns the bounds into bigint literals ("n") for `z.bigint()`. */
+  private number(base: string, schema: JSONSchema, suffix = ""): string {
+    let expr = base;
+    if (schema.minimum !== undefined) expr += `.gte(${schema.minimum}${suffix})`;
+    if (typeof schema.exclusiveMinimum === "number") expr += `.gt(${schema.exclusiveMinimum}${suffix})`;
+    if (schema.maximum !== undefined) expr += `.lte(${schema.maximum}${suffix})`;
+    if (typeof schema.exclusiveMaximum === "number") expr += `.lt(${schema.exclusiveMaximum}${suffix})`;
+    if (typeof schema.multipleOf === "number") expr += `.multipleOf(${schema.multipleOf}${suffix})`;
+    return expr;
+  }
+
+  private array(schema: JSONSchema, owner: string): string {
+    if (schema.prefixItems) {
+      const elements = schema.prefixItems.map(item => this.expression(item, owner));
+      const tuple = `z.tuple([${elements.join(", ")}])`;
+      const full = schema.items ? `${tuple}.rest(${this.expression(schema.items, owner)})` : tuple;
+      // z.tuple requires every position, so optional elements take one tuple per length
+      const required = Math.min(schema.minItems ?? elements.length, elements.length);
+      if (required === elements.length) return full;
+      const shorter = Array.from({ length: elements.length - required }, (_, i) =>
+        `z.tuple([${elements.slice(0, required + i).join(", ")}])`
+      );
+      return `z.union([${[...shorter, full].join(", ")}])`;
+    }
+
+    let expr = `z.array(${schema.items ? this.expression(schema.items, owner) : "z.unknown()"})`;
+    if (schema.minItems !== undefined) expr += `.min(${schema.minItems})`;
+    if (schema.maxItems !== undefined) expr += `.max(${schema.maxItems})`;
+    return expr;
+  }
+
+  private object(schema: JSONSchema, owner: string): string {
+    const properties = Object.entries(schema.properties ?? {});
+    const additional = schema.additionalProperties;
+
+    if (properties.length === 0 && typeof additional === "object") {
+      return `z.record(z.string(), ${this.expression(additional, owner)})`;
+    }
+
+    // One property per line, indented by nesting depth
+    const required = new Set(schema.required ?? []);
+    const outer = this.indent;
+    this.indent += "  ";
+    const shape = properties.map(([name, prop]) => {
+      const expr = this.expression(prop, owner);
+      return `${this.indent}${propertyKey(name)}: ${required.has(name) ? expr : `${expr}.optional()`},\n`;
+    });
+    this.indent = outer;
+
+    let expr = shape.length > 0 ? `z.object({\n${shape.join("")}${outer}})` : "z.object({})";
+    if (additional === false) expr += ".strict()";
+    else if (typeof additional === "object") expr += `.catchall(${this.expression(additional, owner)})`;
+    return expr;
+  }
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function literal(value: unknown): string {
+  return value === null ? "z.null()" : `z.literal(${JSON.stringify(value)})`;
+}
@@ -0,0 +1,107 @@
+/**
+ * Integration tests for invalid-case (negative fixture) generation
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import Ajv2020 from "ajv/dist/2020.js";
+import addFormats from "ajv-formats";
+import { toInvalidSamples, toJsonSchema } from "../../src/index.js";
+
+const source = `
+  enum Role { Admin = "admin", User = "user" }
+  interface User {
+    /** @format email */
+    email: string;
+    /**
+     * @minLength 3
+     * @maxLength 8
+     */
+    handle: string;
+    /** @pattern ^[A-Z]{2}-\\d{3}$ */
+    code: string;
+    /**
+     * @minimum 18
+     * @maximum 99
+     */
+    age: number;
+    count: bigint;
+    role: Role;
+    tags: Set<"a" | "b" | "c">;
+    position: [number, number];
+    nickname?: string | null;
+    address: { city: string; zip?: string };
+    manager: User | null;
+    scores: Record<string, number>;
+    shape: { kind: "circle"; radius: number } | { kind: "square"; size: number };
+  }
+`;
+
+describe("Invalid sample generation", () => {
+  const options = { strictObjects: true, extendsStrategy: "flatten" as const };
+
+  it("should break exactly the labeled constraint at the labeled path", () => {
+    const ajv = addFormats(new Ajv2020({ strict: false, allErrors: true }));
+    const validate = ajv.compile(toJsonSchema(source, { ...options, rootType: "User" }));
+    const cases = toInvalidSamples(source, { ...options, rootType: "User" }).User;
+
+    expect(cases.length).toBeGreaterThan(30);
+    for (const invalid of cases) {
+      expect(validate(invalid.value)).toBe(false);
+      const errors = validate.errors!;
+      expect(errors.some(e => e.instancePath === invalid.path && e.keyword === invalid.keyword)).toBe(true);
+      expect(errors.every(e => e.instancePath === invalid.path)).toBe(true);
+    }
+  });
+
+  it("should cover each kind of violation", () => {
+    const labels = toInvalidSamples(source, { ...options, rootType: "User" }).User.map(c => c.label);
+
+    expect(labels).toEqual(expect.arrayContaining([
+      "wrong type (expected object, got string)",
+      'missing required property "email"',
+      'unexpected property "unexpectedProperty"',
+      "/age: wrong type (expected number, got string)",
+      "/age: 17 is below minimum 18",
+      "/age: 100 is above maximum 99",
+      "/handle: length 2 is below minLength 3",
+      "/handle: length 9 is above maxLength 8",
+      '/code: "invalid" doesn\'t match pattern ^[A-Z]{2}-\\d{3}$',
+      '/email: "not-an-email" is not a valid email',
+      "/position: 1 item is below minItems 2",
+      "/position: 3 items is above maxItems 2",
+      '/tags/0: "invalid" is not one of "a", "b", "c"',
+      "/nickname: wrong type (expected string | null, got number)",
+      'missing required property "address"',
+      '/address: missing required property "city"',
+      "/scores/key1: wrong type (expected number, got string)",
+      "/shape: wrong type (expected object, got string)",
+    ]));
+    expect(labels.some(label => /^\/count: -?[\d.]+ is not an integer$/.test(label))).toBe(true);
+    expect(labels.some(label => label.startsWith("/tags: item ") && label.endsWith("appears twice"))).toBe(true);
+  });
+
+  it("should cover referenced types through their own cases", () => {
+    const cases = toInvalidSamples(source, options);
+
+    expect(cases.User.some(c => c.path === "/role" && c.keyword === "enum")).toBe(false);
+    expect(cases.Role.map(c => c.label)).toEqual([
+      "wrong type (expected string, got number)",
+      '"invalid" is not one of "admin", "user"',
+    ]);
+  });
+
+  it("should only vary one part of a valid sample", () => {
+    const [missing] = toInvalidSamples(`interface Point { x: number; y: number; }`).Point.filter(c => c.keyword === "required");
+
+    expect(missing).toEqual({
+      label: 'missing required property "x"',
+      path: "",
+      keyword: "required",
+      value: { y: expect.any(Number) },
+    });
+  });
+
+  it("should be deterministic for a seed", () => {
+    expect(toInvalidSamples(source, { ...options, seed: 4 })).toEqual(toInvalidSamples(source, { ...options, seed: 4 }));
+  });
+});
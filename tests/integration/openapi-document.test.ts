@@ -0,0 +1,149 @@
+/**
+ * Integration tests for OpenAPI 3.1 document generation
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { execSync } from "child_process";
+import { fileURLToPath } from "url";
+import Ajv2020 from "ajv/dist/2020.js";
+import { toOpenApiDocument, toOpenApiDocumentFromFiles } from "../../src/index.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const source = `
+  export interface User { id: string; name: string; }
+  export interface Page<T> { items: T[]; total: number; }
+  export interface Post { author: User; tags: Tag[]; comments: Page<User>; }
+  type Tag = "news" | "tech";
+`;
+
+describe("OpenAPI document generation", () => {
+  it("should place every type under components/schemas", () => {
+    const doc = toOpenApiDocument(source);
+
+    expect(doc.openapi).toBe("3.1.0");
+    expect(doc.info).toEqual({ title: "API", version: "1.0.0" });
+    expect(doc.paths).toEqual({});
+    expect(Object.keys(doc.components!.schemas!)).toEqual(["User", "Post", "Tag"]);
+    expect(doc.components!.schemas!.Post.properties).toEqual({
+      author: { $ref: "#/components/schemas/User" },
+      tags: { type: "array", items: { $ref: "#/components/schemas/Tag" } },
+      comments: {
+        type: "object",
+        properties: {
+          items: { type: "array", items: { $ref: "#/components/schemas/User" } },
+          total: { type: "number" },
+        },
+        required: ["items", "total"],
+      },
+    });
+    expect(doc.components!.schemas!.Post).not.toHaveProperty("definitions");
+    expect(doc.components!.schemas!.Post).not.toHaveProperty("$schema");
+  });
+
+  it("should add named generic instantiations as components", () => {
+    const doc = toOpenApiDocument(source, { namedGenericInstantiations: true });
+
+    expect(doc.components!.schemas!.Post.properties!.comments).toEqual({ $ref: "#/components/schemas/Page_User" });
+    expect(doc.components!.schemas!.Page_User.properties!.total).toEqual({ type: "number" });
+  });
+
+  it("should respect defineNameTransform", () => {
+    const doc = toOpenApiDocument(source, {
+      defineNameTransform: (name) => `${name}Dto`,
+      info: { title: "Blog", version: "2.0.0" },
+    });
+
+    expect(doc.info).toEqual({ title: "Blog", version: "2.0.0" });
+    expect(Object.keys(doc.components!.schemas!)).toEqual(["UserDto", "PostDto", "TagDto"]);
+    expect(doc.components!.schemas!.PostDto.properties!.author).toEqual({ $ref: "#/components/schemas/UserDto" });
+  });
+
+  it("should resolve refs with a 2020-12 validator", () => {
+    const doc = toOpenApiDocument(source);
+    const ajv = new Ajv2020({ strict: false });
+    ajv.addSchema(doc, "openapi.json");
+    const validate = ajv.getSchema("openapi.json#/components/schemas/Post")!;
+
+    const post = { author: { id: "1", name: "Ann" }, tags: ["news"], comments: { items: [], total: 0 } };
+    expect(validate(post)).toBe(true);
+    expect(validate({ ...post, tags: ["sports"] })).toBe(false);
+  });
+
+  it("should merge into an existing document", () => {
+    const existing = {
+      openapi: "3.1.0",
+      info: { title: "Existing", version: "9.9.9" },
+      paths: { "/users": { get: { responses: { "200": { description: "ok" } } } } },
+      components: {
+        schemas: { Legacy: { type: "string" }, User: { type: "null" } },
+        securitySchemes: { bearer: { type: "http", scheme: "bearer" } },
+      },
+    };
+    const doc = toOpenApiDocument(source, { mergeInto: existing });
+
+    expect(doc.info).toEqual(existing.info);
+    expect(doc.paths).toEqual(existing.paths);
+    expect(doc.components!.securitySchemes).toEqual(existing.components.securitySchemes);
+    expect(doc.components!.schemas!.Legacy).toEqual({ type: "string" });
+    expect(doc.components!.schemas!.User.type).toBe("object");
+    expect(existing.components.schemas.User).toEqual({ type: "null" });
+  });
+
+  it("should reject a merge target that isn't an OpenAPI document", () => {
+    expect(() => toOpenApiDocument(source, { mergeInto: {} as any })).toThrow(
+      'Cannot merge into a document without an "openapi" version field'
+    );
+  });
+
+  describe("files and CLI", () => {
+    let tempDir: string;
+    const cliPath = path.resolve(__dirname, "../../dist/cli.js");
+
+    beforeAll(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "openapi-document-test-"));
+      fs.writeFileSync(path.join(tempDir, "user.ts"), `export interface User { id: string; }`);
+      fs.writeFileSync(
+        path.join(tempDir, "post.ts"),
+        `import { User } from "./user";\nexport interface Post { author: User; }`
+      );
+      fs.writeFileSync(
+        path.join(tempDir, "openapi.json"),
+        JSON.stringify({ openapi: "3.1.0", info: { title: "Blog", version: "1.2.0" }, paths: { "/posts": {} } })
+      );
+    });
+
+    afterAll(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should follow imports across files", () => {
+      const doc = toOpenApiDocumentFromFiles([path.join(tempDir, "post.ts")], { followImports: "local" });
+
+      expect(Object.keys(doc.components!.schemas!).sort()).toEqual(["Post", "User"]);
+      expect(doc.components!.schemas!.Post.properties!.author).toEqual({ $ref: "#/components/schemas/User" });
+    });
+
+    it("should merge into a document file from the CLI", () => {
+      const stdout = execSync(`node ${cliPath} --openapi post.ts --mergeInto openapi.json`, {
+        encoding: "utf-8",
+        cwd: tempDir,
+      });
+      const doc = JSON.parse(stdout);
+
+      expect(doc.info.title).toBe("Blog");
+      expect(doc.paths).toEqual({ "/posts": {} });
+      expect(doc.components.schemas.Post.properties.author).toEqual({ $ref: "#/components/schemas/User" });
+    });
+
+    it("should require --openapi for --mergeInto", () => {
+      expect(() => execSync(`node ${cliPath} post.ts --mergeInto openapi.json`, {
+        cwd: tempDir,
+        stdio: "pipe",
+      })).toThrow("--mergeInto requires --openapi");
+    });
+  });
+});
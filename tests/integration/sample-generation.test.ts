@@ -0,0 +1,213 @@
+/**
+ * Integration tests for seeded sample data generation
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { execSync } from "child_process";
+import { fileURLToPath } from "url";
+import Ajv2020 from "ajv/dist/2020.js";
+import addFormats from "ajv-formats";
+import { toSamples, toJsonSchema, SampleGenerator } from "../../src/index.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const source = `
+  enum Role { Admin = "admin", User = "user" }
+  interface Address { city: string; zip: \`\${number}-\${number}\`; }
+  interface User {
+    /** @format uuid */
+    id: string;
+    /** @format email */
+    email: string;
+    /** @format date-time */
+    createdAt: string;
+    /**
+     * @minLength 3
+     * @maxLength 8
+     */
+    handle: string;
+    /** @pattern ^[A-Z]{2}-\\d{3}(-[a-z]+)?$ */
+    code: string;
+    /**
+     * @minimum 18
+     * @maximum 30
+     */
+    age: number;
+    /** @example "Ann Example" */
+    name: string;
+    /** @default "en" */
+    locale: string;
+    role: Role;
+    kind: "person";
+    tags: Set<"a" | "b" | "c">;
+    position: [number, number];
+    address?: Address;
+    scores: Record<string, number>;
+    manager: User | null;
+    reports: User[];
+  }
+`;
+
+describe("Sample generation", () => {
+  it("should generate samples that validate against the schema", () => {
+    const schema = toJsonSchema(source, { rootType: "User" });
+    const ajv = addFormats(new Ajv2020({ strict: false }));
+    const validate = ajv.compile(schema);
+
+    const samples = toSamples(source, { rootType: "User", count: 25 }).User;
+    expect(samples).toHaveLength(25);
+    for (const sample of samples) {
+      expect(validate(sample)).toBe(true);
+    }
+  });
+
+  it("should keep pattern and format strings within their length bounds", () => {
+    const bounded = `
+      interface Account {
+        /**
+         * @pattern ^[a-z]+$
+         * @minLength 5
+         */
+        slug: string;
+        /**
+         * @format email
+         * @maxLength 10
+         */
+        email: string;
+        /**
+         * @format uri
+         * @minLength 40
+         */
+        homepage: string;
+      }
+    `;
+    const validate = addFormats(new Ajv2020({ strict: false })).compile(toJsonSchema(bounded, { rootType: "Account" }));
+
+    for (const sample of toSamples(bounded, { count: 25 }).Account) {
+      expect(validate(sample)).toBe(true);
+    }
+  });
+
+  it("should report pattern and format strings that can't meet their length bounds", () => {
+    expect(() => toSamples(`
+      interface Event {
+        /**
+         * @format date
+         * @maxLength 8
+         */
+        day: string;
+      }
+    `)).toThrow('Cannot generate a "date" string of 0 to 8 characters (at Event.day); add an @example');
+  });
+
+  it("should give the same samples for the same seed", () => {
+    const first = toSamples(source, { count: 3, seed: 7 });
+    expect(toSamples(source, { count: 3, seed: 7 })).toEqual(first);
+    expect(toSamples(source, { count: 3, seed: 8 })).not.toEqual(first);
+    expect(Object.keys(first)).toEqual(["Role", "Address", "User"]);
+  });
+
+  it("should keep a type's samples when other types are added", () => {
+    const alone = toSamples(`interface Point { x: number; y: number; }`, { count: 2 });
+    const withOthers = toSamples(`interface Other { a: string; }\ninterface Point { x: number; y: number; }`, { count: 2 });
+    expect(withOthers.Point).toEqual(alone.Point);
+  });
+
+  it("should use examples, defaults, literals and formats", () => {
+    for (const user of toSamples(source, { rootType: "User", count: 10 }).User as any[]) {
+      expect(user.name).toBe("Ann Example");
+      expect(user.locale).toBe("en");
+      expect(user.kind).toBe("person");
+      expect(["admin", "user"]).toContain(user.role);
+      expect(user.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect(user.email).toMatch(/^[a-z]+\.[a-z]+@example\.com$/);
+      expect(new Date(user.createdAt).toISOString().replace(".000", "")).toBe(user.createdAt);
+      expect(user.code).toMatch(/^[A-Z]{2}-\d{3}(-[a-z]+)?$/);
+      expect(user.handle.length).toBeGreaterThanOrEqual(3);
+      expect(user.handle.length).toBeLessThanOrEqual(8);
+      expect(user.age).toBeGreaterThanOrEqual(18);
+      expect(user.age).toBeLessThanOrEqual(30);
+    }
+  });
+
+  it("should stop recursion past maxDepth", () => {
+    const depthOf = (user: any): number =>
+      1 + Math.max(0, user.manager ? depthOf(user.manager) : 0, ...user.reports.map(depthOf));
+
+    for (const user of toSamples(source, { rootType: "User", count: 10, maxDepth: 2 }).User) {
+      expect(depthOf(user)).toBeLessThanOrEqual(3);
+    }
+  });
+
+  it("should report recursion without a base case", () => {
+    expect(() => toSamples(`interface Loop { next: Loop; }`)).toThrow('"#/$defs/Loop" always recurses');
+  });
+
+  it("should report patterns it can't generate from", () => {
+    const lookahead = `
+      interface Password {
+        /** @pattern ^(?=.*\\d).{8,}$ */
+        value: string;
+      }
+    `;
+    expect(() => toSamples(lookahead)).toThrow("(at Password.value); add an @example");
+  });
+
+  it("should sample emitted schemas of any target", () => {
+    const schema = toJsonSchema(source, { rootType: "User", target: "draft-07" });
+    const [user] = new SampleGenerator(schema, { seed: 3 }).generate(1) as any[];
+
+    expect(typeof user.email).toBe("string");
+    expect(user.manager === null || typeof user.manager.id === "string").toBe(true);
+  });
+
+  describe("CLI", () => {
+    let tempDir: string;
+    const cliPath = path.resolve(__dirname, "../../dist/cli.js");
+
+    beforeAll(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "sample-generation-test-"));
+      fs.writeFileSync(path.join(tempDir, "user.ts"), `export interface User { id: string; }`);
+      fs.writeFileSync(
+        path.join(tempDir, "post.ts"),
+        `import { User } from "./user";\nexport interface Post { author: User; /** @minimum 1 */ likes: number; }`
+      );
+    });
+
+    afterAll(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should print n samples per type", () => {
+      const run = () => JSON.parse(execSync(`node ${cliPath} --samples 3 --seed 5 post.ts`, {
+        encoding: "utf-8",
+        cwd: tempDir,
+      }));
+      const samples = run();
+
+      expect(Object.keys(samples).sort()).toEqual(["Post", "User"]);
+      expect(samples.Post).toHaveLength(3);
+      expect(typeof samples.Post[0].author.id).toBe("string");
+      expect(run()).toEqual(samples);
+    });
+
+    it("should limit the output to --rootType", () => {
+      const samples = JSON.parse(execSync(`node ${cliPath} --samples 1 post.ts -r User`, {
+        encoding: "utf-8",
+        cwd: tempDir,
+      }));
+
+      expect(Object.keys(samples)).toEqual(["User"]);
+    });
+
+    it("should require --samples for --seed", () => {
+      expect(() => execSync(`node ${cliPath} post.ts --seed 5`, {
+        cwd: tempDir,
+        stdio: "pipe",
+      })).toThrow("--seed requires --samples");
+    });
+  });
+});
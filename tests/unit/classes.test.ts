@@ -0,0 +1,154 @@
+import { describe, it, expect } from '@jest/globals';
+import { toJsonSchema, parseDeclarations } from '../../src/index.js';
+
+describe('Class declarations', () => {
+  it('should emit public fields like interface properties', () => {
+    const schema = toJsonSchema(`
+      /** A user account */
+      export class User {
+        /** Unique id */
+        id!: string;
+        name: string;
+        nickname?: string;
+        readonly createdAt: string;
+      }
+    `, { rootType: 'User', includeSchema: false });
+
+    expect(schema).toMatchObject({
+      type: 'object',
+      description: 'A user account',
+      properties: {
+        id: { type: 'string', description: 'Unique id' },
+        name: { type: 'string' },
+        nickname: { type: 'string' },
+        createdAt: { type: 'string', readOnly: true },
+      },
+      required: ['id', 'name', 'createdAt'],
+    });
+  });
+
+  it('should exclude private, protected, static and #private members and methods', () => {
+    const decls = parseDeclarations(`
+      class Account {
+        email: string;
+        private password: string;
+        protected token: string;
+        static instances = 0;
+        #cache = new Map();
+        get display(): string { return this.email; }
+        set display(value: string) { this.email = value; }
+        login(password: string): boolean {
+          return password === this.password;
+        }
+        async refresh<T>(): Promise<T> { return fetch("/refresh"); }
+        onChange = (value: string) => {
+          this.email = value;
+        };
+        static { Account.instances = 1; }
+      }
+    `);
+
+    expect(decls).toHaveLength(1);
+    expect(decls[0].kind === 'class' && decls[0].properties.map(p => p.name)).toEqual(['email']);
+  });
+
+  it('should turn literal initializers into defaults', () => {
+    const schema = toJsonSchema(`
+      class Settings {
+        theme = "dark";
+        readonly version = 2;
+        retries: number = 3;
+        tags: string[] = [];
+        limits = { max: 10 };
+        startedAt = new Date();
+        /** @default "en" */
+        locale = "fr";
+      }
+    `, { rootType: 'Settings', includeSchema: false });
+
+    expect(schema.properties).toEqual({
+      theme: { type: 'string', default: 'dark' },
+      version: { const: 2, readOnly: true, default: 2 },
+      retries: { type: 'number', default: 3 },
+      tags: { type: 'array', items: { type: 'string' }, default: [] },
+      limits: {
+        type: 'object',
+        properties: { max: { type: 'number' } },
+        required: ['max'],
+        default: { max: 10 },
+      },
+      startedAt: {},
+      locale: { type: 'string', default: 'en' },
+    });
+  });
+
+  it('should capture constructor parameter properties', () => {
+    const schema = toJsonSchema(`
+      class Point {
+        constructor(
+          public x: number,
+          public readonly y: number = 0,
+          private secret: string,
+          label?: string,
+        ) {
+          this.label = label;
+        }
+      }
+    `, { rootType: 'Point', includeSchema: false });
+
+    expect(schema.properties).toEqual({
+      x: { type: 'number' },
+      y: { type: 'number', readOnly: true, default: 0 },
+    });
+    expect(schema.required).toEqual(['x', 'y']);
+  });
+
+  it('should handle extends and implements', () => {
+    const source = `
+      interface Named { name: string; }
+      abstract class Entity { id: string; }
+      export class Product extends Entity implements Named {
+        name: string;
+        price: number;
+      }
+    `;
+    const decls = parseDeclarations(source);
+    const product = decls.find(d => d.name === 'Product');
+    expect(product).toMatchObject({
+      kind: 'class',
+      extends: [{ kind: 'reference', name: 'Entity' }],
+      implements: [{ kind: 'reference', name: 'Named' }],
+    });
+
+    const schema = toJsonSchema(source, { rootType: 'Product', includeSchema: false });
+    expect(schema.allOf).toEqual([
+      { $ref: '#/$defs/Entity' },
+      {
+        type: 'object',
+        properties: { name: { type: 'string' }, price: { type: 'number' } },
+        required: ['name', 'price'],
+      },
+    ]);
+  });
+
+  it('should work with generics and utility types', () => {
+    const schema = toJsonSchema(`
+      class Page<T> {
+        items: T[];
+        total: number;
+      }
+      class Tag { label: string; }
+      interface TagPage extends Page<Tag> {}
+      type TagPatch = Partial<Tag>;
+    `, { rootType: 'TagPage', includeSchema: false });
+
+    expect(schema.properties).toEqual({
+      items: { type: 'array', items: { $ref: '#/$defs/Tag' } },
+      total: { type: 'number' },
+    });
+    expect(schema.$defs!.TagPatch).toEqual({
+      type: 'object',
+      properties: { label: { type: 'string' } },
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from '@jest/globals';
+import { toJsonSchema, parseDeclarations } from '../../src/index.js';
+
+describe('Conditional types', () => {
+  it('should parse conditional types with infer', () => {
+    const decls = parseDeclarations(`type Unwrap<T> = T extends Array<infer U> ? U : T;`);
+    expect(decls[0]).toMatchObject({
+      kind: 'type_alias',
+      typeParams: ['T'],
+      type: {
+        kind: 'conditional',
+        checkType: { kind: 'reference', name: 'T' },
+        extendsType: { kind: 'array', element: { kind: 'infer', name: 'U' } },
+        trueType: { kind: 'reference', name: 'U' },
+        falseType: { kind: 'reference', name: 'T' },
+      },
+    });
+  });
+
+  it('should parse nested conditionals in the false branch', () => {
+    const decls = parseDeclarations(`
+      type Kind<T> = T extends string ? "s" : T extends number ? "n" : "o";
+    `);
+    expect(decls[0]).toMatchObject({
+      type: { kind: 'conditional', falseType: { kind: 'conditional' } },
+    });
+  });
+
+  describe('evaluation during generic instantiation', () => {
+    it('should infer array element types', () => {
+      const schema = toJsonSchema(`
+        type Unwrap<T> = T extends Array<infer U> ? U : T;
+        interface Q {
+          fromArray: Unwrap<string[]>;
+          passthrough: Unwrap<number>;
+        }
+      `, { rootType: 'Q', includeSchema: false });
+
+      expect(schema.properties?.fromArray).toEqual({ type: 'string' });
+      expect(schema.properties?.passthrough).toEqual({ type: 'number' });
+    });
+
+    it('should infer generic interface arguments', () => {
+      const schema = toJsonSchema(`
+        interface Box<T> { value: T; }
+        type Unbox<B> = B extends Box<infer V> ? V : never;
+        type Inner = Unbox<Box<boolean>>;
+      `, { rootType: 'Inner', includeSchema: false });
+
+      expect(schema.type).toBe('boolean');
+    });
+
+    it('should distribute over unions', () => {
+      const schema = toJsonSchema(`
+        type NonNull<T> = T extends null | undefined ? never : T;
+        type MyExclude<T, U> = T extends U ? never : T;
+        interface Q {
+          name: NonNull<string | null | undefined>;
+          status: MyExclude<"a" | "b" | "c", "b">;
+        }
+      `, { rootType: 'Q', includeSchema: false });
+
+      expect(schema.properties?.name).toEqual({ type: 'string' });
+      expect(schema.properties?.status).toEqual({ type: 'string', enum: ['a', 'c'] });
+    });
+
+    it('should not distribute when the check type is wrapped', () => {
+      const schema = toJsonSchema(`
+        type IsString<T> = [T] extends [string] ? true : false;
+        type R = IsString<"a" | 1>;
+      `, { rootType: 'R', includeSchema: false });
+
+      expect(schema).toEqual({ const: false });
+    });
+
+    it('should check object types structurally', () => {
+      const schema = toJsonSchema(`
+        interface HasId { id: string; }
+        interface User { id: string; name: string; }
+        interface Tag { label: string; }
+        type IdOf<T> = T extends { id: infer I } ? I : never;
+        type Keyed<T> = T extends HasId ? "keyed" : "plain";
+        interface Q {
+          userId: IdOf<User>;
+          user: Keyed<User>;
+          tag: Keyed<Tag>;
+        }
+      `, { rootType: 'Q', includeSchema: false });
+
+      expect(schema.properties?.userId).toEqual({ type: 'string' });
+      expect(schema.properties?.user).toEqual({ const: 'keyed' });
+      expect(schema.properties?.tag).toEqual({ const: 'plain' });
+    });
+
+    it('should resolve enum and literal checks', () => {
+      const schema = toJsonSchema(`
+        enum Mode { Fast = "fast", Slow = "slow" }
+        type IsStr<T> = T extends string ? "yes" : "no";
+        interface Q {
+          mode: IsStr<Mode>;
+          num: IsStr<42>;
+          obj: IsStr<{ a: string }>;
+        }
+      `, { rootType: 'Q', includeSchema: false });
+
+      expect(schema.properties?.mode).toEqual({ const: 'yes' });
+      expect(schema.properties?.num).toEqual({ const: 'no' });
+      expect(schema.properties?.obj).toEqual({ const: 'no' });
+    });
+
+    it('should evaluate conditionals in generic interfaces', () => {
+      const schema = toJsonSchema(`
+        type ElementOf<T> = T extends (infer E)[] ? E : T;
+        interface Wrapper<T> { item: ElementOf<T>; }
+        type W = Wrapper<number[]>;
+      `, { rootType: 'W', includeSchema: false });
+
+      expect(schema.properties?.item).toEqual({ type: 'number' });
+    });
+
+    it('should resolve recursive conditional aliases', () => {
+      const schema = toJsonSchema(`
+        type Flatten<T> = T extends Array<infer U> ? Flatten<U> : T;
+        type Deep = Flatten<string[][][]>;
+      `, { rootType: 'Deep', includeSchema: false });
+
+      expect(schema).toEqual({ type: 'string' });
+    });
+  });
+
+  it('should evaluate non-generic conditionals at emit time', () => {
+    const schema = toJsonSchema(`
+      type R = "a" extends string ? number : boolean;
+    `, { rootType: 'R', includeSchema: false });
+
+    expect(schema).toEqual({ type: 'number' });
+  });
+
+  it('should fall back to anyOf of both branches when undecidable', () => {
+    const schema = toJsonSchema(`
+      type R = External extends string ? number : boolean;
+    `, { rootType: 'R', includeSchema: false });
+
+    expect(schema).toEqual({ anyOf: [{ type: 'number' }, { type: 'boolean' }] });
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { toJsonSchema, toJsonSchemaFromFile, toJsonSchemasFromFiles, parseDeclarations } from '../../src/index.js';
+
+describe('Interface declaration merging', () => {
+  it('should merge same-named interfaces in one module', () => {
+    const schema = toJsonSchema(`
+      /** App settings */
+      interface Config { port: number; }
+      interface Config extends Base {
+        /** Bind address */
+        host?: string;
+        port: number;
+      }
+      interface Base { env: string; }
+    `, { rootType: 'Config', includeSchema: false });
+
+    expect(schema).toEqual({
+      description: 'App settings',
+      allOf: [
+        { $ref: '#/$defs/Base' },
+        {
+          type: 'object',
+          properties: {
+            port: { type: 'number' },
+            host: { type: 'string', description: 'Bind address' },
+          },
+          required: ['port'],
+        },
+      ],
+      $defs: {
+        Base: { type: 'object', properties: { env: { type: 'string' } }, required: ['env'] },
+      },
+    });
+  });
+
+  it('should merge namespace members across namespace blocks', () => {
+    const schema = toJsonSchema(`
+      namespace Api { export interface User { id: string; } }
+      namespace Api { export interface User { name: string; } }
+      interface Root { user: Api.User; }
+    `, { rootType: 'Root', includeSchema: false });
+
+    expect(schema.$defs!['Api.User'].properties).toEqual({
+      id: { type: 'string' },
+      name: { type: 'string' },
+    });
+  });
+
+  it('should merge declare global and declare module augmentations', () => {
+    const source = `
+      interface Window { title: string; }
+      declare global {
+        interface Window { analyticsId: string; }
+        namespace Express { interface Request { user?: string; } }
+      }
+      declare module "express" {
+        interface Request { body: unknown; }
+      }
+      interface Request { url: string; }
+    `;
+    const decls = parseDeclarations(source);
+    expect(decls.map(d => d.name)).toEqual(['Window', 'Window', 'Express.Request', 'Request', 'Request']);
+
+    const schema = toJsonSchema(source, { rootType: 'Window', includeSchema: false });
+    expect(schema.properties).toEqual({
+      title: { type: 'string' },
+      analyticsId: { type: 'string' },
+    });
+    // The "express" augmentation isn't about the local Request
+    expect(schema.$defs!.Request.properties).toEqual({
+      url: { type: 'string' },
+    });
+  });
+
+  it('should merge augmentations of the same module with each other', () => {
+    const schema = toJsonSchema(`
+      declare module "express" { interface Request { body: unknown; } }
+      declare module "express" { interface Request { user?: string; } }
+      declare module "koa" { interface Context { state: unknown; } }
+      interface Holder { context: Context; }
+    `, { rootType: 'Request', includeSchema: false });
+
+    expect(Object.keys(schema.properties!)).toEqual(['body', 'user']);
+  });
+
+  describe('conflicting property types', () => {
+    const source = `
+      interface Config { port: number; }
+      interface Config { port: string; }
+    `;
+
+    let originalWarn: typeof console.warn;
+    let warnCalls: string[] = [];
+
+    beforeEach(() => {
+      warnCalls = [];
+      originalWarn = console.warn;
+      console.warn = (...args: any[]) => { warnCalls.push(args.join(' ')); };
+    });
+
+    afterEach(() => {
+      console.warn = originalWarn;
+    });
+
+    it('should throw by default', () => {
+      expect(() => toJsonSchema(source, { rootType: 'Config' }))
+        .toThrow(/Conflicting types for property "port" in merged interface "Config":\n  number\n  string/);
+    });
+
+    it('should warn and keep the first type', () => {
+      const schema = toJsonSchema(source, {
+        rootType: 'Config',
+        includeSchema: false,
+        onDuplicateDeclarations: 'warn',
+      });
+
+      expect(schema.properties).toEqual({ port: { type: 'number' } });
+      expect(warnCalls).toHaveLength(1);
+      expect(warnCalls[0]).toContain('Conflicting types for property "port"');
+    });
+
+    it('should stay quiet in silent mode', () => {
+      toJsonSchema(source, { rootType: 'Config', onDuplicateDeclarations: 'silent' });
+      expect(warnCalls).toHaveLength(0);
+    });
+  });
+
+  describe('across files', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts-json-schema-merge-'));
+      fs.writeFileSync(path.join(testDir, 'session.ts'), `
+        export interface Session { id: string; }
+      `);
+      fs.writeFileSync(path.join(testDir, 'augment.ts'), `
+        import "./session";
+        declare module "./session" {
+          interface Session { userId: string; }
+        }
+        export type UserId = string;
+      `);
+      fs.writeFileSync(path.join(testDir, 'conflict.ts'), `
+        declare global {
+          interface Session { id: number; }
+        }
+        export type Tag = string;
+      `);
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should merge an augmentation from another file', () => {
+      const entry = path.join(testDir, 'entry.ts');
+      fs.writeFileSync(entry, `
+        import { Session } from "./session";
+        import { UserId } from "./augment";
+        export interface Request { session: Session; userId: UserId; }
+      `);
+
+      const schema = toJsonSchemaFromFile(entry, { followImports: 'local', rootType: 'Request', includeSchema: false });
+      expect(schema.$defs!.Session).toEqual({
+        type: 'object',
+        properties: { id: { type: 'string' }, userId: { type: 'string' } },
+        required: ['id', 'userId'],
+      });
+    });
+
+    it('should only merge a module augmentation into that module', () => {
+      fs.writeFileSync(path.join(testDir, 'local.ts'), `
+        export interface Session { local: boolean; }
+      `);
+      const entry = path.join(testDir, 'entry.ts');
+      fs.writeFileSync(entry, `
+        import { Session } from "./local";
+        import { UserId } from "./augment";
+        export interface Request { session: Session; userId: UserId; }
+      `);
+
+      const schema = toJsonSchemaFromFile(entry, { followImports: 'local', rootType: 'Request', includeSchema: false });
+      expect(schema.$defs!.Session.properties).toEqual({ local: { type: 'boolean' } });
+    });
+
+    it('should not merge same-named interfaces of separate files', () => {
+      const other = path.join(testDir, 'other.ts');
+      fs.writeFileSync(other, `
+        export interface Session { token: string; }
+      `);
+
+      const schemas = toJsonSchemasFromFiles([path.join(testDir, 'session.ts'), other], { includeSchema: false });
+      expect(schemas.Session.properties).toEqual({ token: { type: 'string' } });
+    });
+
+    it('should report conflicting types with both files', () => {
+      const entry = path.join(testDir, 'entry.ts');
+      fs.writeFileSync(entry, `
+        import { Session } from "./session";
+        import { Tag } from "./conflict";
+        export interface Request { session: Session; tag: Tag; }
+      `);
+
+      expect(() => toJsonSchemaFromFile(entry, { followImports: 'local', rootType: 'Request' }))
+        .toThrow(/property "id" in merged interface "Session":\n  string \(.*session\.ts\)\n  number \(.*conflict\.ts\)/);
+    });
+  });
+});
@@ -72,7 +72,7 @@ describe("declare keyword support", () => {
     expect(decls[0].name).toBe("Config");
   });
 
-  it("should skip declare class", () => {
+  it("should parse declare class without its methods", () => {
     const source = `
       declare class InternalService {
         start(): void;
@@ -83,8 +83,9 @@ describe("declare keyword support", () => {
       }
     `;
     const decls = parseDeclarations(source);
-    expect(decls).toHaveLength(1);
-    expect(decls[0].name).toBe("Config");
+    expect(decls).toHaveLength(2);
+    expect(decls[0]).toMatchObject({ kind: "class", name: "InternalService", properties: [] });
+    expect(decls[1].name).toBe("Config");
   });
 
   it("should skip declare namespace", () => {
@@ -101,7 +102,7 @@ describe("declare keyword support", () => {
     expect(decls[0].name).toBe("Config");
   });
 
-  it("should skip declare module", () => {
+  it("should parse declare module augmentations", () => {
     const source = `
       declare module "express" {
         interface Request {
@@ -113,8 +114,9 @@ describe("declare keyword support", () => {
       }
     `;
     const decls = parseDeclarations(source);
-    expect(decls).toHaveLength(1);
-    expect(decls[0].name).toBe("Config");
+    expect(decls).toHaveLength(2);
+    expect(decls[0]).toMatchObject({ name: "Request", augments: "express" });
+    expect(decls[1].name).toBe("Config");
   });
 
   it("should handle complex .d.ts file with mixed declarations", () => {
@@ -148,7 +150,7 @@ describe("declare keyword support", () => {
       }
     `;
     const decls = parseDeclarations(source);
-    expect(decls).toHaveLength(3);
-    expect(decls.map(d => d.name).sort()).toEqual(["AppConfig", "Environment", "LogLevel"]);
+    expect(decls).toHaveLength(4);
+    expect(decls.map(d => d.name).sort()).toEqual(["AppConfig", "Environment", "InternalService", "LogLevel"]);
   });
 });
@@ -0,0 +1,162 @@
+import { describe, it, expect } from '@jest/globals';
+import { toJsonSchema, parseDeclarations, tokenize } from '../../src/index.js';
+
+describe('class-validator decorators', () => {
+  it('should tokenize decorators with their raw arguments', () => {
+    const tokens = tokenize(`@Matches(/^[a-z)]+$/i, { message: "bad (input)" }) name: string;`);
+    expect(tokens[0]).toMatchObject({ type: 'decorator', value: 'Matches(/^[a-z)]+$/i, { message: "bad (input)" })' });
+    expect(tokens[1]).toMatchObject({ type: 'identifier', value: 'name' });
+  });
+
+  it('should parse decorator names and literal arguments', () => {
+    const decls = parseDeclarations(`
+      class Dto {
+        @Length(2, 10)
+        @IsIn(["a", "b"])
+        @Type(() => Number)
+        @Matches(/^x+$/i)
+        @ValidateNested
+        name: string;
+      }
+    `);
+    const prop = decls[0].kind === 'class' ? decls[0].properties[0] : undefined;
+    expect(prop?.decorators?.map(d => d.name)).toEqual(['Length', 'IsIn', 'Type', 'Matches', 'ValidateNested']);
+    expect(prop?.decorators?.[0].args).toEqual([2, 10]);
+    expect(prop?.decorators?.[1].args).toEqual([['a', 'b']]);
+    expect(prop?.decorators?.[2].args).toEqual([undefined]);
+    expect(prop?.decorators?.[3].args[0]).toEqual(/^x+$/i);
+  });
+
+  it('should map decorators to constraints', () => {
+    const schema = toJsonSchema(`
+      @Entity()
+      export class CreateUserDto {
+        @IsEmail()
+        email: string;
+
+        @IsString()
+        @MinLength(2)
+        @MaxLength(50)
+        name: string;
+
+        @IsInt()
+        @Min(1)
+        @Max(120)
+        age: number;
+
+        @Matches(/^[a-z0-9_]+$/)
+        username: string;
+
+        @IsOptional()
+        @IsUrl()
+        website: string;
+
+        @ArrayNotEmpty()
+        @IsString({ each: true })
+        @MaxLength(20, { each: true })
+        tags: string[];
+
+        @ValidateNested()
+        @Type(() => Address)
+        address: Address;
+      }
+      class Address { city: string; }
+    `, { rootType: 'CreateUserDto', includeSchema: false });
+
+    expect(schema.properties).toEqual({
+      email: { type: 'string', format: 'email' },
+      name: { type: 'string', minLength: 2, maxLength: 50 },
+      age: { type: 'integer', minimum: 1, maximum: 120 },
+      username: { type: 'string', pattern: '^[a-z0-9_]+$' },
+      website: { type: 'string', format: 'uri' },
+      tags: { type: 'array', items: { type: 'string', maxLength: 20 }, minItems: 1 },
+      address: { $ref: '#/$defs/Address' },
+    });
+    expect(schema.required).toEqual(['email', 'name', 'age', 'username', 'tags', 'address']);
+  });
+
+  it('should apply decorators on constructor parameter properties', () => {
+    const schema = toJsonSchema(`
+      class Query {
+        constructor(@IsPositive() public limit: number, @IsOptional() public cursor?: string) {}
+      }
+    `, { rootType: 'Query', includeSchema: false });
+
+    expect(schema.properties).toEqual({
+      limit: { type: 'number', exclusiveMinimum: 0 },
+      cursor: { type: 'string' },
+    });
+    expect(schema.required).toEqual(['limit']);
+  });
+
+  it('should keep null allowed when a type decorator narrows a nullable property', () => {
+    const schema = toJsonSchema(`
+      class Filter {
+        @IsInt()
+        page: number | null;
+        @IsString()
+        term: string | null;
+        @IsInt()
+        size: number;
+      }
+    `, { rootType: 'Filter', includeSchema: false });
+
+    expect(schema.properties).toEqual({
+      page: { type: ['integer', 'null'] },
+      term: { type: ['string', 'null'] },
+      size: { type: 'integer' },
+    });
+  });
+
+  it('should warn about regex flags it has to drop', () => {
+    const warn = console.warn;
+    const warnCalls: string[] = [];
+    console.warn = (...args: any[]) => { warnCalls.push(args.join(' ')); };
+    try {
+      const schema = toJsonSchema(`
+        class Login {
+          @Matches(/^[a-z]+$/i)
+          user: string;
+
+          @Matches("^\\\\d+$", "m")
+          pin: string;
+
+          @Matches(/^[a-z]+$/gu)
+          code: string;
+        }
+      `, { rootType: 'Login', includeSchema: false });
+
+      expect(schema.properties!.user).toEqual({ type: 'string', pattern: '^[a-z]+$' });
+      expect(schema.properties!.pin).toEqual({ type: 'string', pattern: '^\\d+$' });
+      expect(warnCalls).toHaveLength(2);
+      expect(warnCalls[0]).toContain('@Matches flags "i"');
+      expect(warnCalls[1]).toContain('@Matches flags "m"');
+    } finally {
+      console.warn = warn;
+    }
+  });
+
+  it('should accept custom decorator handlers and disable built-ins', () => {
+    const schema = toJsonSchema(`
+      class Post {
+        @IsSlug()
+        slug: string;
+
+        @IsEmail()
+        contact: string;
+      }
+    `, {
+      rootType: 'Post',
+      includeSchema: false,
+      decorators: {
+        IsSlug: (schema) => { schema.pattern = '^[a-z0-9-]+$'; },
+        IsEmail: null,
+      },
+    });
+
+    expect(schema.properties).toEqual({
+      slug: { type: 'string', pattern: '^[a-z0-9-]+$' },
+      contact: { type: 'string' },
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from '@jest/globals';
+import Ajv from 'ajv';
+import { toJsonSchema, toJsonSchemas } from '../../src/index.js';
+
+const source = `
+  enum Kind { Circle = "circle", Square = "square" }
+  interface Circle { kind: Kind.Circle; radius: number; }
+  interface Square { kind: "square"; size: number; }
+  type Shape = Circle | Square | { kind: "triangle"; base: number; height: number };
+`;
+
+describe('Discriminated unions', () => {
+  it('should keep emitting anyOf by default', () => {
+    const schema = toJsonSchema(source, { rootType: 'Shape', includeSchema: false });
+    expect(schema.anyOf).toHaveLength(3);
+    expect(schema).not.toHaveProperty('discriminator');
+  });
+
+  it('should emit oneOf with a discriminator mapping for $ref members', () => {
+    const schema = toJsonSchema(source, { rootType: 'Shape', includeSchema: false, discriminatedUnions: 'oneOf' });
+
+    expect(schema.oneOf).toEqual([
+      { $ref: '#/$defs/Circle' },
+      { $ref: '#/$defs/Square' },
+      {
+        type: 'object',
+        properties: { kind: { const: 'triangle' }, base: { type: 'number' }, height: { type: 'number' } },
+        required: ['kind', 'base', 'height'],
+      },
+    ]);
+    expect(schema.discriminator).toEqual({
+      propertyName: 'kind',
+      mapping: { circle: '#/$defs/Circle', square: '#/$defs/Square' },
+    });
+  });
+
+  it('should emit if/then branches keyed on the discriminant', () => {
+    const schema = toJsonSchema(source, { rootType: 'Shape', includeSchema: false, discriminatedUnions: 'if-then' });
+
+    expect(schema.type).toBe('object');
+    expect(schema.properties).toEqual({ kind: { enum: ['circle', 'square', 'triangle'] } });
+    expect(schema.required).toEqual(['kind']);
+    expect(schema.allOf![0]).toEqual({
+      if: { properties: { kind: { const: 'circle' } }, required: ['kind'] },
+      then: { $ref: '#/$defs/Circle' },
+    });
+  });
+
+  it('should detect discriminated unions that also allow null', () => {
+    const nullable = `${source}\n  type MaybeShape = Circle | Square | null;`;
+    const oneOf = toJsonSchema(nullable, { rootType: 'MaybeShape', includeSchema: false, discriminatedUnions: 'oneOf' });
+    const ifThen = toJsonSchema(nullable, { rootType: 'MaybeShape', includeSchema: false, discriminatedUnions: 'if-then' });
+
+    expect(oneOf.anyOf).toEqual([
+      {
+        oneOf: [{ $ref: '#/$defs/Circle' }, { $ref: '#/$defs/Square' }],
+        discriminator: { propertyName: 'kind', mapping: { circle: '#/$defs/Circle', square: '#/$defs/Square' } },
+      },
+      { type: 'null' },
+    ]);
+    expect(ifThen.anyOf).toHaveLength(2);
+    expect(ifThen.anyOf![0].properties).toEqual({ kind: { enum: ['circle', 'square'] } });
+    expect(ifThen.anyOf![1]).toEqual({ type: 'null' });
+
+    const validate = new Ajv().compile(toJsonSchemas(nullable, { includeSchema: false, discriminatedUnions: 'if-then' }).MaybeShape);
+    expect(validate(null)).toBe(true);
+    expect(validate({ kind: 'square', size: 2 })).toBe(true);
+    expect(validate({ kind: 'square', radius: 2 })).toBe(false);
+  });
+
+  it('should only report errors for the matching branch', () => {
+    const schemas = toJsonSchemas(source, { includeSchema: false, discriminatedUnions: 'if-then' });
+    const validate = new Ajv({ allErrors: true }).compile(schemas.Shape);
+
+    expect(validate({ kind: 'square', size: 2 })).toBe(true);
+    expect(validate({ kind: 'square', radius: 2 })).toBe(false);
+    const failing = validate.errors!.filter(e => e.keyword !== 'if');
+    expect(failing).toEqual([
+      expect.objectContaining({ keyword: 'required', params: { missingProperty: 'size' } }),
+    ]);
+  });
+
+  it('should pick a discriminant shared through inheritance and skip ambiguous unions', () => {
+    const schema = toJsonSchema(`
+      interface Base { id: string; }
+      interface Created extends Base { type: "created"; status: "ok"; }
+      interface Deleted extends Base { type: "deleted"; status: "ok"; }
+      type Event = Created | Deleted;
+      type Loose = { type: "a" } | { type?: "b" };
+      type Same = { type: "a"; x: 1 } | { type: "a"; x: 2 };
+    `, { rootType: 'Event', includeSchema: false, discriminatedUnions: 'oneOf' });
+
+    expect(schema.discriminator).toEqual({
+      propertyName: 'type',
+      mapping: { created: '#/$defs/Created', deleted: '#/$defs/Deleted' },
+    });
+    expect(schema.$defs!.Loose).toHaveProperty('anyOf');
+    expect(schema.$defs!.Same.discriminator).toEqual({ propertyName: 'x' });
+  });
+
+  it('should rewrite mapping pointers in batch definitions', () => {
+    const schemas = toJsonSchemas(source, { includeSchema: false, discriminatedUnions: 'oneOf' });
+    expect(schemas.Shape.discriminator).toEqual({
+      propertyName: 'kind',
+      mapping: { circle: '#/definitions/Circle', square: '#/definitions/Square' },
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from '@jest/globals';
+import Ajv2020 from 'ajv/dist/2020.js';
+import { toJsonSchema } from '../../src/index.js';
+
+const source = `
+  interface Entity { id: string; version: number; }
+  interface Audited extends Entity { createdAt: string; }
+  interface Meta { secret: string; tag?: string; }
+  interface Page<T> { items: T[]; }
+  /** A user */
+  interface User extends Audited, Page<string>, Omit<Meta, "secret"> {
+    version: 2;
+    name: string;
+  }
+`;
+
+describe('extendsStrategy', () => {
+  it('should keep allOf by default', () => {
+    const schema = toJsonSchema(source, { rootType: 'User', includeSchema: false });
+    expect(schema.allOf![0]).toEqual({ $ref: '#/$defs/Audited' });
+  });
+
+  it('should flatten the whole extends chain into one object', () => {
+    const schema = toJsonSchema(source, { rootType: 'User', includeSchema: false, extendsStrategy: 'flatten' });
+
+    expect(schema).toMatchObject({
+      type: 'object',
+      description: 'A user',
+      properties: {
+        id: { type: 'string' },
+        version: { const: 2 },
+        createdAt: { type: 'string' },
+        items: { type: 'array', items: { type: 'string' } },
+        tag: { type: 'string' },
+        name: { type: 'string' },
+      },
+      required: ['id', 'version', 'createdAt', 'items', 'name'],
+    });
+    expect(schema).not.toHaveProperty('allOf');
+    expect(schema.$defs!.Audited.properties).toHaveProperty('id');
+  });
+
+  it('should flatten instantiated generic interfaces', () => {
+    const schema = toJsonSchema(`
+      interface Page<T> { items: T[]; total: number; }
+      interface Box<T> extends Page<T> { label: T; }
+      interface Holder { box: Box<number>; }
+    `, { rootType: 'Holder', includeSchema: false, extendsStrategy: 'flatten' });
+
+    expect(schema.properties!.box).toEqual({
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: { type: 'number' } },
+        total: { type: 'number' },
+        label: { type: 'number' },
+      },
+      required: ['items', 'total', 'label'],
+    });
+  });
+
+  it('should validate flattened objects under strictObjects', () => {
+    const schema = toJsonSchema(source, { rootType: 'User', extendsStrategy: 'flatten', strictObjects: true });
+    const validate = new Ajv2020().compile(schema);
+
+    const user = { id: '1', version: 2, createdAt: 'now', items: [], name: 'Ann' };
+    expect(validate(user)).toBe(true);
+    expect(validate({ ...user, extra: 1 })).toBe(false);
+  });
+
+  describe('unevaluated', () => {
+    it('should leave open objects as allOf', () => {
+      const schema = toJsonSchema(source, { rootType: 'User', includeSchema: false, extendsStrategy: 'unevaluated' });
+      expect(schema.allOf![0]).toEqual({ $ref: '#/$defs/Audited' });
+      expect(schema).not.toHaveProperty('unevaluatedProperties');
+    });
+
+    it('should open the branches and close with unevaluatedProperties', () => {
+      const schema = toJsonSchema(source, {
+        rootType: 'User',
+        includeSchema: false,
+        extendsStrategy: 'unevaluated',
+        strictObjects: true,
+      });
+
+      expect(schema.unevaluatedProperties).toBe(false);
+      expect(schema.allOf![0]).toEqual({
+        type: 'object',
+        properties: { id: { type: 'string' }, version: { type: 'number' }, createdAt: { type: 'string' } },
+        required: ['id', 'version', 'createdAt'],
+      });
+      expect(schema.allOf).toHaveLength(4);
+      expect(schema.allOf!.every((branch: any) => branch.additionalProperties === undefined)).toBe(true);
+    });
+
+    it('should honor @additionalProperties false', () => {
+      const schema = toJsonSchema(`
+        interface Base { id: string; }
+        /** @additionalProperties false */
+        interface Closed extends Base { name: string; }
+      `, { rootType: 'Closed', extendsStrategy: 'unevaluated' });
+      const validate = new Ajv2020({ strictTypes: false }).compile(schema);
+
+      expect(validate({ id: '1', name: 'n' })).toBe(true);
+      expect(validate({ id: '1', name: 'n', extra: true })).toBe(false);
+    });
+  });
+});
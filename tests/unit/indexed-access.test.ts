@@ -0,0 +1,170 @@
+import { describe, it, expect } from '@jest/globals';
+import { toJsonSchema, toJsonSchemas, parseDeclarations } from '../../src/index.js';
+
+describe('Indexed access types', () => {
+  it('should parse T["prop"] into an indexed_access node', () => {
+    const decls = parseDeclarations(`type S = Order["status"];`);
+    expect(decls[0]).toMatchObject({
+      type: {
+        kind: 'indexed_access',
+        object: { kind: 'reference', name: 'Order' },
+        index: { kind: 'literal_string', value: 'status' },
+      },
+    });
+  });
+
+  it('should resolve a property lookup on an interface', () => {
+    const schema = toJsonSchema(`
+      interface Order {
+        id: string;
+        status: "pending" | "shipped";
+      }
+      interface UpdateOrder {
+        status: Order["status"];
+      }
+    `, { rootType: 'UpdateOrder', includeSchema: false });
+
+    expect(schema.properties?.status).toEqual({ type: 'string', enum: ['pending', 'shipped'] });
+  });
+
+  it('should resolve lookups on type aliases and inline objects', () => {
+    const schema = toJsonSchema(`
+      type Point = { x: number; y: number; label: string };
+      interface Q {
+        x: Point["x"];
+        inline: { a: boolean }["a"];
+      }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.x).toEqual({ type: 'number' });
+    expect(schema.properties?.inline).toEqual({ type: 'boolean' });
+  });
+
+  it('should produce anyOf for string-literal-union keys', () => {
+    const schema = toJsonSchema(`
+      interface User { id: string; age: number; active: boolean; }
+      type IdOrAge = User["id" | "age"];
+    `, { rootType: 'IdOrAge', includeSchema: false });
+
+    expect(schema.anyOf).toEqual([{ type: 'string' }, { type: 'number' }]);
+  });
+
+  it('should resolve T[keyof T] to all property types', () => {
+    const schema = toJsonSchema(`
+      interface Flags { a: boolean; b: number; }
+      type FlagValue = Flags[keyof Flags];
+    `, { rootType: 'FlagValue', includeSchema: false });
+
+    expect(schema.anyOf).toEqual([{ type: 'boolean' }, { type: 'number' }]);
+  });
+
+  it('should resolve array element lookups with [number]', () => {
+    const schema = toJsonSchema(`
+      interface Item { sku: string; }
+      type Items = Item[];
+      interface Order { items: Item[]; }
+      interface Q {
+        fromAlias: Items[number];
+        chained: Order["items"][number];
+      }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.fromAlias).toEqual({ $ref: '#/$defs/Item' });
+    expect(schema.properties?.chained).toEqual({ $ref: '#/$defs/Item' });
+  });
+
+  it('should resolve tuple element lookups', () => {
+    const schema = toJsonSchema(`
+      type Pair = [string, number];
+      interface Q {
+        first: Pair[0];
+        any: Pair[number];
+      }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.first).toEqual({ type: 'string' });
+    expect(schema.properties?.any).toEqual({ anyOf: [{ type: 'string' }, { type: 'number' }] });
+  });
+
+  it('should resolve lookups through index signatures and records', () => {
+    const schema = toJsonSchema(`
+      interface Dict { [key: string]: number; }
+      type Scores = Record<string, boolean>;
+      interface Q {
+        a: Dict[string];
+        b: Scores[string];
+      }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.a).toEqual({ type: 'number' });
+    expect(schema.properties?.b).toEqual({ type: 'boolean' });
+  });
+
+  it('should substitute type parameters used as keys', () => {
+    const schema = toJsonSchema(`
+      interface User { id: string; age: number; }
+      type Prop<T, K> = T[K];
+      type UserAge = Prop<User, "age">;
+      type BoxValue = Box<string>["value"];
+      interface Box<T> { value: T; }
+    `, { includeSchema: false });
+
+    expect(schema.$defs?.UserAge).toEqual({ type: 'number' });
+    expect(schema.$defs?.BoxValue).toEqual({ type: 'string' });
+  });
+
+  it('should distribute lookups over union objects', () => {
+    const schema = toJsonSchema(`
+      type U = { a: string } | { a: number };
+      interface Q { a: U["a"]; }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.a).toEqual({ anyOf: [{ type: 'string' }, { type: 'number' }] });
+  });
+
+  it('should look up enum member keys by their value', () => {
+    const schema = toJsonSchema(`
+      enum Keys { A = "a", B = "b" }
+      enum Position { First, Second }
+      interface O { a: string; b: number; }
+      interface Q {
+        a: O[Keys.A];
+        second: [string, boolean][Position.Second];
+      }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.a).toEqual({ type: 'string' });
+    expect(schema.properties?.second).toEqual({ type: 'boolean' });
+  });
+
+  it('should accept anything when the lookup cannot be resolved', () => {
+    const schema = toJsonSchema(`
+      interface Q { x: External["id"]; }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.x).toEqual({});
+  });
+
+  it('should not treat an index signature on the next line as indexed access', () => {
+    const schema = toJsonSchema(`
+      interface Q {
+        name: string
+        [key: string]: string
+      }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.name).toEqual({ type: 'string' });
+    expect(schema.additionalProperties).toEqual({ type: 'string' });
+  });
+
+  it('should include the resolved type in batch definitions', () => {
+    const schemas = toJsonSchemas(`
+      interface Customer { name: string; }
+      interface Order { customer: Customer; }
+      interface Invoice { billTo: Order["customer"]; }
+    `);
+
+    expect(schemas.Invoice.properties?.billTo).toEqual({ $ref: '#/definitions/Customer' });
+    expect(Object.keys(schemas.Invoice.definitions as object)).toEqual(['Customer']);
+  });
+});
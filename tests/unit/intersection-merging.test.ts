@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import Ajv2020 from 'ajv/dist/2020.js';
+import { toJsonSchema } from '../../src/index.js';
+
+const source = `
+  interface Base { createdAt: string; }
+  interface User extends Base { id: string; role: string; meta?: { a: number }; }
+  interface Admin { role: "admin"; meta: { b: string }; }
+  type AdminUser = User & Admin & Partial<{ note: string }> & ({ x: string } & { y: number });
+`;
+
+describe('Intersection merging', () => {
+  it('should merge object intersections into one object', () => {
+    const schema = toJsonSchema(source, { rootType: 'AdminUser', includeSchema: false, mergeIntersections: true });
+
+    expect(schema.type).toBe('object');
+    expect(schema.properties).toEqual({
+      createdAt: { type: 'string' },
+      id: { type: 'string' },
+      role: { const: 'admin' },
+      meta: {
+        type: 'object',
+        properties: { a: { type: 'number' }, b: { type: 'string' } },
+        required: ['a', 'b'],
+      },
+      note: { type: 'string' },
+      x: { type: 'string' },
+      y: { type: 'number' },
+    });
+    expect(schema.required).toEqual(['createdAt', 'id', 'role', 'meta', 'x', 'y']);
+    expect(schema).not.toHaveProperty('allOf');
+  });
+
+  it('should validate merged intersections under strictObjects', () => {
+    const schema = toJsonSchema(source, { rootType: 'AdminUser', mergeIntersections: true, strictObjects: true });
+    const validate = new Ajv2020({ strictTypes: false }).compile(schema);
+
+    const valid = { createdAt: 'now', id: '1', role: 'admin', meta: { a: 1, b: 'b' }, x: 'x', y: 2 };
+    expect(validate(valid)).toBe(true);
+    expect(validate({ ...valid, extra: true })).toBe(false);
+    expect(validate({ ...valid, role: 'user' })).toBe(false);
+  });
+
+  it('should keep allOf when a member is not an object', () => {
+    const schema = toJsonSchema(`
+      type Tagged = { tag: string } & ({ a: 1 } | { b: 2 });
+    `, { rootType: 'Tagged', includeSchema: false, mergeIntersections: true });
+
+    expect(schema.allOf).toHaveLength(2);
+  });
+
+  it('should keep the stricter JSDoc bounds of a property both members declare', () => {
+    const schema = toJsonSchema(`
+      type Name = {
+        /**
+         * @minLength 2
+         * @maxLength 9
+         */
+        a: string;
+      } & {
+        /**
+         * @minLength 1
+         * @maxLength 5
+         */
+        a: string;
+      };
+    `, { rootType: 'Name', includeSchema: false, mergeIntersections: true });
+
+    expect(schema.properties?.a).toEqual({ type: 'string', minLength: 2, maxLength: 5 });
+  });
+
+  it('should keep allOf when a property has two different patterns', () => {
+    const schema = toJsonSchema(`
+      type Code = {
+        /** @pattern ^[a-z]+$ */
+        a: string;
+      } & {
+        /** @pattern ^.{3}$ */
+        a: string;
+      };
+    `, { rootType: 'Code', includeSchema: false, mergeIntersections: true });
+
+    expect(schema.allOf).toHaveLength(2);
+  });
+
+  describe('conflicting property types', () => {
+    let originalWarn: typeof console.warn;
+    let warnCalls: string[] = [];
+
+    beforeEach(() => {
+      warnCalls = [];
+      originalWarn = console.warn;
+      console.warn = (...args: any[]) => { warnCalls.push(args.join(' ')); };
+    });
+
+    afterEach(() => {
+      console.warn = originalWarn;
+    });
+
+    it('should emit never and warn', () => {
+      const schema = toJsonSchema(`
+        type Bad = { value: string } & { value: number };
+      `, { rootType: 'Bad', includeSchema: false, mergeIntersections: true });
+
+      expect(schema.properties).toEqual({ value: { not: {} } });
+      expect(warnCalls).toHaveLength(1);
+      expect(warnCalls[0]).toContain('Conflicting types for property "value"');
+    });
+  });
+
+  describe('strictObjects without merging', () => {
+    const tagged = `
+      interface Named { name: string; }
+      type Tagged = Named & { tag: string } & ({ a: 1 } | { b: 2 });
+    `;
+
+    it('should close the intersection with unevaluatedProperties', () => {
+      const schema = toJsonSchema(tagged, { rootType: 'Tagged', includeSchema: false, strictObjects: true });
+
+      expect(schema).toMatchObject({
+        allOf: [
+          { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+          { type: 'object', properties: { tag: { type: 'string' } }, required: ['tag'] },
+          {
+            anyOf: [
+              { type: 'object', properties: { a: { const: 1 } }, required: ['a'] },
+              { type: 'object', properties: { b: { const: 2 } }, required: ['b'] },
+            ],
+          },
+        ],
+        unevaluatedProperties: false,
+      });
+      expect(schema.allOf![0]).not.toHaveProperty('additionalProperties');
+    });
+
+    it('should accept the combined properties and nothing else', () => {
+      const schema = toJsonSchema(tagged, { rootType: 'Tagged', strictObjects: true });
+      const validate = new Ajv2020({ strictTypes: false }).compile(schema);
+
+      expect(validate({ name: 'n', tag: 't', a: 1 })).toBe(true);
+      expect(validate({ name: 'n', tag: 't', a: 1, extra: true })).toBe(false);
+    });
+  });
+});
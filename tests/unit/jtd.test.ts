@@ -0,0 +1,152 @@
+import { describe, it, expect } from '@jest/globals';
+import AjvJTD from 'ajv/dist/jtd.js';
+import { toJtd, JtdError } from '../../src/index.js';
+
+const source = `
+  enum Status { Active = "active", Banned = "banned" }
+  interface Entity { id: string; }
+  /** A user */
+  interface User extends Entity {
+    name: string;
+    nickname?: string | null;
+    status: Status;
+    role: "admin" | "member";
+    createdAt: Date;
+    scores: Record<string, number>;
+    tags: string[];
+    manager: Entity | null;
+    contact: Contact;
+  }
+  interface Email { kind: "email"; address: string; }
+  interface Phone { kind: "phone"; number: string; ext?: string; }
+  type Contact = Email | Phone;
+  type Pair = [string, number];
+`;
+
+describe('JTD output', () => {
+  it('should map objects, enums, records and nullable types to JTD forms', () => {
+    const schema = toJtd(source, { rootType: 'User', strictObjects: true });
+
+    expect(schema.properties).toEqual({
+      id: { type: 'string' },
+      name: { type: 'string' },
+      status: { ref: 'Status' },
+      role: { enum: ['admin', 'member'] },
+      createdAt: { type: 'timestamp' },
+      scores: { values: { type: 'float64' } },
+      tags: { elements: { type: 'string' } },
+      manager: { ref: 'Entity', nullable: true },
+      contact: { ref: 'Contact' },
+    });
+    expect(schema.optionalProperties).toEqual({ nickname: { type: 'string', nullable: true } });
+    expect(schema.metadata).toEqual({ description: 'A user' });
+    expect(schema.definitions!.Status).toEqual({ enum: ['active', 'banned'] });
+  });
+
+  it('should map discriminated unions to discriminator and mapping', () => {
+    const schema = toJtd(source, { rootType: 'Contact', strictObjects: true });
+
+    expect(schema).toEqual({
+      discriminator: 'kind',
+      mapping: {
+        email: { properties: { address: { type: 'string' } } },
+        phone: { properties: { number: { type: 'string' } }, optionalProperties: { ext: { type: 'string' } } },
+      },
+      definitions: {
+        Email: { properties: { kind: { enum: ['email'] }, address: { type: 'string' } } },
+        Phone: {
+          properties: { kind: { enum: ['phone'] }, number: { type: 'string' } },
+          optionalProperties: { ext: { type: 'string' } },
+        },
+      },
+    });
+  });
+
+  it('should map nullable discriminated unions to a nullable discriminator', () => {
+    const schema = toJtd(`${source}\n  interface Profile { contact: Email | Phone | null; }`, { rootType: 'Profile', strictObjects: true });
+
+    expect(schema.properties!.contact).toEqual({
+      discriminator: 'kind',
+      mapping: {
+        email: { properties: { address: { type: 'string' } } },
+        phone: { properties: { number: { type: 'string' } }, optionalProperties: { ext: { type: 'string' } } },
+      },
+      nullable: true,
+    });
+  });
+
+  it('should keep objects open unless strictObjects is set', () => {
+    const schema = toJtd(source, { rootType: 'Entity' });
+    expect(schema).toEqual({ properties: { id: { type: 'string' } }, additionalProperties: true });
+  });
+
+  it('should only include definitions the root reaches', () => {
+    const schema = toJtd(source, { rootType: 'Entity' });
+    expect(schema).not.toHaveProperty('definitions');
+  });
+
+  it('should validate with a JTD validator', () => {
+    const schema = toJtd(source, { rootType: 'User', strictObjects: true });
+    const validate = new AjvJTD({ strict: false }).compile(schema);
+
+    const user = {
+      id: '1',
+      name: 'Ann',
+      status: 'active',
+      role: 'admin',
+      createdAt: '2024-01-01T00:00:00Z',
+      scores: { math: 1.5 },
+      tags: [],
+      manager: null,
+      contact: { kind: 'phone', number: '123' },
+    };
+    expect(validate(user)).toBe(true);
+    expect(validate({ ...user, contact: { kind: 'email', number: '123' } })).toBe(false);
+    expect(validate({ ...user, status: 'gone' })).toBe(false);
+    expect(validate({ ...user, extra: true })).toBe(false);
+  });
+
+  it('should map integers to int32, except bigint', () => {
+    const schema = toJtd(`
+      class Query {
+        @IsInt()
+        page: number;
+      }
+    `, { rootType: 'Query' });
+
+    expect(schema.properties).toEqual({ page: { type: 'int32' } });
+    expect(() => toJtd(`interface Big { id: bigint; }`, { rootType: 'Big' }))
+      .toThrow('JTD has no integer type wider than 32 bits for bigint (at Big.id)');
+  });
+
+  describe('unsupported constructs', () => {
+    it('should reject tuples', () => {
+      expect(() => toJtd(source, { rootType: 'Pair' })).toThrow(JtdError);
+      expect(() => toJtd(source, {})).toThrow("JTD can't express tuple types; use an array or an object (at Pair)");
+    });
+
+    it('should reject unions without a discriminator', () => {
+      expect(() => toJtd(`
+        interface Item { value: string | number; }
+        interface Order { items: Item[]; }
+      `, { rootType: 'Order' })).toThrow(/JTD can't express a union .* \(at Item\.value\)/);
+    });
+
+    it('should reject numeric literals and properties mixed with index signatures', () => {
+      expect(() => toJtd(`type Level = 1 | 2;`, { rootType: 'Level' })).toThrow('JTD enums must be strings, got 1 | 2');
+      expect(() => toJtd(`
+        interface Bag { name: string; [key: string]: string; }
+      `, { rootType: 'Bag' })).toThrow('both named properties and an index signature');
+    });
+
+    it('should expose the location on the error', () => {
+      try {
+        toJtd(`interface A { pair: [string, string][] }`, { rootType: 'A' });
+        throw new Error('expected a JtdError');
+      } catch (err) {
+        expect(err).toBeInstanceOf(JtdError);
+        expect((err as JtdError).path).toBe('A.pair[]');
+      }
+    });
+  });
+});
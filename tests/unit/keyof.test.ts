@@ -0,0 +1,160 @@
+import { describe, it, expect } from '@jest/globals';
+import { toJsonSchema, parseDeclarations } from '../../src/index.js';
+
+describe('keyof operator', () => {
+  it('should parse keyof into a keyof type node', () => {
+    const decls = parseDeclarations(`type Keys = keyof User;`);
+    expect(decls[0]).toMatchObject({
+      kind: 'type_alias',
+      type: { kind: 'keyof', target: { kind: 'reference', name: 'User' } },
+    });
+  });
+
+  it('should emit an enum of interface property names', () => {
+    const schema = toJsonSchema(`
+      interface User {
+        id: string;
+        name: string;
+        age?: number;
+      }
+      interface Query {
+        sortBy: keyof User;
+      }
+    `, { rootType: 'Query', includeSchema: false });
+
+    expect(schema.properties?.sortBy).toEqual({
+      type: 'string',
+      enum: ['id', 'name', 'age'],
+    });
+  });
+
+  it('should include inherited properties', () => {
+    const schema = toJsonSchema(`
+      interface Entity { id: string; createdAt: Date; }
+      interface Named { name: string; }
+      interface User extends Entity, Named { email: string; }
+      type UserKey = keyof User;
+    `, { rootType: 'UserKey', includeSchema: false });
+
+    expect(schema.enum).toEqual(['id', 'createdAt', 'name', 'email']);
+  });
+
+  it('should resolve keys of type aliases, intersections and utility types', () => {
+    const schema = toJsonSchema(`
+      interface A { a: string; b: number; }
+      type B = { c: boolean };
+      interface Query {
+        alias: keyof B;
+        both: keyof (A & B);
+        picked: keyof Pick<A, "a">;
+        omitted: keyof Omit<A, "a">;
+      }
+    `, { rootType: 'Query', includeSchema: false });
+
+    expect(schema.properties?.alias.enum).toEqual(['c']);
+    expect(schema.properties?.both.enum).toEqual(['a', 'b', 'c']);
+    expect(schema.properties?.picked.enum).toEqual(['a']);
+    expect(schema.properties?.omitted.enum).toEqual(['b']);
+  });
+
+  it('should fall back to string for unknown or open-ended targets', () => {
+    const schema = toJsonSchema(`
+      interface Dict { [key: string]: number; }
+      interface Query {
+        unknownKey: keyof External;
+        dictKey: keyof Dict;
+      }
+    `, { rootType: 'Query', includeSchema: false });
+
+    expect(schema.properties?.unknownKey).toEqual({ type: 'string' });
+    expect(schema.properties?.dictKey).toEqual({ type: 'string' });
+  });
+
+  it('should apply array postfix to the keyof target', () => {
+    const schema = toJsonSchema(`
+      interface User { id: string; name: string; }
+      interface Query { fields: (keyof User)[]; }
+    `, { rootType: 'Query', includeSchema: false });
+
+    expect(schema.properties?.fields).toEqual({
+      type: 'array',
+      items: { type: 'string', enum: ['id', 'name'] },
+    });
+  });
+
+  describe('as a Pick/Omit key argument', () => {
+    it('should pick the keys of another type', () => {
+      const schema = toJsonSchema(`
+        interface Address { street: string; city: string; }
+        interface User { name: string; street: string; city: string; age: number; }
+        type UserAddress = Pick<User, keyof Address>;
+      `, { rootType: 'UserAddress', includeSchema: false });
+
+      expect(Object.keys(schema.properties!)).toEqual(['street', 'city']);
+      expect(schema.required).toEqual(['street', 'city']);
+    });
+
+    it('should omit the keys of another type', () => {
+      const schema = toJsonSchema(`
+        interface Audit { createdAt: Date; updatedAt: Date; }
+        interface Post { title: string; createdAt: Date; updatedAt: Date; }
+        type NewPost = Omit<Post, keyof Audit>;
+      `, { rootType: 'NewPost', includeSchema: false });
+
+      expect(Object.keys(schema.properties!)).toEqual(['title']);
+    });
+
+    it('should resolve key aliases', () => {
+      const schema = toJsonSchema(`
+        interface User { id: string; name: string; age: number; }
+        type Keys = "id" | "name";
+        type Summary = Pick<User, Keys>;
+        type Rest = Omit<User, Keys>;
+      `, { rootType: 'Summary', includeSchema: false });
+
+      expect(Object.keys(schema.properties!)).toEqual(['id', 'name']);
+      expect(Object.keys(schema.$defs!.Rest.properties!)).toEqual(['age']);
+    });
+
+    it('should evaluate Exclude and Extract over keyof', () => {
+      const schema = toJsonSchema(`
+        interface User { id: string; name: string; age: number; }
+        type WithoutId = Pick<User, Exclude<keyof User, "id">>;
+        type OnlyId = Omit<User, Exclude<keyof User, Extract<keyof User, "id">>>;
+      `, { rootType: 'WithoutId', includeSchema: false });
+
+      expect(Object.keys(schema.properties!)).toEqual(['name', 'age']);
+      expect(Object.keys(schema.$defs!.OnlyId.properties!)).toEqual(['id']);
+    });
+  });
+
+  it('should substitute type parameters inside keyof', () => {
+    const schema = toJsonSchema(`
+      interface User { id: string; name: string; }
+      interface SortQuery<T> { sortBy: keyof T; }
+      type UserSort = SortQuery<User>;
+    `, { rootType: 'UserSort', includeSchema: false });
+
+    expect(schema.properties?.sortBy.enum).toEqual(['id', 'name']);
+  });
+
+  it('should see the keys of generic aliases with type arguments', () => {
+    const schema = toJsonSchema(`
+      type WithX<T> = T & { x: number };
+      interface User { a: string; }
+      interface Q {
+        key: keyof WithX<User>;
+        flags: { [K in keyof WithX<User>]: boolean };
+        picked: Pick<WithX<User>, keyof WithX<User>>;
+      }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.key).toEqual({ type: 'string', enum: ['a', 'x'] });
+    expect(Object.keys(schema.properties?.flags.properties)).toEqual(['a', 'x']);
+    expect(schema.properties?.picked).toEqual({
+      type: 'object',
+      properties: { a: { type: 'string' }, x: { type: 'number' } },
+      required: ['a', 'x'],
+    });
+  });
+});
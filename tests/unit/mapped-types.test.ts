@@ -0,0 +1,172 @@
+import { describe, it, expect } from '@jest/globals';
+import { toJsonSchema, parseDeclarations } from '../../src/index.js';
+
+describe('Mapped types', () => {
+  describe('parsing', () => {
+    it('should parse a homomorphic mapped type', () => {
+      const decls = parseDeclarations(`type P<T> = { [K in keyof T]?: T[K] };`);
+      expect(decls[0]).toMatchObject({
+        type: {
+          kind: 'mapped',
+          keyName: 'K',
+          constraint: { kind: 'keyof', target: { kind: 'reference', name: 'T' } },
+          valueType: { kind: 'indexed_access' },
+          optional: true,
+        },
+      });
+    });
+
+    it('should parse +/- modifiers and as clauses', () => {
+      const decls = parseDeclarations(`
+        type M<T> = { -readonly [K in keyof T as \`get\${Capitalize<K>}\`]-?: T[K] };
+      `);
+      expect(decls[0]).toMatchObject({
+        type: {
+          kind: 'mapped',
+          readonly: '-',
+          optional: '-',
+          nameType: {
+            kind: 'template_literal',
+            parts: ['get', { kind: 'reference', name: 'Capitalize' }],
+          },
+        },
+      });
+    });
+  });
+
+  it('should expand literal union keys', () => {
+    const schema = toJsonSchema(`
+      type Flags = { [K in "a" | "b"]: number };
+    `, { rootType: 'Flags', includeSchema: false });
+
+    expect(schema).toEqual({
+      type: 'object',
+      properties: { a: { type: 'number' }, b: { type: 'number' } },
+      required: ['a', 'b'],
+    });
+  });
+
+  it('should expand generic mapped aliases like Nullable<T>', () => {
+    const schema = toJsonSchema(`
+      type Nullable<T> = { [K in keyof T]: T[K] | null };
+      interface User {
+        /** The user name */
+        name: string;
+        age?: number;
+      }
+      type NullableUser = Nullable<User>;
+    `, { rootType: 'NullableUser', includeSchema: false });
+
+    expect(schema.properties).toEqual({
+      name: { type: ['string', 'null'], description: 'The user name' },
+      age: { type: ['number', 'null'] },
+    });
+    expect(schema.required).toEqual(['name']);
+  });
+
+  it('should apply optional and readonly modifiers', () => {
+    const schema = toJsonSchema(`
+      interface User { readonly id: string; name?: string; }
+      type Opt<T> = { [K in keyof T]?: T[K] };
+      type Req<T> = { -readonly [K in keyof T]-?: T[K] };
+      type Frozen<T> = { readonly [K in keyof T]: T[K] };
+      interface Q {
+        opt: Opt<User>;
+        req: Req<User>;
+        frozen: Frozen<User>;
+      }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.opt.required).toBeUndefined();
+    expect(schema.properties?.req.required).toEqual(['id', 'name']);
+    expect(schema.properties?.req.properties.id.readOnly).toBeUndefined();
+    expect(schema.properties?.frozen.properties.name.readOnly).toBe(true);
+    expect(schema.properties?.frozen.required).toEqual(['id']);
+  });
+
+  it('should remap keys with as and template literals', () => {
+    const schema = toJsonSchema(`
+      interface Person { name: string; age: number; }
+      type Getters<T> = { [K in keyof T as \`get\${Capitalize<K>}\`]: T[K] };
+      type PersonGetters = Getters<Person>;
+    `, { rootType: 'PersonGetters', includeSchema: false });
+
+    expect(schema.properties).toEqual({
+      getName: { type: 'string' },
+      getAge: { type: 'number' },
+    });
+    expect(schema.required).toEqual(['getName', 'getAge']);
+  });
+
+  it('should remap keys through an intersection with string', () => {
+    const schema = toJsonSchema(`
+      interface Person { name: string; age: number; }
+      type Getters<T> = { [K in keyof T as \`get\${Capitalize<K & string>}\`]: T[K] };
+      type Handlers<T> = { [K in keyof T as \`on\${string & K}\`]: T[K] };
+      type PersonGetters = Getters<Person>;
+      type PersonHandlers = Handlers<Person>;
+    `, { includeSchema: false });
+
+    expect(Object.keys(schema.$defs!.PersonGetters.properties!)).toEqual(['getName', 'getAge']);
+    expect(schema.$defs!.PersonHandlers.properties).toEqual({
+      onname: { type: 'string' },
+      onage: { type: 'number' },
+    });
+  });
+
+  it('should drop keys remapped to never', () => {
+    const schema = toJsonSchema(`
+      interface Person { name: string; secret: string; }
+      type Public<T> = { [K in keyof T as K extends "secret" ? never : K]: T[K] };
+      type PublicPerson = Public<Person>;
+    `, { rootType: 'PublicPerson', includeSchema: false });
+
+    expect(Object.keys(schema.properties!)).toEqual(['name']);
+  });
+
+  it('should map string keys to an index signature', () => {
+    const schema = toJsonSchema(`
+      type Dict<V> = { [K in string]: V };
+      type Counts = Dict<number>;
+    `, { rootType: 'Counts', includeSchema: false });
+
+    expect(schema).toEqual({ type: 'object', additionalProperties: { type: 'number' } });
+  });
+
+  it('should combine with conditional types for DeepPartial', () => {
+    const schema = toJsonSchema(`
+      type DeepPartial<T> = T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+      interface Address { city: string; zip: string; }
+      interface User { name: string; address: Address; }
+      type Patch = DeepPartial<User>;
+    `, { rootType: 'Patch', includeSchema: false });
+
+    expect(schema.required).toBeUndefined();
+    expect(schema.properties?.name).toEqual({ type: 'string' });
+    expect(schema.properties?.address.type).toBe('object');
+    expect(schema.properties?.address.required).toBeUndefined();
+    expect(Object.keys(schema.properties?.address.properties)).toEqual(['city', 'zip']);
+  });
+
+  it('should map primitives to themselves without a conditional guard', () => {
+    const schema = toJsonSchema(`
+      type DeepReadonly<T> = { readonly [K in keyof T]: DeepReadonly<T[K]> };
+      type DeepPartial<T> = { [K in keyof T]?: DeepPartial<T[K]> };
+      interface User { name: string; level: 1; address: { city: string }; }
+      interface Q { frozen: DeepReadonly<User>; patch: DeepPartial<User>; }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.frozen.properties?.name).toEqual({ type: 'string', readOnly: true });
+    expect(schema.properties?.frozen.properties?.level).toEqual({ const: 1, readOnly: true });
+    expect(schema.properties?.frozen.properties?.address.properties?.city).toEqual({ type: 'string', readOnly: true });
+    expect(schema.properties?.patch.properties?.name).toEqual({ type: 'string' });
+  });
+
+  it('should fall back to a plain object when keys are unknown', () => {
+    const schema = toJsonSchema(`
+      type M = { [K in keyof External]: string };
+    `, { rootType: 'M', includeSchema: false });
+
+    expect(schema).toEqual({ type: 'object' });
+  });
+});
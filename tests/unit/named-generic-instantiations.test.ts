@@ -0,0 +1,166 @@
+import { describe, it, expect } from '@jest/globals';
+import { toJsonSchema, toJsonSchemas } from '../../src/index.js';
+
+const source = `
+  interface User { id: string; }
+  interface Post { title: string; }
+  interface Paginated<T> { items: T[]; total: number; }
+  interface Feed {
+    users: Paginated<User>;
+    posts: Paginated<Post>;
+    moreUsers: Paginated<User>;
+  }
+`;
+
+describe('Named generic instantiations', () => {
+  it('should inline instantiations by default', () => {
+    const schema = toJsonSchema(source, { rootType: 'Feed', includeSchema: false });
+
+    expect(schema.properties!.users).toEqual({
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: { $ref: '#/$defs/User' } },
+        total: { type: 'number' },
+      },
+      required: ['items', 'total'],
+    });
+  });
+
+  it('should emit each distinct instantiation once as a named definition', () => {
+    const schema = toJsonSchema(source, {
+      rootType: 'Feed',
+      includeSchema: false,
+      namedGenericInstantiations: true,
+    });
+
+    expect(schema.properties).toEqual({
+      users: { $ref: '#/$defs/Paginated_User' },
+      posts: { $ref: '#/$defs/Paginated_Post' },
+      moreUsers: { $ref: '#/$defs/Paginated_User' },
+    });
+    expect(schema.$defs!.Paginated_User).toEqual({
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: { $ref: '#/$defs/User' } },
+        total: { type: 'number' },
+      },
+      required: ['items', 'total'],
+    });
+    expect(schema.$defs).toHaveProperty('Paginated_Post');
+    expect(schema.$defs).not.toHaveProperty('Paginated');
+  });
+
+  it('should name nested and non-reference arguments readably', () => {
+    const schema = toJsonSchema(`
+      interface Box<T> { value: T; }
+      interface Holder {
+        a: Box<Box<string>>;
+        b: Box<number[]>;
+        c: Box<"x" | "y">;
+      }
+    `, { rootType: 'Holder', includeSchema: false, namedGenericInstantiations: true });
+
+    expect(schema.properties).toEqual({
+      a: { $ref: '#/$defs/Box_Box_string' },
+      b: { $ref: '#/$defs/Box_numberArray' },
+      c: { $ref: '#/$defs/Box_xOry' },
+    });
+    expect(schema.$defs!.Box_Box_string.properties.value).toEqual({ $ref: '#/$defs/Box_string' });
+  });
+
+  it('should accept a naming callback', () => {
+    const schema = toJsonSchema(source, {
+      rootType: 'Feed',
+      includeSchema: false,
+      namedGenericInstantiations: true,
+      genericInstantiationName: (name, args) => `${name}Of${args.join('And')}`,
+    });
+
+    expect(schema.properties!.posts).toEqual({ $ref: '#/$defs/PaginatedOfPost' });
+  });
+
+  it('should avoid clashing with declared type names', () => {
+    const schema = toJsonSchema(`
+      interface Box<T> { value: T; }
+      interface Box_string { legacy: true; }
+      interface Uses { box: Box<string>; }
+    `, { rootType: 'Uses', includeSchema: false, namedGenericInstantiations: true });
+
+    expect(schema.properties!.box).toEqual({ $ref: '#/$defs/Box_string_2' });
+    expect(schema.$defs!.Box_string.properties).toEqual({ legacy: { const: true } });
+  });
+
+  it('should terminate on recursive generics, even when inlining', () => {
+    const schema = toJsonSchema(`
+      type Tree<T> = { value: T; children: Tree<T>[] };
+      interface Doc { root: Tree<string>; }
+    `, { rootType: 'Doc', includeSchema: false });
+
+    expect(schema.properties!.root).toEqual({ $ref: '#/$defs/Tree_string' });
+    expect(schema.$defs!.Tree_string).toEqual({
+      type: 'object',
+      properties: {
+        value: { type: 'string' },
+        children: { type: 'array', items: { $ref: '#/$defs/Tree_string' } },
+      },
+      required: ['value', 'children'],
+    });
+  });
+
+  it('should terminate on mutually recursive generics', () => {
+    const schema = toJsonSchema(`
+      interface Folder<T> { files: T[]; parent?: Parent<T>; }
+      interface Parent<T> { folder: Folder<T>; }
+      interface Drive { root: Folder<string>; }
+    `, { rootType: 'Drive', includeSchema: false, namedGenericInstantiations: true });
+
+    expect(schema.properties!.root).toEqual({ $ref: '#/$defs/Folder_string' });
+    expect(schema.$defs!.Folder_string.properties.parent).toEqual({ $ref: '#/$defs/Parent_string' });
+    expect(schema.$defs!.Parent_string.properties.folder).toEqual({ $ref: '#/$defs/Folder_string' });
+  });
+
+  it('should stop expanding generics whose arguments grow', () => {
+    const source = `
+      type Nest<T> = { v: T; n?: Nest<T[]> };
+      interface Doc { root: Nest<string>; }
+    `;
+    const inline = toJsonSchema(source, { rootType: 'Doc', includeSchema: false });
+    const third = inline.properties!.root.properties.n.properties.n;
+
+    expect(third.properties.v).toEqual({ type: 'array', items: { type: 'array', items: { type: 'string' } } });
+    expect(third.properties.n).toEqual({});
+    expect(inline.$defs).toBeUndefined();
+
+    const named = toJsonSchema(source, { rootType: 'Doc', includeSchema: false, namedGenericInstantiations: true });
+    expect(Object.keys(named.$defs!)).toEqual(['Nest_stringArrayArray', 'Nest_stringArray', 'Nest_string']);
+    expect(named.$defs!.Nest_stringArrayArray.properties.n).toEqual({});
+  });
+
+  it('should warn that defineId inlines instantiations', () => {
+    const warn = console.warn;
+    const warnCalls: string[] = [];
+    console.warn = (...args: any[]) => { warnCalls.push(args.join(' ')); };
+    try {
+      const schema = toJsonSchema(source, {
+        rootType: 'Feed',
+        includeSchema: false,
+        namedGenericInstantiations: true,
+        defineId: (name) => `schemas/${name}`,
+      });
+      expect(schema.properties!.users.type).toBe('object');
+      expect(warnCalls).toEqual([expect.stringContaining('namedGenericInstantiations is ignored with defineId')]);
+    } finally {
+      console.warn = warn;
+    }
+  });
+
+  it('should include instantiations in batch definitions', () => {
+    const schemas = toJsonSchemas(source, { namedGenericInstantiations: true, includeSchema: false });
+
+    expect(schemas.Feed.properties!.users).toEqual({ $ref: '#/definitions/Paginated_User' });
+    expect(Object.keys(schemas.Feed.definitions as object).sort()).toEqual([
+      'Paginated_Post', 'Paginated_User', 'Post', 'User',
+    ]);
+    expect((schemas.Feed.definitions as any).Paginated_User.properties.items.items).toEqual({ $ref: '#/definitions/User' });
+  });
+});
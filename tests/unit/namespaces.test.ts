@@ -0,0 +1,130 @@
+import { describe, it, expect } from '@jest/globals';
+import { toJsonSchema, parseDeclarations } from '../../src/index.js';
+
+describe('Namespaces', () => {
+  it('should parse namespace bodies into qualified declarations', () => {
+    const decls = parseDeclarations(`
+      export namespace Api {
+        export interface User { id: string; }
+        export type Role = "admin" | "user";
+        export enum Status { Active = "active" }
+      }
+    `);
+
+    expect(decls.map(d => d.name)).toEqual(['Api.User', 'Api.Role', 'Api.Status']);
+  });
+
+  it('should resolve qualified references', () => {
+    const schema = toJsonSchema(`
+      namespace Api {
+        export interface User { id: string; }
+      }
+      interface Session {
+        user: Api.User;
+      }
+    `, { rootType: 'Session', includeSchema: false });
+
+    expect(schema.properties!.user).toEqual({ $ref: '#/$defs/Api.User' });
+    expect(schema.$defs!['Api.User']).toEqual({
+      type: 'object',
+      properties: { id: { type: 'string' } },
+      required: ['id'],
+    });
+  });
+
+  it('should resolve unqualified references inside the namespace, including forward ones', () => {
+    const schema = toJsonSchema(`
+      interface User { legacy: boolean; }
+      namespace Api {
+        export interface Response { user: User; meta: Meta; }
+        export interface User { id: string; }
+        interface Meta { page: number; }
+      }
+    `, { rootType: 'Api.Response', includeSchema: false });
+
+    expect(schema.properties).toEqual({
+      user: { $ref: '#/$defs/Api.User' },
+      meta: { $ref: '#/$defs/Api.Meta' },
+    });
+  });
+
+  it('should support nested and dotted namespaces', () => {
+    const decls = parseDeclarations(`
+      namespace A.B {
+        export interface X { value: string; }
+      }
+      namespace Outer {
+        export namespace Inner {
+          export interface Y { x: A.B.X; sibling: Z; }
+          export interface Z { ok: boolean; }
+        }
+        export type Alias = Inner.Y;
+      }
+    `);
+
+    expect(decls.map(d => d.name)).toEqual(['A.B.X', 'Outer.Inner.Y', 'Outer.Inner.Z', 'Outer.Alias']);
+    const y = decls[1];
+    expect(y.kind === 'interface' && y.properties.map(p => p.type)).toEqual([
+      { kind: 'reference', name: 'A.B.X' },
+      { kind: 'reference', name: 'Outer.Inner.Z' },
+    ]);
+    const alias = decls[3];
+    expect(alias.kind === 'type_alias' && alias.type).toEqual({ kind: 'reference', name: 'Outer.Inner.Y' });
+  });
+
+  it('should still parse enum member access', () => {
+    const schema = toJsonSchema(`
+      enum Status { Active = "active", Inactive = "inactive" }
+      namespace Api {
+        export enum Kind { A = "a", B = "b" }
+      }
+      interface Item {
+        status: Status.Active;
+        kind: Api.Kind.B;
+      }
+    `, { rootType: 'Item', includeSchema: false });
+
+    expect(schema.properties).toEqual({
+      status: { const: 'active' },
+      kind: { const: 'b' },
+    });
+  });
+
+  it('should resolve typeof on namespaced consts', () => {
+    const schema = toJsonSchema(`
+      namespace Config {
+        export const LEVELS = ["low", "high"] as const;
+        export type Level = typeof LEVELS[number];
+      }
+    `, { rootType: 'Config.Level', includeSchema: false });
+
+    expect(schema.enum).toEqual(['low', 'high']);
+  });
+
+  it('should pass the namespace path to defineNameTransform', () => {
+    const schema = toJsonSchema(`
+      namespace Api {
+        export interface User { id: string; }
+      }
+      interface Session { user: Api.User; }
+    `, {
+      rootType: 'Session',
+      includeSchema: false,
+      defineNameTransform: (name) => name.replace(/\./g, '_'),
+    });
+
+    expect(schema.properties!.user).toEqual({ $ref: '#/$defs/Api_User' });
+    expect(schema.$defs).toHaveProperty('Api_User');
+  });
+
+  it('should not qualify names inside declare module blocks', () => {
+    const decls = parseDeclarations(`
+      declare module "express" {
+        interface Request { body: any; }
+      }
+      interface Config { port: number; }
+    `);
+
+    expect(decls.map(d => d.name)).toEqual(['Request', 'Config']);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import Ajv from 'ajv';
+import { toJsonSchema, toJsonSchemas, convertSchemaToTarget, classValidatorDecorators } from '../../src/index.js';
+
+const source = `
+  interface Point { x: number; y: number; }
+  interface Shape {
+    kind: "polygon";
+    sides: number;
+    origin: [Point, string, ...boolean[]];
+    label?: string | null;
+  }
+`;
+
+describe('target', () => {
+  let originalWarn: typeof console.warn;
+  let warnCalls: string[] = [];
+
+  beforeEach(() => {
+    warnCalls = [];
+    originalWarn = console.warn;
+    console.warn = (...args: any[]) => { warnCalls.push(args.join(' ')); };
+  });
+
+  afterEach(() => {
+    console.warn = originalWarn;
+  });
+
+  it('should leave 2020-12 output unchanged by default', () => {
+    const schema = toJsonSchema(source, { rootType: 'Shape' });
+    expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(schema.$defs).toHaveProperty('Point');
+    expect(schema.properties!.origin.prefixItems).toHaveLength(2);
+  });
+
+  describe('draft-07', () => {
+    it('should emit items arrays and definitions', () => {
+      const schema = toJsonSchema(source, { rootType: 'Shape', target: 'draft-07' });
+
+      expect(schema.$schema).toBe('http://json-schema.org/draft-07/schema#');
+      expect(schema).not.toHaveProperty('$defs');
+      expect(schema.definitions).toHaveProperty('Point');
+      expect(schema.properties!.origin).toEqual({
+        type: 'array',
+        minItems: 2,
+        items: [{ $ref: '#/definitions/Point' }, { type: 'string' }],
+        additionalItems: { type: 'boolean' },
+      });
+      expect(schema.properties!.kind).toEqual({ const: 'polygon' });
+      expect(warnCalls).toHaveLength(0);
+    });
+
+    it('should validate with a draft-07 validator', () => {
+      const schema = toJsonSchema(source, { rootType: 'Shape', target: 'draft-07' });
+      const validate = new Ajv().compile(schema);
+
+      const shape = { kind: 'polygon', sides: 3, origin: [{ x: 0, y: 0 }, 'o', true], label: null };
+      expect(validate(shape)).toBe(true);
+      expect(validate({ ...shape, origin: [{ x: 0, y: 0 }, 'o', 'no'] })).toBe(false);
+    });
+
+    it('should convert batch schemas', () => {
+      const schemas = toJsonSchemas(source, { target: 'draft-07' });
+      expect(schemas.Shape.$schema).toBe('http://json-schema.org/draft-07/schema#');
+      expect(schemas.Shape.properties!.origin.items).toHaveLength(2);
+    });
+  });
+
+  describe('draft-04', () => {
+    it('should rewrite const to enum', () => {
+      const schema = toJsonSchema(source, { rootType: 'Shape', target: 'draft-04' });
+
+      expect(schema.$schema).toBe('http://json-schema.org/draft-04/schema#');
+      expect(schema.properties!.kind).toEqual({ enum: ['polygon'] });
+    });
+
+    it('should rewrite exclusive bounds to the boolean form', () => {
+      const schema = toJsonSchema(`
+        class Order {
+          @IsPositive()
+          quantity: number;
+        }
+      `, { rootType: 'Order', target: 'draft-04', decorators: classValidatorDecorators });
+
+      expect(schema.properties!.quantity).toEqual({ type: 'number', minimum: 0, exclusiveMinimum: true });
+    });
+  });
+
+  describe('openapi-3.0', () => {
+    it('should emit nullable and drop $schema', () => {
+      const schema = toJsonSchema(source, { rootType: 'Shape', target: 'openapi-3.0' });
+
+      expect(schema).not.toHaveProperty('$schema');
+      expect(schema.properties!.label).toEqual({ type: 'string', nullable: true });
+      expect(schema.properties!.kind).toEqual({ enum: ['polygon'] });
+    });
+
+    it('should turn null union members into nullable next to a type', () => {
+      const schema = toJsonSchema(`
+        enum Status { Active = "active", Banned = "banned" }
+        interface Point { x: number; }
+        interface Holder {
+          point: Point | null;
+          status: Status | null;
+          level: "low" | "high" | null;
+          either: Point | { y: number } | null;
+          mixed: string | Point | null;
+        }
+      `, { rootType: 'Holder', target: 'openapi-3.0' });
+
+      expect(schema.properties).toEqual({
+        point: { type: 'object', nullable: true, allOf: [{ $ref: '#/definitions/Point' }] },
+        status: { type: 'string', nullable: true, allOf: [{ $ref: '#/definitions/Status' }] },
+        level: { type: 'string', enum: ['low', 'high', null], nullable: true },
+        either: {
+          type: 'object',
+          nullable: true,
+          anyOf: [
+            { $ref: '#/definitions/Point' },
+            { type: 'object', properties: { y: { type: 'number' } }, required: ['y'] },
+          ],
+        },
+        mixed: {
+          anyOf: [
+            { type: 'string' },
+            { $ref: '#/definitions/Point' },
+            { type: 'object', nullable: true, enum: [null] },
+          ],
+        },
+      });
+      const validate = new Ajv({ strict: false }).compile(schema);
+      const holder = { point: { x: 1 }, status: 'active', level: null, either: { y: 1 }, mixed: null };
+      expect(validate(holder)).toBe(true);
+      expect(validate({ ...holder, level: 'mid' })).toBe(false);
+    });
+
+    it('should approximate tuples and warn once', () => {
+      const schema = toJsonSchema(source, { rootType: 'Shape', target: 'openapi-3.0' });
+
+      expect(schema.properties!.origin.items).toEqual({
+        anyOf: [{ $ref: '#/definitions/Point' }, { type: 'string' }, { type: 'boolean' }],
+      });
+      expect(warnCalls).toHaveLength(1);
+      expect(warnCalls[0]).toContain('target "openapi-3.0" can\'t express "prefixItems"');
+      expect(warnCalls[0]).toContain('#/properties/origin');
+    });
+  });
+
+  it('should warn about unevaluatedProperties', () => {
+    const schema = toJsonSchema(`
+      interface Base { id: string; }
+      interface User extends Base { name: string; }
+    `, { rootType: 'User', target: 'draft-07', strictObjects: true, extendsStrategy: 'unevaluated' });
+
+    expect(schema).not.toHaveProperty('unevaluatedProperties');
+    expect(warnCalls).toHaveLength(1);
+    expect(warnCalls[0]).toContain('"unevaluatedProperties"');
+  });
+
+  it('should expose the converter for existing schemas', () => {
+    const dropped: string[] = [];
+    const schema = convertSchemaToTarget(
+      { type: 'object', properties: { a: { type: 'null' } }, if: { required: ['a'] } },
+      'openapi-3.0',
+      (keyword, pointer) => dropped.push(`${keyword} ${pointer}`)
+    );
+
+    expect(schema).toEqual({ type: 'object', properties: { a: { type: 'object', nullable: true, enum: [null] } } });
+    expect(dropped).toEqual(['type: null #/properties/a', 'if #']);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import { toJsonSchema, parseDeclarations } from '../../src/index.js';
+
+describe('Template literal types', () => {
+  it('should parse interpolations into template_literal parts', () => {
+    const decls = parseDeclarations('type Id = `user_${string}`;');
+    expect(decls[0]).toMatchObject({
+      type: {
+        kind: 'template_literal',
+        parts: ['user_', { kind: 'primitive', value: 'string' }],
+      },
+    });
+  });
+
+  it('should treat a template without interpolations as a string literal', () => {
+    const schema = toJsonSchema('type Fixed = `hello`;', { rootType: 'Fixed', includeSchema: false });
+    expect(schema).toEqual({ const: 'hello' });
+  });
+
+  it('should emit an anchored pattern for string interpolation', () => {
+    const schema = toJsonSchema('type UserId = `user_${string}`;', { rootType: 'UserId', includeSchema: false });
+    expect(schema).toEqual({ type: 'string', pattern: '^user_[\\s\\S]*$' });
+    expect(new RegExp(schema.pattern as string).test('user_line1\nline2')).toBe(true);
+  });
+
+  it('should map number, bigint and boolean interpolations', () => {
+    const schema = toJsonSchema(`
+      interface Q {
+        px: \`\${number}px\`;
+        big: \`\${bigint}n\`;
+        flag: \`is_\${boolean}\`;
+      }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.px).toEqual({ type: 'string', pattern: '^-?\\d+(?:\\.\\d+)?px$' });
+    expect(schema.properties?.big).toEqual({ type: 'string', pattern: '^-?\\d+n$' });
+    expect(schema.properties?.flag).toEqual({ type: 'string', pattern: '^is_(?:true|false)$' });
+
+    const px = new RegExp(schema.properties?.px.pattern);
+    expect(px.test('12px')).toBe(true);
+    expect(px.test('-1.5px')).toBe(true);
+    expect(px.test('12em')).toBe(false);
+  });
+
+  it('should map literal unions and aliases to alternations', () => {
+    const schema = toJsonSchema(`
+      type Size = "sm" | "lg";
+      enum Side { Left = "left", Right = "right" }
+      type Cls = \`btn-\${Size}-\${Side}\`;
+    `, { rootType: 'Cls', includeSchema: false });
+
+    expect(schema.pattern).toBe('^btn-(?:sm|lg)-(?:left|right)$');
+  });
+
+  it('should escape regex metacharacters in literal parts', () => {
+    const schema = toJsonSchema('type V = `v1.${number}+build`;', { rootType: 'V', includeSchema: false });
+    expect(schema.pattern).toBe('^v1\\.-?\\d+(?:\\.\\d+)?\\+build$');
+  });
+
+  it('should combine unions of template literals into one alternation', () => {
+    const schema = toJsonSchema(`
+      type Id = \`user_\${string}\` | \`org_\${number}\` | "anonymous";
+    `, { rootType: 'Id', includeSchema: false });
+
+    expect(schema).toEqual({ type: 'string', pattern: '^(?:user_[\\s\\S]*|org_-?\\d+(?:\\.\\d+)?|anonymous)$' });
+  });
+
+  it('should fall back to plain string for unconvertible interpolations', () => {
+    const schema = toJsonSchema('type X = `id_${External}`;', { rootType: 'X', includeSchema: false });
+    expect(schema).toEqual({ type: 'string' });
+  });
+
+  it('should use the pattern in conditional type checks', () => {
+    const schema = toJsonSchema(`
+      type IsEvent<T> = T extends \`on\${string}\` ? true : false;
+      interface Q { a: IsEvent<"onClick">; b: IsEvent<"click">; }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.a).toEqual({ const: true });
+    expect(schema.properties?.b).toEqual({ const: false });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ts from 'typescript';
+import { toTypeGuards, toTypeGuardsFromFiles } from '../../src/index.js';
+
+type Guard = (x: unknown) => boolean;
+
+/** Transpiles a generated guards module and returns its exported functions. */
+function load(code: string): Record<string, Guard> {
+  const js = ts.transpileModule(code, { compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.ES2020 } }).outputText;
+  const names = [...js.matchAll(/^export function (\w+)/gm)].map(m => m[1]);
+  return new Function(`${js.replace(/^export /gm, '')}\nreturn { ${names.join(', ')} };`)();
+}
+
+const source = `
+  export enum Role { Admin = "admin", User = "user" }
+  export type Shape =
+    | { kind: "circle"; radius: number }
+    | { kind: "square"; size: number };
+  export interface User {
+    id: \`user_\${string}\`;
+    name: string;
+    age?: number;
+    role: Role;
+    active: true;
+    nickname: string | null;
+    scores: Record<string, number>;
+    position: [number, number];
+    shape: Shape;
+    friends: User[];
+    address: Address;
+    meta: { created: string; tags?: string[] };
+    payload: unknown;
+    createdAt: Date;
+    visits: bigint;
+    deletedAt?: Date | null;
+  }
+  interface Address { city: string; next?: Address }
+  interface Unused { x: number }
+`;
+
+const validUser = {
+  id: 'user_1',
+  name: 'Ann',
+  role: 'admin',
+  active: true,
+  nickname: null,
+  scores: { math: 1 },
+  position: [1, 2],
+  shape: { kind: 'circle', radius: 2 },
+  friends: [],
+  address: { city: 'Oslo', next: { city: 'Bergen' } },
+  meta: { created: '2024-01-01' },
+  payload: undefined,
+  createdAt: new Date('2024-01-01'),
+  visits: 3n,
+};
+
+describe('Type guard generation', () => {
+  const code = toTypeGuards(source, { typesModule: './model' });
+  const guards = load(code);
+
+  it('should import the types and export one guard per exported type', () => {
+    expect(code).toContain('import type { Role, Shape, User } from "./model";');
+    expect(code).toContain('export function isUser(x: unknown): x is User {');
+    expect(Object.keys(guards)).toEqual(['isRole', 'isShape', 'isUser']);
+  });
+
+  it('should give non-exported types a private guard only when needed', () => {
+    expect(code).toContain('function isAddress(x: unknown): boolean {');
+    expect(code).not.toContain('isUnused');
+  });
+
+  it('should accept matching values', () => {
+    expect(guards.isUser(validUser)).toBe(true);
+    expect(guards.isUser({ ...validUser, age: 30, friends: [validUser] })).toBe(true);
+    expect(guards.isRole('user')).toBe(true);
+    expect(guards.isShape({ kind: 'square', size: 1 })).toBe(true);
+  });
+
+  it('should reject mismatches in any part of the type', () => {
+    expect(guards.isUser(null)).toBe(false);
+    expect(guards.isUser([])).toBe(false);
+    expect(guards.isUser({ ...validUser, id: 'admin_1' })).toBe(false);
+    expect(guards.isUser({ ...validUser, age: '30' })).toBe(false);
+    expect(guards.isUser({ ...validUser, role: 'guest' })).toBe(false);
+    expect(guards.isUser({ ...validUser, active: false })).toBe(false);
+    expect(guards.isUser({ ...validUser, nickname: undefined })).toBe(false);
+    expect(guards.isUser({ ...validUser, scores: { math: 'A' } })).toBe(false);
+    expect(guards.isUser({ ...validUser, position: [1] })).toBe(false);
+    expect(guards.isUser({ ...validUser, shape: { kind: 'circle', size: 1 } })).toBe(false);
+    expect(guards.isUser({ ...validUser, friends: [{ name: 'Bo' }] })).toBe(false);
+    expect(guards.isUser({ ...validUser, address: { city: 'Oslo', next: { city: 1 } } })).toBe(false);
+    expect(guards.isUser({ ...validUser, meta: { created: '', tags: [1] } })).toBe(false);
+  });
+
+  it('should check Date and bigint as runtime values, not their JSON forms', () => {
+    expect(guards.isUser({ ...validUser, deletedAt: new Date() })).toBe(true);
+    expect(guards.isUser({ ...validUser, createdAt: '2024-01-01T00:00:00Z' })).toBe(false);
+    expect(guards.isUser({ ...validUser, deletedAt: '2024-01-01T00:00:00Z' })).toBe(false);
+    expect(guards.isUser({ ...validUser, visits: 3 })).toBe(false);
+    expect(code).toContain('x["createdAt"] instanceof Date');
+    expect(code).toContain('typeof x["visits"] === "bigint"');
+  });
+
+  it('should check integers that are numbers as numbers', () => {
+    const { isPage } = load(toTypeGuards(`
+      export class Page {
+        @IsInt()
+        index: number;
+      }
+    `));
+    expect(isPage({ index: 2 })).toBe(true);
+    expect(isPage({ index: 2.5 })).toBe(false);
+    expect(isPage({ index: 2n })).toBe(false);
+  });
+
+  it('should give names that sanitize to the same identifier distinct guards', () => {
+    const code = toTypeGuards(`
+      export namespace Api { export interface User { id: string; } }
+      export interface Api_User { name: string; }
+      export interface Account { owner: Api.User; alias: Api_User; }
+    `);
+    const { isAccount } = load(code);
+
+    expect(code).toContain('export function isApi_User(x: unknown): x is Api_User {');
+    expect(code).toContain('export function isApi_User_2(x: unknown): x is Api.User {');
+    expect(isAccount({ owner: { id: 'a' }, alias: { name: 'b' } })).toBe(true);
+    expect(isAccount({ owner: { name: 'b' }, alias: { id: 'a' } })).toBe(false);
+  });
+
+  it('should require properties of type unknown to be present', () => {
+    const { payload, ...withoutPayload } = validUser;
+    expect(guards.isUser(withoutPayload)).toBe(false);
+  });
+
+  it('should narrow under strict type-checking', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'type-guards-test-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'model.ts'), source);
+      fs.writeFileSync(path.join(dir, 'guards.ts'), code);
+      fs.writeFileSync(path.join(dir, 'usage.ts'), [
+        'import { isUser } from "./guards";',
+        'export function radius(data: unknown): number | undefined {',
+        '  return isUser(data) && data.shape.kind === "circle" ? data.shape.radius : undefined;',
+        '}',
+      ].join('\n'));
+      const program = ts.createProgram([path.join(dir, 'usage.ts')], { strict: true, noEmit: true, noUnusedLocals: true, types: [], target: ts.ScriptTarget.ES2020, lib: ['lib.es2020.d.ts'] });
+      // model.ts is the test's own source, with its deliberately unused type
+      const diagnostics = ts.getPreEmitDiagnostics(program)
+        .filter(d => !d.file?.fileName.endsWith('model.ts'))
+        .map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+      expect(diagnostics).toEqual([]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe('from files', () => {
+    let tempDir: string;
+
+    beforeAll(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'type-guards-files-'));
+      fs.mkdirSync(path.join(tempDir, 'models'));
+      fs.writeFileSync(path.join(tempDir, 'models', 'user.ts'), 'export interface User { id: string; }');
+      fs.writeFileSync(
+        path.join(tempDir, 'models', 'post.ts'),
+        'import { User } from "./user";\nexport interface Post { author: User; replies: Post[]; }'
+      );
+    });
+
+    afterAll(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should import each type from its file along the import graph', () => {
+      const guardsCode = toTypeGuardsFromFiles([path.join(tempDir, 'models', 'post.ts')], {
+        followImports: 'local',
+        outFile: path.join(tempDir, 'generated', 'guards.ts'),
+        importExtension: '.js',
+      });
+
+      expect(guardsCode).toContain('import type { Post } from "../models/post.js";');
+      expect(guardsCode).toContain('import type { User } from "../models/user.js";');
+      expect(guardsCode).toContain('isUser(x["author"])');
+      expect(guardsCode).toContain('x["replies"].every((e1) => isPost(e1))');
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from '@jest/globals';
+import { toJsonSchema, parseDeclarations } from '../../src/index.js';
+
+describe('Type parameter defaults and constraints', () => {
+  it('should keep constraints and defaults on the declaration', () => {
+    const decls = parseDeclarations(`
+      interface Lookup<K extends string = "id", V = Record<K, number>, in out W = never> { key: K; value: V }
+    `);
+
+    expect(decls[0]).toMatchObject({
+      typeParams: ['K', 'V', 'W'],
+      typeParamConstraints: { K: { kind: 'primitive', value: 'string' } },
+      typeParamDefaults: {
+        K: { kind: 'literal_string', value: 'id' },
+        V: { kind: 'record', keyType: { kind: 'reference', name: 'K' }, valueType: { kind: 'primitive', value: 'number' } },
+        W: { kind: 'primitive', value: 'never' },
+      },
+    });
+  });
+
+  it('should use defaults when a generic is referenced without arguments', () => {
+    const schema = toJsonSchema(`
+      interface Item { id: string; }
+      interface Page<T = Item> { items: T[]; total: number; }
+      interface Catalog { page: Page; }
+    `, { rootType: 'Catalog', includeSchema: false });
+
+    expect(schema.properties!.page).toEqual({ $ref: '#/$defs/Page' });
+    expect(schema.$defs!.Page).toEqual({
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: { $ref: '#/$defs/Item' } },
+        total: { type: 'number' },
+      },
+      required: ['items', 'total'],
+    });
+    expect(schema.$defs).toHaveProperty('Item');
+  });
+
+  it('should fill missing arguments from defaults', () => {
+    const schema = toJsonSchema(`
+      type Result<T, E = { message: string }> = { ok: T } | { error: E };
+      type Loaded = Result<number>;
+    `, { rootType: 'Loaded', includeSchema: false });
+
+    expect(schema.anyOf).toEqual([
+      { type: 'object', properties: { ok: { type: 'number' } }, required: ['ok'] },
+      {
+        type: 'object',
+        properties: {
+          error: { type: 'object', properties: { message: { type: 'string' } }, required: ['message'] },
+        },
+        required: ['error'],
+      },
+    ]);
+  });
+
+  it('should let defaults refer to earlier parameters', () => {
+    const schema = toJsonSchema(`
+      interface Pair<A, B = A[]> { first: A; second: B; }
+      interface Uses extends Pair<string> {}
+    `, { rootType: 'Uses', includeSchema: false });
+
+    expect(schema.properties).toEqual({
+      first: { type: 'string' },
+      second: { type: 'array', items: { type: 'string' } },
+    });
+  });
+
+  it('should emit the constraint for a leaked parameter', () => {
+    const schema = toJsonSchema(`
+      interface Named { name: string; }
+      interface Holder<T extends Named> { value: T; }
+      interface Uses { holder: Holder; }
+    `, { rootType: 'Uses', includeSchema: false });
+
+    expect(schema.$defs!.Holder).toEqual({
+      type: 'object',
+      properties: { value: { $ref: '#/$defs/Named' } },
+      required: ['value'],
+    });
+  });
+
+  it('should prefer the default over the constraint', () => {
+    const schema = toJsonSchema(`
+      interface Box<T extends string | number = "empty"> { value: T; }
+      interface Uses { box: Box; }
+    `, { rootType: 'Uses', includeSchema: false });
+
+    expect(schema.$defs!.Box.properties).toEqual({ value: { const: 'empty' } });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from '@jest/globals';
+import { toJsonSchema, toJsonSchemas, parseDeclarations } from '../../src/index.js';
+
+describe('typeof type queries', () => {
+  describe('const declaration parsing', () => {
+    it('should capture as const arrays as readonly tuples of literals', () => {
+      const decls = parseDeclarations(`export const ROLES = ["admin", "user"] as const;`);
+      expect(decls).toEqual([{
+        kind: 'const',
+        name: 'ROLES',
+        type: {
+          kind: 'tuple',
+          elements: [
+            { type: { kind: 'literal_string', value: 'admin' } },
+            { type: { kind: 'literal_string', value: 'user' } },
+          ],
+        },
+        description: undefined,
+        tags: undefined,
+        exported: true,
+      }]);
+    });
+
+    it('should widen nested values without as const', () => {
+      const decls = parseDeclarations(`const config = { port: 8080, hosts: ["a", "b"], debug: false };`);
+      expect(decls[0]).toMatchObject({
+        kind: 'const',
+        type: {
+          kind: 'object',
+          properties: [
+            { name: 'port', type: { kind: 'primitive', value: 'number' }, readonly: false },
+            { name: 'hosts', type: { kind: 'array', element: { kind: 'primitive', value: 'string' } } },
+            { name: 'debug', type: { kind: 'primitive', value: 'boolean' } },
+          ],
+        },
+      });
+    });
+
+    it('should keep the literal type of a top-level primitive', () => {
+      const decls = parseDeclarations(`const VERSION = "1.2";`);
+      expect(decls[0]).toMatchObject({ type: { kind: 'literal_string', value: '1.2' } });
+    });
+
+    it('should prefer a type annotation over the initializer', () => {
+      const decls = parseDeclarations(`const port: number = 80;`);
+      expect(decls[0]).toMatchObject({ type: { kind: 'primitive', value: 'number' } });
+    });
+
+    it('should skip consts without a literal initializer', () => {
+      const decls = parseDeclarations(`
+        const a = createThing();
+        const { b, c } = obj;
+        const d = 1 + 2;
+        declare const e: string;
+        const f = () => 1;
+        interface Config { port: number; }
+      `);
+      expect(decls).toHaveLength(1);
+      expect(decls[0].name).toBe('Config');
+    });
+  });
+
+  it('should turn typeof X[number] on an as const array into an enum', () => {
+    const schema = toJsonSchema(`
+      export const ROLES = ["admin", "user"] as const;
+      export type Role = typeof ROLES[number];
+    `, { rootType: 'Role', includeSchema: false });
+
+    expect(schema).toEqual({ type: 'string', enum: ['admin', 'user'] });
+  });
+
+  it('should allow a const and a type to share a name', () => {
+    const schema = toJsonSchema(`
+      const Status = ["open", "closed"] as const;
+      type Status = typeof Status[number];
+      interface Ticket { status: Status; }
+    `, { rootType: 'Ticket', includeSchema: false });
+
+    expect(schema.properties?.status).toEqual({ $ref: '#/$defs/Status' });
+    expect(schema.$defs?.Status).toEqual({ type: 'string', enum: ['open', 'closed'] });
+  });
+
+  it('should emit an as const object with const properties', () => {
+    const schema = toJsonSchema(`
+      const DEFAULTS = {
+        retries: 3,
+        mode: "fast",
+        nested: { enabled: true, tags: ["a", "b"] },
+      } as const;
+      type Defaults = typeof DEFAULTS;
+    `, { rootType: 'Defaults', includeSchema: false });
+
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        retries: { const: 3, readOnly: true },
+        mode: { const: 'fast', readOnly: true },
+        nested: {
+          type: 'object',
+          properties: {
+            enabled: { const: true, readOnly: true },
+            tags: {
+              type: 'array',
+              prefixItems: [{ const: 'a' }, { const: 'b' }],
+              minItems: 2,
+              maxItems: 2,
+              readOnly: true,
+            },
+          },
+          required: ['enabled', 'tags'],
+          readOnly: true,
+        },
+      },
+      required: ['retries', 'mode', 'nested'],
+    });
+  });
+
+  it('should support keyof typeof and dotted value paths', () => {
+    const schema = toJsonSchema(`
+      const ROUTES = { home: "/", about: "/about" } as const;
+      interface Q {
+        name: keyof typeof ROUTES;
+        path: (typeof ROUTES)[keyof typeof ROUTES];
+        home: typeof ROUTES.home;
+      }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.name).toEqual({ type: 'string', enum: ['home', 'about'] });
+    expect(schema.properties?.path).toEqual({ type: 'string', enum: ['/', '/about'] });
+    expect(schema.properties?.home).toEqual({ const: '/' });
+  });
+
+  it('should resolve typeof on enums', () => {
+    const schema = toJsonSchema(`
+      enum Color { Red = "red", Green = "green" }
+      interface Q { colorName: keyof typeof Color; }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.colorName).toEqual({ type: 'string', enum: ['Red', 'Green'] });
+  });
+
+  it('should accept anything for unknown values', () => {
+    const schema = toJsonSchema(`
+      interface Q { x: typeof somethingElse; }
+    `, { rootType: 'Q', includeSchema: false });
+
+    expect(schema.properties?.x).toEqual({});
+  });
+
+  it('should not emit consts as schemas in batch mode', () => {
+    const schemas = toJsonSchemas(`
+      export const SIZES = ["s", "m", "l"] as const;
+      export interface Shirt { size: typeof SIZES[number]; }
+    `);
+
+    expect(Object.keys(schemas)).toEqual(['Shirt']);
+    expect(schemas.Shirt.properties?.size).toEqual({ type: 'string', enum: ['s', 'm', 'l'] });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from '@jest/globals';
+import { toJsonSchema } from '../../src/index.js';
+
+describe('Union utility types', () => {
+  describe('Exclude / Extract', () => {
+    it('should exclude literal members', () => {
+      const schema = toJsonSchema(`
+        type Status = "active" | "inactive" | "deleted";
+        type Visible = Exclude<Status, "deleted">;
+      `, { rootType: 'Visible', includeSchema: false });
+
+      expect(schema.enum).toEqual(['active', 'inactive']);
+    });
+
+    it('should extract literal members', () => {
+      const schema = toJsonSchema(`
+        type Status = "active" | "inactive" | "deleted";
+        type Gone = Extract<Status, "deleted" | "archived">;
+      `, { rootType: 'Gone', includeSchema: false });
+
+      expect(schema.const).toBe('deleted');
+    });
+
+    it('should exclude by primitive type', () => {
+      const schema = toJsonSchema(`
+        type Mixed = string | number | boolean;
+        type NotString = Exclude<Mixed, string>;
+      `, { rootType: 'NotString', includeSchema: false });
+
+      expect(schema.anyOf).toEqual([{ type: 'number' }, { type: 'boolean' }]);
+    });
+
+    it('should filter enum members', () => {
+      const schema = toJsonSchema(`
+        enum Role { Admin = "admin", User = "user", Guest = "guest" }
+        type Member = Exclude<Role, Role.Guest>;
+      `, { rootType: 'Member', includeSchema: false });
+
+      expect(schema.enum).toEqual(['admin', 'user']);
+    });
+
+    it('should extract members of a discriminated union', () => {
+      const schema = toJsonSchema(`
+        interface Circle { kind: "circle"; radius: number; }
+        interface Square { kind: "square"; size: number; }
+        interface Triangle { kind: "triangle"; base: number; }
+        type Shape = Circle | Square | Triangle;
+        type Round = Extract<Shape, { kind: "circle" }>;
+        type Angular = Exclude<Shape, { kind: "circle" }>;
+      `, { rootType: 'Angular', includeSchema: false });
+
+      expect(schema.anyOf).toEqual([
+        { $ref: '#/$defs/Square' },
+        { $ref: '#/$defs/Triangle' },
+      ]);
+      expect(schema.$defs?.Round).toEqual({ $ref: '#/$defs/Circle' });
+    });
+
+    it('should produce never when everything is excluded', () => {
+      const schema = toJsonSchema(`
+        type None = Exclude<"a" | "b", string>;
+      `, { rootType: 'None', includeSchema: false });
+
+      expect(schema.not).toEqual({});
+    });
+  });
+
+  describe('NonNullable', () => {
+    it('should remove null and undefined members', () => {
+      const schema = toJsonSchema(`
+        type Maybe = string | null | undefined;
+        type Sure = NonNullable<Maybe>;
+      `, { rootType: 'Sure', includeSchema: false });
+
+      expect(schema.type).toBe('string');
+    });
+  });
+
+  describe('Awaited', () => {
+    it('should unwrap promises', () => {
+      const schema = toJsonSchema(`
+        type Result = Awaited<Promise<number>>;
+      `, { rootType: 'Result', includeSchema: false });
+
+      expect(schema.type).toBe('number');
+    });
+  });
+
+  describe('ReturnType / Parameters', () => {
+    it('should resolve the return type of a function type alias', () => {
+      const schema = toJsonSchema(`
+        interface User { id: string; }
+        type GetUser = (id: string) => Promise<User>;
+        type Result = ReturnType<GetUser>;
+      `, { rootType: 'Result', includeSchema: false });
+
+      expect(schema.$ref).toBe('#/$defs/User');
+    });
+
+    it('should resolve parameters as a tuple', () => {
+      const schema = toJsonSchema(`
+        type Search = (query: string, limit?: number, ...tags: string[]) => void;
+        type Args = Parameters<Search>;
+      `, { rootType: 'Args', includeSchema: false });
+
+      expect(schema.type).toBe('array');
+      expect(schema.prefixItems).toEqual([{ type: 'string' }, { type: 'number' }]);
+      expect(schema.minItems).toBe(1);
+      expect(schema.items).toEqual({ type: 'string' });
+    });
+
+    it('should resolve function-typed properties via indexed access', () => {
+      const schema = toJsonSchema(`
+        interface Api {
+          fetch: (url: string) => { status: number };
+        }
+        type Response = ReturnType<Api["fetch"]>;
+      `, { rootType: 'Response', includeSchema: false });
+
+      expect(schema.properties).toEqual({ status: { type: 'number' } });
+    });
+
+    it('should accept any value when the function type is not visible', () => {
+      const schema = toJsonSchema(`
+        declare function getUser(): { id: string };
+        type Result = ReturnType<typeof getUser>;
+        type Args = Parameters<typeof getUser>;
+      `, { rootType: 'Result', includeSchema: false });
+
+      expect(schema).toEqual({ $defs: { Args: {} } });
+    });
+  });
+
+  describe('String intrinsics', () => {
+    it('should transform literal unions', () => {
+      const schema = toJsonSchema(`
+        type Event = "click" | "focus";
+        type Handler = \`on\${Capitalize<Event>}\`;
+        type Upper = Uppercase<Event>;
+      `, { rootType: 'Upper', includeSchema: false });
+
+      expect(schema.enum).toEqual(['CLICK', 'FOCUS']);
+      expect(schema.$defs?.Handler).toEqual({ type: 'string', pattern: '^on(?:Click|Focus)$' });
+    });
+
+    it('should fall back to string for non-literal input', () => {
+      const schema = toJsonSchema(`
+        type Lower = Lowercase<string>;
+      `, { rootType: 'Lower', includeSchema: false });
+
+      expect(schema.type).toBe('string');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from '@jest/globals';
+import { toJsonSchema } from '../../src/index.js';
+
+describe('Utility types over inherited and composed properties', () => {
+  const animals = `
+    interface Animal {
+      /** Display name */
+      name: string;
+      age: number;
+    }
+    interface Dog extends Animal {
+      breed: string;
+    }
+  `;
+
+  it('should include inherited properties in Partial', () => {
+    const schema = toJsonSchema(`${animals}
+      type DogPatch = Partial<Dog>;
+    `, { rootType: 'DogPatch', includeSchema: false });
+
+    expect(Object.keys(schema.properties!)).toEqual(['name', 'age', 'breed']);
+    expect(schema.properties!.name).toEqual({ type: 'string', description: 'Display name' });
+    expect(schema.required).toBeUndefined();
+  });
+
+  it('should include inherited properties in Required', () => {
+    const schema = toJsonSchema(`
+      interface Base { id?: string; }
+      interface Entity extends Base { createdAt?: string; }
+      type Full = Required<Entity>;
+    `, { rootType: 'Full', includeSchema: false });
+
+    expect(schema.required).toEqual(['id', 'createdAt']);
+  });
+
+  it('should walk multi-level extends chains for Pick and Omit', () => {
+    const schema = toJsonSchema(`${animals}
+      interface Puppy extends Dog { toy: string; }
+      type Summary = Pick<Puppy, "name" | "toy">;
+      type WithoutAge = Omit<Puppy, "age">;
+    `, { rootType: 'Summary', includeSchema: false });
+
+    expect(Object.keys(schema.properties!)).toEqual(['name', 'toy']);
+    expect(Object.keys(schema.$defs!.WithoutAge.properties)).toEqual(['name', 'breed', 'toy']);
+  });
+
+  it('should let own properties override inherited ones', () => {
+    const schema = toJsonSchema(`
+      interface Base { status: string; }
+      interface Narrow extends Base { status: "open" | "closed"; }
+      type Patch = Partial<Narrow>;
+    `, { rootType: 'Patch', includeSchema: false });
+
+    expect(schema.properties!.status).toEqual({ type: 'string', enum: ['open', 'closed'] });
+  });
+
+  it('should compose nested utility types', () => {
+    const schema = toJsonSchema(`
+      interface User { id: string; name: string; email: string; }
+      type NamePatch = Partial<Pick<User, "name" | "email">>;
+    `, { rootType: 'NamePatch', includeSchema: false });
+
+    expect(Object.keys(schema.properties!)).toEqual(['name', 'email']);
+    expect(schema.required).toBeUndefined();
+  });
+
+  it('should flatten intersections', () => {
+    const schema = toJsonSchema(`
+      interface Timestamps { createdAt: string; updatedAt: string; }
+      type Post = { title: string } & Timestamps;
+      type PostPatch = Partial<Post>;
+      type PostTitle = Omit<Post, "createdAt" | "updatedAt">;
+    `, { rootType: 'PostPatch', includeSchema: false });
+
+    expect(Object.keys(schema.properties!)).toEqual(['title', 'createdAt', 'updatedAt']);
+    expect(Object.keys(schema.$defs!.PostTitle.properties)).toEqual(['title']);
+    expect(schema.$defs!.PostTitle.required).toEqual(['title']);
+  });
+
+  it('should instantiate generic parents', () => {
+    const schema = toJsonSchema(`
+      interface Wrapper<T> { value: T; }
+      interface Labeled<T> extends Wrapper<T> { label: string; }
+      type Draft = Partial<Labeled<number>>;
+    `, { rootType: 'Draft', includeSchema: false });
+
+    expect(schema.properties).toEqual({
+      value: { type: 'number' },
+      label: { type: 'string' },
+    });
+  });
+
+  it('should keep the index signature', () => {
+    const schema = toJsonSchema(`
+      interface Base { [key: string]: string; }
+      interface Tagged extends Base { tag: string; }
+      type Loose = Partial<Tagged>;
+    `, { rootType: 'Loose', includeSchema: false });
+
+    expect(schema.additionalProperties).toEqual({ type: 'string' });
+    expect(Object.keys(schema.properties!)).toEqual(['tag']);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ts from 'typescript';
+import Ajv2020 from 'ajv/dist/2020.js';
+import { toValidators, toJsonSchema } from '../../src/index.js';
+
+type Validate = (data: unknown) => { valid: boolean; errors: { path: string; keyword: string; message: string }[] };
+
+/** Evaluates generated JavaScript and returns its exported validators. */
+function load(code: string): Record<string, Validate> {
+  const names = [...code.matchAll(/^export function (\w+)/gm)].map(m => m[1]);
+  return new Function(`${code.replace(/^export /gm, '')}\nreturn { ${names.join(', ')} };`)();
+}
+
+const source = `
+  enum Status { Active = "active", Banned = "banned" }
+  interface Item {
+    /**
+     * @minLength 1
+     * @pattern ^[A-Z]{3}-\\d+$
+     */
+    sku: string;
+    /** @minimum 1 */
+    quantity: number;
+  }
+  interface Order {
+    id: string;
+    status: Status;
+    items: Item[];
+    note?: string | null;
+    position: [number, number];
+    labels: Record<string, string>;
+    parent?: Order;
+    "a/b": boolean;
+  }
+`;
+
+const validOrder = {
+  id: 'o1',
+  status: 'active',
+  items: [{ sku: 'ABC-1', quantity: 2 }],
+  position: [1, 2],
+  labels: { a: 'x' },
+  'a/b': true,
+};
+
+describe('Validator generation', () => {
+  const validators = load(toValidators(source, { language: 'javascript', strictObjects: true }));
+
+  it('should export one validator per type', () => {
+    expect(Object.keys(validators)).toEqual(['validateStatus', 'validateItem', 'validateOrder']);
+  });
+
+  it('should accept valid data', () => {
+    expect(validators.validateOrder(validOrder)).toEqual({ valid: true, errors: [] });
+  });
+
+  it('should report errors with JSON-pointer paths', () => {
+    const result = validators.validateOrder({
+      ...validOrder,
+      status: 'gone',
+      items: [{ sku: 'abc', quantity: 0 }],
+      position: [1],
+      labels: { 'x/y': 3 },
+      parent: { id: 1 },
+      extra: true,
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(e => `${e.path} ${e.keyword}`)).toEqual([
+      '/status enum',
+      '/items/0/sku pattern',
+      '/items/0/quantity minimum',
+      '/position minItems',
+      '/labels/x~1y type',
+      '/parent required',
+      '/parent required',
+      '/parent required',
+      '/parent required',
+      '/parent required',
+      '/parent/id type',
+      '/extra additionalProperties',
+    ]);
+  });
+
+  it('should escape property names in paths', () => {
+    const result = validators.validateOrder({ ...validOrder, 'a/b': 'yes' });
+    expect(result.errors).toEqual([{ path: '/a~1b', keyword: 'type', message: 'must be boolean' }]);
+  });
+
+  it('should report the root type mismatch at the empty pointer', () => {
+    expect(validators.validateItem('nope').errors).toEqual([{ path: '', keyword: 'type', message: 'must be object' }]);
+  });
+
+  it('should agree with Ajv', () => {
+    const samples: unknown[] = [
+      validOrder,
+      { ...validOrder, note: null },
+      { ...validOrder, note: 3 },
+      { ...validOrder, items: [{ sku: '', quantity: 1 }] },
+      { ...validOrder, position: [1, 2, 3] },
+      { ...validOrder, parent: validOrder },
+      { ...validOrder, labels: [] },
+      null,
+    ];
+    const ajv = new Ajv2020().compile(toJsonSchema(source, { rootType: 'Order', strictObjects: true }));
+
+    for (const sample of samples) {
+      expect(validators.validateOrder(sample).valid).toBe(ajv(sample));
+    }
+  });
+
+  it('should check unions, discriminated branches and closed intersections', () => {
+    const { validateShape, validateTagged } = load(toValidators(`
+      interface Circle { kind: "circle"; radius: number; }
+      interface Square { kind: "square"; size: number; }
+      type Shape = Circle | Square;
+      type Tagged = { tag: string } & ({ a: 1 } | { b: 2 });
+    `, { language: 'javascript', strictObjects: true, discriminatedUnions: 'if-then' }));
+
+    expect(validateShape({ kind: 'square', size: 1 }).valid).toBe(true);
+    expect(validateShape({ kind: 'square', radius: 1 }).errors.map(e => e.keyword)).toContain('required');
+    expect(validateShape({ kind: 'hexagon' }).errors.map(e => e.keyword)).toEqual(['enum']);
+
+    expect(validateTagged({ tag: 't', a: 1 }).valid).toBe(true);
+    expect(validateTagged({ tag: 't', c: 1 }).errors.map(e => `${e.path} ${e.keyword}`)).toEqual([
+      '/c unevaluatedProperties',
+      ' anyOf',
+    ]);
+  });
+
+  it('should give names that sanitize to the same identifier distinct validators', () => {
+    const { validateApi_User, validateApi_User_2, validateAccount } = load(toValidators(`
+      namespace Api { export interface User { id: string; } }
+      interface Api_User { name: string; }
+      interface Account { owner: Api.User; alias: Api_User; }
+    `, { language: 'javascript' }));
+
+    expect(validateApi_User({ name: 'a' }).valid).toBe(true);
+    expect(validateApi_User_2({ id: 'a' }).valid).toBe(true);
+    expect(validateAccount({ owner: { id: 'a' }, alias: { name: 'b' } }).valid).toBe(true);
+    expect(validateAccount({ owner: { name: 'b' }, alias: { id: 'a' } }).valid).toBe(false);
+  });
+
+  it('should generate TypeScript that type-checks under strict mode', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'validator-test-'));
+    try {
+      const file = path.join(dir, 'validators.ts');
+      // Literal unions become Set lookups on values narrowed to unknown
+      fs.writeFileSync(file, toValidators(`${source}
+        interface Filter { role: "admin" | "user"; level?: 1 | 2; flags: Record<string, "on" | "off">; }
+      `));
+      const program = ts.createProgram([file], { strict: true, noEmit: true, types: [], target: ts.ScriptTarget.ES2020, lib: ['lib.es2020.d.ts'] });
+      const diagnostics = ts.getPreEmitDiagnostics(program).map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+      expect(diagnostics).toEqual([]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
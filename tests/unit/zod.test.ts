@@ -0,0 +1,128 @@
+import { describe, it, expect } from '@jest/globals';
+import ts from 'typescript';
+import { toZod } from '../../src/index.js';
+
+const source = `
+  enum Role { Admin = "admin", Member = "member" }
+  /** A registered user */
+  interface User {
+    /** @format email */
+    email: string;
+    /**
+     * @minLength 2
+     * @maxLength 40
+     * @pattern ^[A-Za-z ]+$
+     */
+    name: string;
+    /** @minimum 0 */
+    age?: number;
+    role: Role | null;
+    contact: Contact;
+    "display-name": string;
+  }
+  interface Email { kind: "email"; address: string; }
+  interface Phone { kind: "phone"; number: string; }
+  type Contact = Email | Phone;
+`;
+
+describe('Zod generation', () => {
+  it('should emit a module that imports zod and exports one schema per type', () => {
+    const code = toZod(source);
+
+    expect(code).toMatch(/^\/\/ Generated by ts-source-to-json-schema\. Do not edit\.\nimport \{ z \} from "zod";\n/);
+    expect(code).toContain('export const RoleSchema = z.enum(["admin", "member"]);');
+    expect(code).toContain('export const UserSchema = z.object({');
+  });
+
+  it('should map JSDoc constraints to refinements', () => {
+    const code = toZod(source);
+
+    expect(code).toContain('  email: z.string().email(),');
+    expect(code).toContain('  name: z.string().min(2).max(40).regex(new RegExp("^[A-Za-z ]+$")),');
+    expect(code).toContain('  age: z.number().gte(0).optional(),');
+    expect(code).toContain('  role: RoleSchema.nullable(),');
+    expect(code).toContain('  "display-name": z.string(),');
+    expect(code).toContain('}).describe("A registered user");');
+  });
+
+  it('should emit discriminated unions with z.discriminatedUnion', () => {
+    const code = toZod(source);
+    expect(code).toContain('export const ContactSchema = z.discriminatedUnion("kind", [EmailSchema, PhoneSchema]);');
+  });
+
+  it('should declare schemas after the schemas they use', () => {
+    const code = toZod(source);
+    const position = (name: string) => code.indexOf(`export const ${name}Schema`);
+
+    expect(position('Role')).toBeLessThan(position('User'));
+    expect(position('Email')).toBeLessThan(position('Contact'));
+    expect(position('Phone')).toBeLessThan(position('Contact'));
+    expect(position('Contact')).toBeLessThan(position('User'));
+  });
+
+  it('should use z.lazy inside reference cycles only', () => {
+    const code = toZod(`
+      interface Tree { value: string; children: Forest; owner: Owner; }
+      type Forest = Tree[];
+      interface Owner { name: string; }
+      interface Category { name: string; parent?: Category; }
+    `);
+
+    expect(code).toContain('export const TreeSchema: z.ZodTypeAny = z.object({');
+    expect(code).toContain('  children: z.lazy(() => ForestSchema),');
+    expect(code).toContain('  owner: OwnerSchema,');
+    expect(code).toContain('export const ForestSchema: z.ZodTypeAny = z.array(z.lazy(() => TreeSchema));');
+    expect(code).toContain('  parent: z.lazy(() => CategorySchema).optional(),');
+    expect(code).toContain('export const OwnerSchema = z.object({');
+    expect(code.indexOf('OwnerSchema =')).toBeLessThan(code.indexOf('TreeSchema:'));
+  });
+
+  it('should emit one tuple per allowed length for optional tuple elements', () => {
+    const code = toZod(`
+      interface Args { flags: [string, number?, ...boolean[]]; }
+    `);
+
+    expect(code).toContain('  flags: z.union([z.tuple([z.string()]), z.tuple([z.string(), z.number()]).rest(z.boolean())]),');
+  });
+
+  it('should map tuples, records and strict objects', () => {
+    const code = toZod(`
+      interface Point { coords: [number, number, string?]; labels: Record<string, string>; }
+    `, { strictObjects: true });
+
+    expect(code).toContain('  coords: z.union([z.tuple([z.number(), z.number()]), z.tuple([z.number(), z.number(), z.string()])]),');
+    expect(code).toContain('  labels: z.record(z.string(), z.string()),');
+    expect(code).toContain('}).strict();');
+  });
+
+  it('should map bigint to z.bigint() and @IsInt() numbers to z.number().int()', () => {
+    const code = toZod(`
+      class Account {
+        balance: bigint;
+        @IsInt() @Min(1)
+        page: number;
+      }
+    `);
+
+    expect(code).toContain('  balance: z.bigint(),');
+    expect(code).toContain('  page: z.number().int().gte(1),');
+  });
+
+  it('should give names that sanitize to the same identifier distinct schemas', () => {
+    const code = toZod(`
+      namespace Api { export interface User { id: string; } }
+      interface Api_User { name: string; }
+      interface Account { owner: Api.User; alias: Api_User; }
+    `);
+
+    expect(code).toContain('export const Api_UserSchema = z.object({\n  name: z.string(),');
+    expect(code).toContain('export const Api_User_2Schema = z.object({\n  id: z.string(),');
+    expect(code).toContain('  owner: Api_User_2Schema,');
+    expect(code).toContain('  alias: Api_UserSchema,');
+  });
+
+  it('should produce syntactically valid TypeScript', () => {
+    const result = ts.transpileModule(toZod(source), { reportDiagnostics: true });
+    expect(result.diagnostics).toEqual([]);
+  });
+});